@@ -2,4 +2,9 @@ import { defineConfig } from '@vscode/test-cli';
 
 export default defineConfig({
 	files: 'out/test/**/*.test.js',
+	// The integration tests generate AGENTS.md files for this workspace
+	workspaceFolder: './src/test/fixtures/workspace',
+	mocha: {
+		timeout: 60000
+	}
 });
@@ -25,4 +25,23 @@ export default [{
         "no-throw-literal": "warn",
         semi: "warn",
     },
+}, {
+    // Only the VS Code adapters may use the vscode module; everything else is shared with the command line tool
+    files: ["src/**/*.ts"],
+    ignores: [
+        "src/extension.ts",
+        "src/portalViewProvider.ts",
+        "src/reviewDocumentProvider.ts",
+        "src/workspaceWatcher.ts",
+        "src/vscodeModelProvider.ts",
+        "src/fakeModelProvider.ts",
+        "src/test/**",
+    ],
+
+    rules: {
+        "no-restricted-imports": ["error", {
+            name: "vscode",
+            message: "The core must run without VS Code; use ./cancellation and ./modelProvider types instead.",
+        }],
+    },
 }];
\ No newline at end of file
@@ -0,0 +1,58 @@
+/**
+ * Cancellation without the vscode module, so generation also runs from the command line.
+ * VS Code's CancellationToken and Disposable fit these interfaces, so the extension passes its own.
+ */
+
+export interface Disposable {
+	dispose(): void;
+}
+
+export interface CancellationToken {
+	readonly isCancellationRequested: boolean;
+	onCancellationRequested(listener: (event: unknown) => void): Disposable;
+}
+
+/**
+ * Thrown when an operation stops because its token was cancelled
+ */
+export class CancellationError extends Error {
+	constructor() {
+		super('Canceled');
+		this.name = 'Canceled';
+	}
+}
+
+export class CancellationTokenSource implements Disposable {
+	private readonly listeners = new Set<(event: unknown) => void>();
+	private cancelled = false;
+
+	public readonly token: CancellationToken;
+
+	constructor() {
+		const isCancelled = () => this.cancelled;
+		this.token = {
+			get isCancellationRequested() {
+				return isCancelled();
+			},
+			onCancellationRequested: (listener) => {
+				this.listeners.add(listener);
+				return { dispose: () => this.listeners.delete(listener) };
+			}
+		};
+	}
+
+	public cancel(): void {
+		if (this.cancelled) {
+			return;
+		}
+		this.cancelled = true;
+		for (const listener of [...this.listeners]) {
+			listener(undefined);
+		}
+		this.listeners.clear();
+	}
+
+	public dispose(): void {
+		this.listeners.clear();
+	}
+}
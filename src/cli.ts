@@ -0,0 +1,454 @@
+/**
+ * agentsmd: generate and check AGENTS.md files from a terminal or a CI pipeline, without VS Code.
+ *
+ * Uses the same core as the extension and the workspace configuration file (.agentsmd.json) of each folder given,
+ * with the models of an OpenAI-compatible endpoint. Exit codes: 0 on success, 1 when a folder failed to generate
+ * or (check) has a missing or outdated AGENTS.md, 2 for usage and configuration errors, 130 when interrupted.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { CancellationTokenSource } from './cancellation';
+import { FolderNode } from './folderScanner';
+import { GenerationResult } from './documentationGenerator';
+import { buildImportGraphs, generateFolders, recordFolderGeneration } from './generationRunner';
+import { checkFolders, describeCheckFailure, DocState, FolderCheckResult, formatJUnitReport, toFolderCheckResult } from './docCheck';
+import { getStagedFolders, installPreCommitHook } from './preCommitHook';
+import { getGenerationConfig, updateGenerationConfig } from './generationConfig';
+import { getAvailableModels, registerModelProvider } from './modelSelector';
+import {
+	getModelEndpointConfig,
+	MODEL_ENDPOINT_ID_PREFIX,
+	OpenAICompatibleModelProvider,
+	updateModelEndpointConfig,
+	validateModelEndpointConfig
+} from './openAICompatibleProvider';
+import { getRedactionReport, resetRedactionReport } from './secretRedaction';
+import { buildStatusSnapshot, getFolderStatusDetails } from './statusManager';
+import { FolderStatusEntry, WorkspaceRoot } from './statusTypes';
+import { loadWorkspaceConfigFiles } from './workspaceConfigFile';
+import { refreshWorkspaceFolders } from './workspaceManager';
+
+const USAGE = `Usage: agentsmd <command> [options] [folder...]
+
+Commands:
+  generate       Generate AGENTS.md for every folder, leaf to root
+  outdated       Generate AGENTS.md only for folders whose output files are missing or out of date
+  status         List every folder with the state of its AGENTS.md
+  check          List the folders whose AGENTS.md is missing or out of date, exiting with code 1 if there are any
+  install-hook   Install a git pre-commit hook warning when a commit leaves AGENTS.md files out of date
+
+Folders are workspace folders, each with its own .agentsmd.json; the current directory by default.
+
+Model options (generate and outdated):
+  --base-url <url>          OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 (env: AGENTSMD_BASE_URL)
+  --model <name>            Model to use; the endpoint's first model by default (env: AGENTSMD_MODEL)
+  --max-input-tokens <n>    Input window of the model in tokens (env: AGENTSMD_MAX_INPUT_TOKENS)
+  --fallback <name>         Model tried when the previous one keeps failing; repeat for more
+  --retries <n>             Retries of rate-limited and network failures per model (default: 3)
+  --concurrency <n>         Folders generated at the same time (default: 3)
+  The API key is read from the AGENTSMD_API_KEY environment variable only, so it stays out of shell history.
+
+Check options:
+  --staged                  Only check folders containing files staged for commit
+  --junit <file>            Also write a JUnit XML report, with a failed test case per folder
+
+Output options:
+  --json                    Print a JSON report on stdout instead of text
+  --verbose                 Log details of every step to stderr
+  -h, --help                Show this help
+`;
+
+const COMMANDS = ['generate', 'outdated', 'status', 'check', 'install-hook'] as const;
+
+type Command = typeof COMMANDS[number];
+
+/**
+ * Thrown for invalid arguments and configuration; ends the process with exit code 2
+ */
+class UsageError extends Error {}
+
+interface CliOptions {
+	command: Command;
+	rootPaths: string[];
+	json: boolean;
+	verbose: boolean;
+	/** check: only folders containing staged files */
+	staged: boolean;
+	/** check: file to write a JUnit XML report to */
+	junit?: string;
+	baseUrl: string;
+	model: string;
+	maxInputTokens: string;
+	fallbackModels: string[];
+	retries?: string;
+	concurrency?: string;
+}
+
+interface FolderReport extends FolderCheckResult {
+	/** Status of the last generation recorded in the manifest */
+	status: string;
+	error?: string;
+}
+
+interface GenerationReport {
+	path: string;
+	relativePath: string;
+	rootPath: string;
+	result: 'generated' | 'failed' | 'cancelled';
+	modelId?: string;
+	fallbackFrom?: string[];
+	error?: string;
+	errorKind?: string;
+}
+
+async function main(argv: string[]): Promise<number> {
+	const options = parseOptions(argv);
+	if (!options) {
+		process.stdout.write(USAGE);
+		return 0;
+	}
+
+	// Progress and details go to stderr, so stdout only carries the report
+	console.log = options.verbose ? console.error : () => undefined;
+	console.info = console.log;
+
+	if (options.command === 'install-hook') {
+		return installHook(options);
+	}
+
+	const roots: WorkspaceRoot[] = options.rootPaths.map(rootPath => ({ name: path.basename(rootPath), path: rootPath }));
+	const configFiles = await loadWorkspaceConfigFiles(roots.map(root => root.path));
+	const invalidFiles = configFiles.filter(file => file.errors.length > 0);
+	if (invalidFiles.length > 0) {
+		throw new UsageError(invalidFiles.map(file => `${file.filePath} is invalid: ${file.errors.join('; ')}`).join('\n'));
+	}
+
+	const state = await refreshWorkspaceFolders(undefined, [], new Map(), roots);
+
+	switch (options.command) {
+		case 'status':
+			return reportStatus(options, state.discoveredFolders, state.folderStatusMap, roots);
+		case 'check':
+			return check(options, state.discoveredFolders, roots);
+		case 'generate':
+		case 'outdated':
+			return generate(options, state.discoveredFolders, state.folderStatusMap);
+	}
+}
+
+/**
+ * Parse the command line, or return undefined when help was asked for
+ */
+function parseOptions(argv: string[]): CliOptions | undefined {
+	let parsed: ReturnType<typeof parseCommandLine>;
+	try {
+		parsed = parseCommandLine(argv);
+	} catch (error) {
+		throw new UsageError(error instanceof Error ? error.message : String(error));
+	}
+	const { values, positionals } = parsed;
+	if (values.help || positionals.length === 0) {
+		return undefined;
+	}
+
+	const [command, ...folders] = positionals;
+	if (!COMMANDS.includes(command as Command)) {
+		throw new UsageError(`Unknown command "${command}". Expected one of: ${COMMANDS.join(', ')}`);
+	}
+
+	return {
+		command: command as Command,
+		rootPaths: [...new Set((folders.length > 0 ? folders : ['.']).map(folder => path.resolve(folder)))],
+		json: values.json ?? false,
+		verbose: values.verbose ?? false,
+		staged: values.staged ?? false,
+		junit: values.junit !== undefined ? path.resolve(values.junit) : undefined,
+		baseUrl: values['base-url'] ?? process.env.AGENTSMD_BASE_URL ?? '',
+		model: values.model ?? process.env.AGENTSMD_MODEL ?? '',
+		maxInputTokens: values['max-input-tokens'] ?? process.env.AGENTSMD_MAX_INPUT_TOKENS ?? '0',
+		fallbackModels: values.fallback ?? [],
+		retries: values.retries,
+		concurrency: values.concurrency
+	};
+}
+
+function parseCommandLine(argv: string[]) {
+	return parseArgs({
+		args: argv,
+		allowPositionals: true,
+		options: {
+			'base-url': { type: 'string' },
+			'model': { type: 'string' },
+			'max-input-tokens': { type: 'string' },
+			'fallback': { type: 'string', multiple: true },
+			'retries': { type: 'string' },
+			'concurrency': { type: 'string' },
+			'staged': { type: 'boolean' },
+			'junit': { type: 'string' },
+			'json': { type: 'boolean' },
+			'verbose': { type: 'boolean' },
+			'help': { type: 'boolean', short: 'h' }
+		}
+	});
+}
+
+/**
+ * Print the state of every folder's output files and the status of its last generation
+ */
+async function reportStatus(
+	options: CliOptions,
+	discoveredFolders: FolderNode[],
+	folderStatusMap: Map<string, FolderStatusEntry>,
+	roots: WorkspaceRoot[]
+): Promise<number> {
+	const snapshot = await buildStatusSnapshot(discoveredFolders, folderStatusMap, roots);
+	const folders: FolderReport[] = snapshot.items.map(item => ({
+		...toFolderCheckResult(item, item),
+		status: item.status,
+		error: item.error?.message
+	}));
+	const counts = {
+		total: folders.length,
+		upToDate: folders.filter(folder => folder.state === 'up-to-date').length,
+		outdated: folders.filter(folder => folder.state === 'outdated').length,
+		missing: folders.filter(folder => folder.state === 'missing').length
+	};
+
+	if (options.json) {
+		writeJson({ command: options.command, roots, ...counts, folders, skipped: snapshot.skipped });
+	} else {
+		for (const root of roots) {
+			process.stdout.write(`${root.name} (${root.path})\n`);
+			for (const folder of folders.filter(candidate => candidate.rootPath === root.path)) {
+				process.stdout.write(`  ${formatDocState(folder.state).padEnd(10)} ${folder.relativePath}${formatFolderDetails(folder)}\n`);
+			}
+		}
+		process.stdout.write(`${counts.total} folder(s): ${counts.upToDate} up to date, ${counts.outdated} outdated, ${counts.missing} missing\n`);
+	}
+	return 0;
+}
+
+/**
+ * Check every folder (or only those with staged changes) and fail when any output file is missing or out of date
+ */
+async function check(options: CliOptions, discoveredFolders: FolderNode[], roots: WorkspaceRoot[]): Promise<number> {
+	let folders = discoveredFolders;
+	if (options.staged) {
+		folders = [];
+		for (const root of roots) {
+			folders.push(...await getStagedFolders(root.path, discoveredFolders));
+		}
+	}
+
+	const report = await checkFolders(folders, roots);
+	if (options.junit) {
+		await fs.promises.mkdir(path.dirname(options.junit), { recursive: true });
+		await fs.promises.writeFile(options.junit, formatJUnitReport(report), 'utf-8');
+	}
+
+	if (options.json) {
+		writeJson({ command: options.command, staged: options.staged, ...report });
+	} else {
+		for (const result of report.folders.filter(candidate => candidate.state !== 'up-to-date')) {
+			const root = roots.length > 1 ? `${path.basename(result.rootPath)}: ` : '';
+			process.stdout.write(`${result.state.padEnd(10)} ${root}${result.relativePath} (${describeCheckFailure(result)})\n`);
+		}
+		process.stdout.write(report.passed
+			? `AGENTS.md is up to date in ${report.total} folder(s)${options.staged ? ' with staged changes' : ''}\n`
+			: `${report.outdated} outdated and ${report.missing} missing of ${report.total} folder(s); run agentsmd outdated to regenerate them\n`);
+	}
+	return report.passed ? 0 : 1;
+}
+
+async function installHook(options: CliOptions): Promise<number> {
+	const hookPaths = await installPreCommitHook(options.rootPaths, path.resolve(__filename));
+	for (const hookPath of hookPaths) {
+		process.stdout.write(`Installed the pre-commit hook ${hookPath}\n`);
+	}
+	return 0;
+}
+
+function formatDocState(state: DocState): string {
+	return state === 'up-to-date' ? 'ok' : state;
+}
+
+function formatFolderDetails(folder: FolderReport): string {
+	const details: string[] = [];
+	if (folder.changedFiles && folder.changedFiles.length > 0) {
+		details.push(`${folder.changedFiles.length} changed file(s)`);
+	}
+	if (folder.state !== 'missing' && folder.missingOutputs.length > 0) {
+		details.push(`missing ${folder.missingOutputs.join(', ')}`);
+	}
+	if (folder.error) {
+		details.push(`last generation failed: ${folder.error}`);
+	}
+	return details.length > 0 ? ` (${details.join('; ')})` : '';
+}
+
+/**
+ * Generate every folder, or only the outdated ones, writing the files and the manifest like the extension does
+ */
+async function generate(
+	options: CliOptions,
+	discoveredFolders: FolderNode[],
+	folderStatusMap: Map<string, FolderStatusEntry>
+): Promise<number> {
+	const modelId = await configureModel(options);
+
+	let folders = discoveredFolders;
+	if (options.command === 'outdated') {
+		const details = await Promise.all(folders.map(folder => getFolderStatusDetails(folder)));
+		folders = folders.filter((_folder, index) => !details[index].isUpToDate);
+	}
+
+	const source = new CancellationTokenSource();
+	const onInterrupt = () => {
+		process.stderr.write('Cancelling: folders in progress are left unchanged...\n');
+		source.cancel();
+	};
+	process.once('SIGINT', onInterrupt);
+
+	const reports: GenerationReport[] = [];
+	try {
+		resetRedactionReport();
+		await buildImportGraphs(folders, discoveredFolders);
+		await generateFolders(folders, modelId, source.token, async (folderNode) => {
+			process.stderr.write(`Generating ${getRelativePath(folderNode)}\n`);
+		}, async (folderNode, result) => {
+			const entry = result.cancelled
+				? undefined
+				: await recordFolderGeneration(folderNode.path, folderStatusMap.get(folderNode.path), result);
+			if (entry) {
+				folderStatusMap.set(folderNode.path, entry);
+			}
+			const report = toGenerationReport(folderNode, result);
+			reports.push(report);
+			process.stderr.write(`[${reports.length}/${folders.length}] ${report.relativePath}: ${report.result}${report.error ? ` (${report.error})` : ''}\n`);
+		});
+	} finally {
+		process.removeListener('SIGINT', onInterrupt);
+		source.dispose();
+	}
+
+	const interrupted = source.token.isCancellationRequested;
+	const generated = reports.filter(report => report.result === 'generated').length;
+	const failed = reports.filter(report => report.result === 'failed').length;
+	const redactions = getRedactionReport();
+
+	if (options.json) {
+		writeJson({
+			command: options.command,
+			model: modelId,
+			total: folders.length,
+			generated,
+			failed,
+			// Folders cancelled mid-generation and folders never started
+			notGenerated: folders.length - generated - failed,
+			interrupted,
+			folders: reports,
+			redactions
+		});
+	} else {
+		process.stdout.write(`Generated ${generated} of ${folders.length} folder(s) with ${modelId}${failed > 0 ? `, ${failed} failed` : ''}${interrupted ? ' (interrupted)' : ''}\n`);
+		for (const report of reports.filter(candidate => candidate.result === 'failed')) {
+			process.stdout.write(`  failed ${report.relativePath}: ${report.error ?? 'unknown error'}\n`);
+		}
+		if (redactions.length > 0) {
+			process.stdout.write(`Redacted secrets or withheld files in ${redactions.length} file(s) before sending them to the model\n`);
+		}
+	}
+
+	if (interrupted) {
+		return 130;
+	}
+	return failed > 0 ? 1 : 0;
+}
+
+/**
+ * Set up the endpoint and generation options from the command line, returning the ID of the model to use
+ */
+async function configureModel(options: CliOptions): Promise<string> {
+	const endpoint = {
+		baseUrl: options.baseUrl,
+		model: stripModelPrefix(options.model),
+		apiKey: process.env.AGENTSMD_API_KEY ?? '',
+		maxInputTokens: Number(options.maxInputTokens)
+	};
+	const errors = validateModelEndpointConfig(endpoint);
+	if (!endpoint.baseUrl) {
+		errors.push('No model endpoint: pass --base-url or set AGENTSMD_BASE_URL');
+	}
+	if (errors.length > 0) {
+		throw new UsageError(errors.join('\n'));
+	}
+	updateModelEndpointConfig(endpoint);
+	registerModelProvider(new OpenAICompatibleModelProvider());
+
+	let modelId = endpoint.model ? MODEL_ENDPOINT_ID_PREFIX + endpoint.model : undefined;
+	if (!modelId) {
+		const [firstModel] = await getAvailableModels();
+		if (!firstModel) {
+			throw new UsageError(`${getModelEndpointConfig().baseUrl} serves no models; pass --model`);
+		}
+		modelId = firstModel.id;
+	}
+
+	// There is no portal to review staged content in, and VS Code's preferred models don't exist here
+	updateGenerationConfig({
+		...getGenerationConfig(),
+		reviewBeforeWriting: false,
+		fallbackModels: options.fallbackModels.map(modelName => MODEL_ENDPOINT_ID_PREFIX + stripModelPrefix(modelName)),
+		fallbackToPreferredModels: false,
+		maxRetries: toCount(options.retries, '--retries') ?? getGenerationConfig().maxRetries,
+		maxConcurrency: toCount(options.concurrency, '--concurrency') ?? getGenerationConfig().maxConcurrency
+	});
+	return modelId;
+}
+
+function stripModelPrefix(modelName: string): string {
+	const trimmed = modelName.trim();
+	return trimmed.startsWith(MODEL_ENDPOINT_ID_PREFIX) ? trimmed.substring(MODEL_ENDPOINT_ID_PREFIX.length) : trimmed;
+}
+
+function toCount(value: string | undefined, option: string): number | undefined {
+	if (value === undefined) {
+		return undefined;
+	}
+	const count = Number(value);
+	if (!Number.isInteger(count) || count < 0) {
+		throw new UsageError(`${option} must be a whole number`);
+	}
+	return count;
+}
+
+function toGenerationReport(folderNode: FolderNode, result: GenerationResult): GenerationReport {
+	const base = { path: folderNode.path, relativePath: getRelativePath(folderNode), rootPath: folderNode.rootPath };
+	if (result.cancelled) {
+		return { ...base, result: 'cancelled' };
+	}
+	if (!result.success) {
+		return { ...base, result: 'failed', error: result.error?.message, errorKind: result.error?.kind };
+	}
+	return { ...base, result: 'generated', modelId: result.metadata?.modelId, fallbackFrom: result.metadata?.fallbackFrom };
+}
+
+function getRelativePath(folderNode: FolderNode): string {
+	return path.relative(folderNode.rootPath, folderNode.path) || '.';
+}
+
+function writeJson(report: object): void {
+	process.stdout.write(JSON.stringify(report, null, 2) + '\n');
+}
+
+main(process.argv.slice(2)).then((exitCode) => {
+	process.exitCode = exitCode;
+}, (error) => {
+	process.stderr.write(`agentsmd: ${error instanceof Error ? error.message : String(error)}\n`);
+	if (error instanceof UsageError) {
+		process.stderr.write('Run agentsmd --help for usage.\n');
+	}
+	process.exitCode = 2;
+});
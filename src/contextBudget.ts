@@ -0,0 +1,197 @@
+import * as path from 'path';
+
+/**
+ * Tokens available for file contents in a prompt, and how to count them
+ */
+export interface TokenBudget {
+	maxTokens: number;
+	countTokens(text: string): Promise<number>;
+}
+
+/**
+ * A file whose content may be sent to the model
+ */
+export interface ContextCandidate {
+	/** Relative to the folder being documented */
+	relativePath: string;
+	content: string;
+}
+
+export interface AllocatedFile extends ContextCandidate {
+	totalTokens: number;
+	/** Approximate tokens of the content included, equal to totalTokens when the file is complete */
+	shownTokens: number;
+	truncated: boolean;
+}
+
+export interface ContextAllocation {
+	/** Files included in full or truncated, in priority order */
+	files: AllocatedFile[];
+	/** Files left out entirely, listed by name only */
+	omitted: string[];
+}
+
+/** Budget used when no model is involved, e.g. for fingerprinting or a model without a known window */
+export const DEFAULT_CONTEXT_TOKENS = 12000;
+
+// A file gets at least this many tokens, otherwise the lowest priority files are left out
+const MIN_FILE_TOKENS = 200;
+// Headings and code fences added around each file
+const FILE_OVERHEAD_TOKENS = 20;
+
+const ENTRY_POINT_NAMES = new Set([
+	'index', 'main', 'app', 'extension', 'server', 'cli', 'program', 'lib', 'mod', '__init__', '__main__'
+]);
+
+const EXPORT_PATTERNS = [
+	/^\s*export\s/gm,
+	/module\.exports\b/g,
+	/^\s*pub\s+(fn|struct|enum|trait|mod)\s/gm,
+	/^\s*public\s+(static\s+)?(class|interface|enum|record|[\w<>[\]]+\s+\w+\s*\()/gm,
+	/^(def|class)\s+[A-Za-z]/gm,
+	/^func\s+(\([^)]*\)\s*)?[A-Z]/gm
+];
+
+const IMPORT_SPECIFIER_PATTERNS = [
+	/(?:from|import)\s+['"]([^'"]+)['"]/g,
+	/require\(\s*['"]([^'"]+)['"]\s*\)/g,
+	/^\s*from\s+(\.+[\w.]*)\s+import/gm
+];
+
+/**
+ * A budget that estimates tokens from the text length (about 4 characters per token)
+ */
+export function createEstimatedBudget(maxTokens: number = DEFAULT_CONTEXT_TOKENS): TokenBudget {
+	return { maxTokens, countTokens: async (text) => estimateTokens(text) };
+}
+
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+/**
+ * Whether a file name looks like a module's entry point (index.ts, main.go, __init__.py, ...)
+ */
+export function isEntryPointFile(fileName: string): boolean {
+	const stem = path.basename(fileName, path.extname(fileName)).toLowerCase();
+	return ENTRY_POINT_NAMES.has(stem);
+}
+
+/**
+ * Order files by importance: entry points, then files imported by the most other files,
+ * then files with the most exported symbols, then the largest
+ */
+export function rankContextCandidates<T extends ContextCandidate>(candidates: T[]): T[] {
+	const importCounts = new Map<string, number>();
+	for (const candidate of candidates) {
+		for (const stem of getImportedStems(candidate.content)) {
+			importCounts.set(stem, (importCounts.get(stem) ?? 0) + 1);
+		}
+	}
+
+	const scored = candidates.map(candidate => ({
+		candidate,
+		entryPoint: isEntryPointFile(candidate.relativePath) ? 1 : 0,
+		importedBy: importCounts.get(getStem(candidate.relativePath)) ?? 0,
+		exports: countExports(candidate.content),
+		size: candidate.content.length
+	}));
+
+	scored.sort((a, b) =>
+		b.entryPoint - a.entryPoint ||
+		b.importedBy - a.importedBy ||
+		b.exports - a.exports ||
+		b.size - a.size ||
+		a.candidate.relativePath.localeCompare(b.candidate.relativePath)
+	);
+	return scored.map(entry => entry.candidate);
+}
+
+/**
+ * Fit candidates (in priority order) into a token budget.
+ * Files that fit are included in full; when they don't, every file is cut to the same cap so small files stay
+ * complete and large ones are truncated. If the cap would fall below a useful size, the lowest priority files are left out.
+ */
+export async function allocateContext(candidates: ContextCandidate[], budget: TokenBudget): Promise<ContextAllocation> {
+	const tokens: number[] = [];
+	for (const candidate of candidates) {
+		tokens.push(await budget.countTokens(candidate.content));
+	}
+
+	let included = candidates.length;
+	let cap = computeTokenCap(tokens.slice(0, included), budget.maxTokens);
+	while (included > 0 && cap < MIN_FILE_TOKENS) {
+		included--;
+		cap = computeTokenCap(tokens.slice(0, included), budget.maxTokens);
+	}
+
+	const files = candidates.slice(0, included).map((candidate, index): AllocatedFile => {
+		const totalTokens = tokens[index];
+		if (totalTokens <= cap) {
+			return { ...candidate, totalTokens, shownTokens: totalTokens, truncated: false };
+		}
+		return {
+			relativePath: candidate.relativePath,
+			content: truncateToTokens(candidate.content, totalTokens, cap),
+			totalTokens,
+			shownTokens: cap,
+			truncated: true
+		};
+	});
+
+	return { files, omitted: candidates.slice(included).map(candidate => candidate.relativePath) };
+}
+
+/**
+ * Largest per-file token cap that keeps the total within the budget (Infinity when everything fits)
+ */
+function computeTokenCap(tokens: number[], maxTokens: number): number {
+	const available = maxTokens - tokens.length * FILE_OVERHEAD_TOKENS;
+	if (tokens.reduce((sum, count) => sum + count, 0) <= available) {
+		return Infinity;
+	}
+
+	const sorted = [...tokens].sort((a, b) => a - b);
+	let remaining = available;
+	for (let i = 0; i < sorted.length; i++) {
+		const share = remaining / (sorted.length - i);
+		if (sorted[i] > share) {
+			return Math.floor(share);
+		}
+		remaining -= sorted[i];
+	}
+	return Infinity;
+}
+
+function truncateToTokens(content: string, totalTokens: number, maxTokens: number): string {
+	const maxChars = Math.floor(content.length * (maxTokens / Math.max(totalTokens, 1)));
+	const cut = content.substring(0, maxChars);
+	// Prefer ending on a complete line
+	const lastNewline = cut.lastIndexOf('\n');
+	return lastNewline > maxChars * 0.8 ? cut.substring(0, lastNewline) : cut;
+}
+
+function countExports(content: string): number {
+	return EXPORT_PATTERNS.reduce((count, pattern) => count + (content.match(pattern)?.length ?? 0), 0);
+}
+
+function getImportedStems(content: string): Set<string> {
+	const stems = new Set<string>();
+	for (const pattern of IMPORT_SPECIFIER_PATTERNS) {
+		for (const match of content.matchAll(pattern)) {
+			const specifier = match[1];
+			if (specifier.startsWith('.')) {
+				// "./folderScanner.js" -> folderScanner, ".utils.helpers" (Python) -> helpers
+				const last = specifier.includes('/') ? getStem(specifier) : specifier.split('.').filter(Boolean).pop();
+				if (last) {
+					stems.add(last);
+				}
+			}
+		}
+	}
+	return stems;
+}
+
+function getStem(relativePath: string): string {
+	return path.basename(relativePath, path.extname(relativePath));
+}
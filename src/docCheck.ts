@@ -0,0 +1,138 @@
+/**
+ * Verification that every folder's output files exist and were generated from its current content,
+ * reported as JSON or JUnit XML so CI can fail a build when docs fall behind the code.
+ */
+
+import * as path from 'path';
+import { FolderNode } from './folderScanner';
+import { FolderDocStatusDetails, getFolderStatusDetails } from './statusManager';
+import { WorkspaceRoot } from './statusTypes';
+
+/**
+ * State of a folder's output files: all up to date, at least one generated from older content, or the primary one missing
+ */
+export type DocState = 'up-to-date' | 'outdated' | 'missing';
+
+export interface FolderCheckResult {
+	path: string;
+	/** Relative to the workspace folder, '.' for the workspace folder itself */
+	relativePath: string;
+	rootPath: string;
+	state: DocState;
+	/** Inputs added (+), removed (-) or modified (~) since the last generation */
+	changedFiles?: string[];
+	/** Output files that don't exist, relative to the workspace folder */
+	missingOutputs: string[];
+	/** Output files generated from older content, relative to the workspace folder */
+	outdatedOutputs: string[];
+}
+
+export interface CheckReport {
+	checkedAt: string;
+	roots: WorkspaceRoot[];
+	total: number;
+	upToDate: number;
+	outdated: number;
+	missing: number;
+	/** No folder is missing or outdated */
+	passed: boolean;
+	folders: FolderCheckResult[];
+}
+
+/**
+ * Check the output files of the given folders
+ */
+export async function checkFolders(folders: FolderNode[], roots: WorkspaceRoot[]): Promise<CheckReport> {
+	const results = await Promise.all(folders.map(async folder =>
+		toFolderCheckResult(folder, await getFolderStatusDetails(folder))));
+	const rootOrder = new Map(roots.map((root, index) => [root.path, index]));
+	results.sort((a, b) => (rootOrder.get(a.rootPath) ?? 0) - (rootOrder.get(b.rootPath) ?? 0) || a.path.localeCompare(b.path));
+
+	const outdated = results.filter(result => result.state === 'outdated').length;
+	const missing = results.filter(result => result.state === 'missing').length;
+	return {
+		checkedAt: new Date().toISOString(),
+		roots,
+		total: results.length,
+		upToDate: results.length - outdated - missing,
+		outdated,
+		missing,
+		passed: outdated === 0 && missing === 0,
+		folders: results
+	};
+}
+
+export function toFolderCheckResult(folder: { path: string; rootPath: string }, details: FolderDocStatusDetails): FolderCheckResult {
+	return {
+		path: folder.path,
+		relativePath: path.relative(folder.rootPath, folder.path) || '.',
+		rootPath: folder.rootPath,
+		state: getDocState(details),
+		changedFiles: details.changedFiles,
+		missingOutputs: details.outputFiles.filter(file => !file.exists).map(file => file.relativePath),
+		outdatedOutputs: details.outputFiles.filter(file => file.exists && !file.isUpToDate).map(file => file.relativePath)
+	};
+}
+
+export function getDocState(details: Pick<FolderDocStatusDetails, 'hasAgentsFile' | 'isUpToDate'>): DocState {
+	if (!details.hasAgentsFile) {
+		return 'missing';
+	}
+	return details.isUpToDate ? 'up-to-date' : 'outdated';
+}
+
+/**
+ * One line per folder that is missing or outdated, with what needs regenerating
+ */
+export function describeCheckFailure(result: FolderCheckResult): string {
+	const reasons: string[] = [];
+	if (result.missingOutputs.length > 0) {
+		reasons.push(`missing ${result.missingOutputs.join(', ')}`);
+	}
+	if (result.outdatedOutputs.length > 0) {
+		reasons.push(`outdated ${result.outdatedOutputs.join(', ')}`);
+	}
+	if (result.changedFiles && result.changedFiles.length > 0) {
+		reasons.push(`changed since the last generation: ${result.changedFiles.join(' ')}`);
+	}
+	return reasons.join('; ');
+}
+
+/**
+ * JUnit XML with a test suite per workspace folder and a test case per folder, failing when its docs are missing or outdated
+ */
+export function formatJUnitReport(report: CheckReport): string {
+	const failures = report.outdated + report.missing;
+	let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
+	xml += `<testsuites name="AGENTS.md check" tests="${report.total}" failures="${failures}" timestamp="${report.checkedAt}">\n`;
+
+	for (const root of report.roots) {
+		const results = report.folders.filter(result => result.rootPath === root.path);
+		const rootFailures = results.filter(result => result.state !== 'up-to-date').length;
+		xml += `\t<testsuite name="${escapeXml(root.name)}" tests="${results.length}" failures="${rootFailures}" timestamp="${report.checkedAt}">\n`;
+		for (const result of results) {
+			const testCase = `\t\t<testcase classname="${escapeXml(root.name)}" name="${escapeXml(result.relativePath)}" file="${escapeXml(result.path)}"`;
+			if (result.state === 'up-to-date') {
+				xml += `${testCase}/>\n`;
+				continue;
+			}
+			const message = result.state === 'missing' ? 'AGENTS.md is missing' : 'AGENTS.md is out of date';
+			xml += `${testCase}>\n`;
+			xml += `\t\t\t<failure type="${result.state}" message="${message}">${escapeXml(describeCheckFailure(result))}</failure>\n`;
+			xml += '\t\t</testcase>\n';
+		}
+		xml += '\t</testsuite>\n';
+	}
+
+	xml += '</testsuites>\n';
+	return xml;
+}
+
+function escapeXml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&apos;');
+}
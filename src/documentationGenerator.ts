@@ -1,18 +1,56 @@
-import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { FolderNode } from './folderScanner';
-import { buildPrompt } from './promptConfig';
-import { getFolderStructure, getSubfolderAgentsDocs } from './folderAnalyzer';
+import { buildPrompt, getPromptTemplateHash, getTemplateSectionTitles } from './promptConfig';
+import { getFolderReferenceIndex, getFolderStructure, getFolderSymbols, getSubfolderAgentsDocs } from './folderAnalyzer';
+import { getGenerationConfig } from './generationConfig';
+import { GenerationError, GenerationMetadata } from './statusTypes';
+import { computeFolderFingerprint, FolderFingerprint } from './folderFingerprint';
+import { formatOutputContent, resolveOutputFiles, stripFrontMatter } from './outputTargets';
+import { readOutputFile, StagedOutput } from './stagedGenerations';
+import { GENERATED_FENCE, KEEP_FENCE, mergeMarkdownSections } from './markdownMerge';
+import { DEFAULT_CONTEXT_TOKENS, estimateTokens, TokenBudget } from './contextBudget';
+import { findInvalidReferences, stripInvalidReferences } from './referenceValidator';
+import { formatFolderDependencies } from './importGraph';
+import { getCurrentModel, ModelChain, ModelRequestError, recordModelUsage, resolveModelChain, sendModelRequest } from './modelRequest';
+import { ChatMessage, ChatModel, ModelError } from './modelProvider';
+import { CancellationError, CancellationToken } from './cancellation';
+
+// Share of the model's input window the prompt may use; the rest absorbs token count inaccuracies
+const CONTEXT_WINDOW_SHARE = 0.85;
+
+export interface GenerationResult {
+	success: boolean;
+	/** Generation was interrupted by the user; nothing was written */
+	cancelled?: boolean;
+	error?: GenerationError;
+	/** Details of the generation, set when it succeeded */
+	metadata?: GenerationMetadata;
+	/** Fingerprint of the inputs the written AGENTS.md was generated from */
+	fingerprint?: FolderFingerprint;
+	/** Output files written (or staged), set when it succeeded */
+	outputFiles?: string[];
+	/** Set instead of writing when review mode is on; the caller stages it for review */
+	stagedOutputs?: StagedOutput[];
+}
+
+interface TokenUsage {
+	inputTokens: number;
+	outputTokens: number;
+}
 
 /**
  * Use LLM to intelligently merge existing content with newly generated content
- * This preserves custom sections while updating standard sections
+ * This preserves custom sections while updating standard sections.
+ * Only used when the merge strategy is 'llm'; falls back to the section merge when the request fails.
  */
 export async function mergeWithExistingContent(
 	existingContent: string, 
 	newContent: string,
-	model: vscode.LanguageModelChat
+	chain: ModelChain,
+	token: CancellationToken,
+	usage?: TokenUsage,
+	standardSectionTitles: string[] = []
 ): Promise<string> {
 	const mergePrompt = `You are a documentation merge assistant. You need to intelligently merge an existing AGENTS.md file with newly generated content.
 
@@ -24,6 +62,7 @@ INSTRUCTIONS:
 5. If the existing content has a custom section that seems to overlap with standard content, prefer the NEW content but keep any unique information
 6. Maintain the same markdown formatting and structure
 7. Do NOT add any explanatory text - just output the merged markdown content
+8. Content between ${KEEP_FENCE} and ${GENERATED_FENCE} in the EXISTING content must be kept VERBATIM, including both markers
 
 EXISTING CONTENT:
 ${existingContent}
@@ -38,99 +77,254 @@ ${newContent}
 OUTPUT THE MERGED CONTENT (just the markdown, no explanations):`;
 
 	try {
-		const messages = [
-			vscode.LanguageModelChatMessage.User(mergePrompt)
+		const messages: ChatMessage[] = [
+			{ role: 'user', content: mergePrompt }
 		];
 		
-		const response = await model.sendRequest(messages, {}, new vscode.CancellationTokenSource().token);
-		
-		let mergedContent = '';
-		for await (const fragment of response.text) {
-			mergedContent += fragment;
+		const { text: mergedContent, model } = await sendModelRequest(chain, messages, token);
+
+		if (usage) {
+			usage.inputTokens += await countTokens(model, mergePrompt, token);
+			usage.outputTokens += await countTokens(model, mergedContent, token);
 		}
-		
+	
 		return mergedContent.trim();
 	} catch (error) {
+		// A cancelled merge must not fall back to writing partial content
+		if (token.isCancellationRequested) {
+			throw new CancellationError();
+		}
 		console.error('Error merging content with LLM:', error);
-		// Fallback: just append existing custom sections to new content
-		return newContent + '\n\n---\n\n## Previous Custom Content\n\n' + existingContent;
+		return mergeMarkdownSections(existingContent, newContent, standardSectionTitles);
+	}
+}
+
+/**
+ * Ask the model once to rewrite generated content without the symbols and paths that don't exist.
+ * Returns the original content when the request fails.
+ */
+async function correctInvalidReferences(
+	prompt: string,
+	content: string,
+	invalidReferences: string[],
+	chain: ModelChain,
+	token: CancellationToken,
+	usage: TokenUsage
+): Promise<string> {
+	const correctionPrompt = `The documentation above mentions the following names, which do NOT exist in the provided code or folder:
+${invalidReferences.map(reference => `- ${reference}`).join('\n')}
+
+Rewrite the complete documentation without these names. Only mention functions, classes, files and paths that are present in the folder information, and keep everything else unchanged.
+OUTPUT THE CORRECTED CONTENT (just the markdown, no explanations):`;
+
+	try {
+		const messages: ChatMessage[] = [
+			{ role: 'user', content: prompt },
+			{ role: 'assistant', content },
+			{ role: 'user', content: correctionPrompt }
+		];
+
+		const { text: correctedContent, model } = await sendModelRequest(chain, messages, token);
+
+		usage.inputTokens += await countTokens(model, prompt + content + correctionPrompt, token);
+		usage.outputTokens += await countTokens(model, correctedContent, token);
+
+		return correctedContent.trim() || content;
+	} catch (error) {
+		if (token.isCancellationRequested) {
+			throw new CancellationError();
+		}
+		console.error('Error correcting unknown references:', error);
+		return content;
 	}
 }
 
 /**
- * Generate AGENTS.md file for a specific folder using GitHub Copilot Chat
+ * Generate AGENTS.md (and every other configured output file) for a specific folder using the selected model (GitHub Copilot or an OpenAI-compatible endpoint).
+ * On failure or cancellation an existing AGENTS.md is never modified; the error is returned for the status map.
+ * In review mode nothing is written: the content of each output file is returned for staging.
  */
 export async function generateAgentsMdForFolder(
 	folderNode: FolderNode,
-	selectedModelId: string | undefined
-): Promise<boolean> {
+	selectedModelId: string | undefined,
+	token: CancellationToken
+): Promise<GenerationResult> {
+	const outputFiles = resolveOutputFiles(folderNode.path, folderNode.rootPath);
+	// The primary output file is the one merged with new content; the others keep their custom sections around the result
+	const agentsFilePath = outputFiles[0].filePath;
+	const agentsFileName = path.basename(agentsFilePath);
+	const hadExistingFile = fs.existsSync(agentsFilePath);
+	const { reviewBeforeWriting, writePlaceholderOnFailure, mergeStrategy, referenceCheck } = getGenerationConfig();
+	const relativeFolderPath = path.relative(folderNode.rootPath, folderNode.path) || '.';
+	let chain: ModelChain | undefined;
+
 	try {
-		const agentsFilePath = path.join(folderNode.path, 'AGENTS.md');
-		
-		// Check if AGENTS.md already exists
-		let existingContent: string | undefined;
-		if (fs.existsSync(agentsFilePath)) {
+		// Read the output files that already exist, without their front matter
+		const existingOutputs = new Map<string, string>();
+		for (const outputFile of outputFiles) {
+			if (!fs.existsSync(outputFile.filePath)) {
+				continue;
+			}
 			try {
-				existingContent = await fs.promises.readFile(agentsFilePath, 'utf-8');
-				console.log(`Found existing AGENTS.md in ${folderNode.path}, will merge with new content`);
+				existingOutputs.set(outputFile.filePath, stripFrontMatter(await fs.promises.readFile(outputFile.filePath, 'utf-8')));
+				console.log(`Found existing ${outputFile.relativePath}, will merge with new content`);
 			} catch (err) {
-				console.error(`Error reading existing AGENTS.md for ${folderNode.path}:`, err);
+				// Without the existing content a write would discard it, so give up on this folder
+				throw new Error(`Unable to read existing ${outputFile.relativePath}: ${err instanceof Error ? err.message : String(err)}`);
 			}
 		}
+		const existingContent = existingOutputs.get(agentsFilePath);
+		const standardSectionTitles = getTemplateSectionTitles(folderNode.rootPath);
 		
-		// Get folder structure and contents
-		const folderStructure = await getFolderStructure(folderNode.path);
+		// Fingerprint the inputs before reading them, so later edits are detected as changes
+		const fingerprint = await computeFolderFingerprint(folderNode);
+		
+		// The selected model, followed by the fallback models for when it is unavailable or keeps failing
+		chain = await resolveModelChain(selectedModelId);
+		const primaryModel = getCurrentModel(chain);
 		
 		// Get AGENTS.md from direct sub-folders (they were processed first due to leaf-to-root order)
 		const subfolderDocs = await getSubfolderAgentsDocs(folderNode);
+
+		// Outline exported symbols from the complete files, so they ground the docs even when the source is truncated
+		const symbols = await getFolderSymbols(folderNode.path, folderNode.rootPath);
+
+		// Dependencies come from the import graph built at the start of the run
+		const dependencies = formatFolderDependencies(folderNode.path);
+
+		// File contents get whatever the model's window leaves after the template, sub-folder docs, symbols and dependencies;
+		// the smallest window of the chain, so the prompt still fits when a fallback model answers
+		const reservedTokens = await countTokens(primaryModel, buildPrompt('', subfolderDocs, folderNode.rootPath, symbols, dependencies), token);
+		const contextTokens = Math.min(...chain.models.map(candidate => candidate.maxInputTokens || DEFAULT_CONTEXT_TOKENS));
+		const budget: TokenBudget = {
+			maxTokens: Math.floor(contextTokens * CONTEXT_WINDOW_SHARE) - reservedTokens,
+			countTokens: async (text) => (await countTokens(primaryModel, text, token)) || estimateTokens(text)
+		};
+
+		// Get folder structure and contents
+		const folderStructure = await getFolderStructure(folderNode.path, folderNode.rootPath, budget);
 		
 		// Build prompt using configurable template
-		const prompt = buildPrompt(folderStructure, subfolderDocs);
-		
-		// Select Copilot model
-		let model: vscode.LanguageModelChat | undefined;
-		
-		if (selectedModelId) {
-			// Try to use the user-selected model
-			const models = await vscode.lm.selectChatModels({ id: selectedModelId });
-			if (models.length > 0) {
-				model = models[0];
-			} else {
-				throw new Error(`Selected model '${selectedModelId}' is not available. Please select a different model.`);
-			}
-		} else {
-			throw new Error('No model selected. Please select a model from the portal before generating documentation.');
-		}
+		const prompt = buildPrompt(folderStructure, subfolderDocs, folderNode.rootPath, symbols, dependencies);
 		
+		const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+	
 		// Create chat message
-		const messages = [
-			vscode.LanguageModelChatMessage.User(prompt)
+		const messages: ChatMessage[] = [
+			{ role: 'user', content: prompt }
 		];
 		
-		// Send request to Copilot
-		const response = await model.sendRequest(messages, {}, new vscode.CancellationTokenSource().token);
-		
-		// Collect the response
-		let agentsContent = '';
-		for await (const fragment of response.text) {
-			agentsContent += fragment;
+		// Send request to the model, retrying and falling back to other models as needed
+		const response = await sendModelRequest(chain, messages, token);
+		const model = response.model;
+		let agentsContent = response.text;
+
+		if (token.isCancellationRequested) {
+			throw new CancellationError();
+		}
+
+		usage.inputTokens += await countTokens(model, prompt, token);
+		usage.outputTokens += await countTokens(model, agentsContent, token);
+
+		if (!agentsContent.trim()) {
+			throw new Error('The model returned an empty response.');
+		}
+
+		// Check the new content only; custom sections kept from the existing file are the user's
+		let unknownReferences: string[] = [];
+		if (referenceCheck !== 'off') {
+			const referenceIndex = await getFolderReferenceIndex(folderNode.path, folderNode.rootPath, subfolderDocs);
+			unknownReferences = findInvalidReferences(agentsContent, referenceIndex);
+
+			if (unknownReferences.length > 0 && referenceCheck === 'reprompt') {
+				console.log(`Asking the model to correct unknown references in ${folderNode.path}: ${unknownReferences.join(', ')}`);
+				agentsContent = await correctInvalidReferences(prompt, agentsContent, unknownReferences, chain, token, usage);
+				unknownReferences = findInvalidReferences(agentsContent, referenceIndex);
+			} else if (unknownReferences.length > 0 && referenceCheck === 'strip') {
+				console.log(`Removing unknown references from ${folderNode.path}: ${unknownReferences.join(', ')}`);
+				agentsContent = stripInvalidReferences(agentsContent, unknownReferences);
+				unknownReferences = findInvalidReferences(agentsContent, referenceIndex);
+			}
 		}
 		
-		// If there's existing content, use LLM to intelligently merge it
+		// If there's existing content, keep its custom sections
 		if (existingContent) {
-			console.log(`Merging existing content with new content for ${folderNode.path}`);
-			agentsContent = await mergeWithExistingContent(existingContent, agentsContent, model);
+			console.log(`Merging existing content with new content for ${folderNode.path} (${mergeStrategy})`);
+			agentsContent = mergeStrategy === 'llm'
+				? await mergeWithExistingContent(existingContent, agentsContent, chain, token, usage, standardSectionTitles)
+				: mergeMarkdownSections(existingContent, agentsContent, standardSectionTitles);
 		}
-		
-		// Write AGENTS.md file
-		await fs.promises.writeFile(agentsFilePath, agentsContent, 'utf-8');
-		
-		console.log(`Generated AGENTS.md for ${folderNode.path}`);
-		return true;
+
+		if (token.isCancellationRequested) {
+			throw new CancellationError();
+		}
+	
+		// Wrap the content for each output file's format; other existing output files, like a hand-written CLAUDE.md,
+		// are merged section by section so their custom sections survive too
+		const stagedOutputs: StagedOutput[] = outputFiles.map((outputFile, index) => {
+			const existingOutput = index > 0 ? existingOutputs.get(outputFile.filePath) : undefined;
+			const content = existingOutput ? mergeMarkdownSections(existingOutput, agentsContent, standardSectionTitles) : agentsContent;
+			return {
+				filePath: outputFile.filePath,
+				content: formatOutputContent(content, outputFile, folderNode.path, folderNode.rootPath)
+			};
+		});
+
+		if (reviewBeforeWriting) {
+			// Accepting the content later must not overwrite edits made to the files during review
+			for (const output of stagedOutputs) {
+				output.originalContent = await readOutputFile(output.filePath);
+			}
+		}
+
+		if (!reviewBeforeWriting) {
+			for (const output of stagedOutputs) {
+				await fs.promises.mkdir(path.dirname(output.filePath), { recursive: true });
+				await fs.promises.writeFile(output.filePath, output.content, 'utf-8');
+			}
+		}
+	
+		console.log(`${reviewBeforeWriting ? 'Staged' : 'Generated'} ${outputFiles.map(file => file.relativePath).join(', ')} for ${folderNode.path}`);
+		recordModelUsage(folderNode.path, relativeFolderPath, chain, model.id);
+		const fallbackFrom = [...chain.unavailable, ...chain.failed].filter(modelId => modelId !== model.id);
+		return {
+			success: true,
+			metadata: {
+				modelId: model.id,
+				fallbackFrom: fallbackFrom.length > 0 ? fallbackFrom : undefined,
+				promptTemplateHash: getPromptTemplateHash(folderNode.rootPath),
+				generatedAt: new Date().toISOString(),
+				inputTokens: usage.inputTokens,
+				outputTokens: usage.outputTokens,
+				unknownReferences: unknownReferences.length > 0 ? unknownReferences : undefined
+			},
+			fingerprint,
+			outputFiles: outputFiles.map(file => file.filePath),
+			stagedOutputs: reviewBeforeWriting ? stagedOutputs : undefined
+		};
 		
 	} catch (error) {
-		if (error instanceof vscode.LanguageModelError) {
+		if (token.isCancellationRequested || error instanceof CancellationError) {
+			console.log(`Generation cancelled for ${folderNode.path}`);
+			return { success: false, cancelled: true };
+		}
+
+		const generationError: GenerationError = {
+			message: error instanceof Error ? error.message : String(error),
+			modelId: selectedModelId
+		};
+		if (chain) {
+			recordModelUsage(folderNode.path, relativeFolderPath, chain, undefined);
+		}
+
+		if (error instanceof ModelRequestError) {
+			console.error(`Every model failed in ${folderNode.path}:`, error.message);
+			generationError.code = error.classified.code;
+			generationError.kind = error.classified.kind;
+			generationError.modelId = error.modelId ?? selectedModelId;
+		} else if (error instanceof ModelError) {
 			console.error(`Language Model Error in ${folderNode.path}:`, error.message, error.code);
+			generationError.code = error.code;
 			
 			if (error.cause instanceof Error && error.cause.message.includes('off_topic')) {
 				console.log('Request was considered off-topic');
@@ -139,10 +333,32 @@ export async function generateAgentsMdForFolder(
 			console.error(`Error generating AGENTS.md for ${folderNode.path}:`, error);
 		}
 		
-		// Create a basic AGENTS.md if Copilot fails
-		const fallbackContent = `# ${folderNode.name}\n\n*This folder requires documentation. AGENTS.md generation encountered an error.*\n\nPlease manually document this folder's purpose and contents.`;
-		const agentsFilePath = path.join(folderNode.path, 'AGENTS.md');
-		await fs.promises.writeFile(agentsFilePath, fallbackContent, 'utf-8');
-		return false;
+		// Only fall back to a placeholder when it cannot overwrite anything and the user opted in;
+		// review mode never writes without approval
+		if (!hadExistingFile && writePlaceholderOnFailure && !reviewBeforeWriting) {
+			const fallbackContent = `# ${folderNode.name}\n\n*This folder requires documentation. AGENTS.md generation encountered an error.*\n\nPlease manually document this folder's purpose and contents.`;
+			try {
+				await fs.promises.writeFile(agentsFilePath, fallbackContent, { encoding: 'utf-8', flag: 'wx' });
+			} catch (writeError) {
+				console.error(`Error writing placeholder ${agentsFileName} for ${folderNode.path}:`, writeError);
+			}
+		}
+		return { success: false, error: generationError };
+	}
+}
+
+/**
+ * Count tokens for usage reporting; counting failures must not fail the generation
+ */
+async function countTokens(
+	model: ChatModel,
+	text: string,
+	token: CancellationToken
+): Promise<number> {
+	try {
+		return await model.countTokens(text, token);
+	} catch (error) {
+		console.error('Error counting tokens:', error);
+		return 0;
 	}
 }
@@ -1,21 +1,106 @@
 // The module 'vscode' contains the VS Code extensibility API
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
 import { FolderNode } from './folderScanner';
 import { PortalViewProvider } from './portalViewProvider';
-import { GenerationStatus } from './statusTypes';
-import { updateIgnoreConfig, getIgnoreConfig } from './ignoreConfig';
-import { updatePromptConfig, getPromptConfig, PromptConfig } from './promptConfig';
-import { getAvailableModels, getDefaultModelId } from './modelSelector';
-import { generateAgentsMdForFolder } from './documentationGenerator';
+import { FolderStatusEntry, GenerationStatus, WorkspaceRoot } from './statusTypes';
+import {
+	updateIgnoreConfig,
+	getIgnoreConfig,
+	clearRootIgnoreConfig,
+	getRootIgnoreConfigs,
+	getFileIgnoreConfigs,
+	IgnoreConfig
+} from './ignoreConfig';
+import {
+	updatePromptConfig,
+	getPromptConfig,
+	clearRootPromptConfig,
+	getRootPromptConfigs,
+	getFilePromptConfigs,
+	PromptConfig
+} from './promptConfig';
+import { updateGenerationConfig, getGenerationConfig, GenerationConfig } from './generationConfig';
+import { getAvailableModels, getDefaultModelId, registerModelProvider } from './modelSelector';
+import { VSCodeModelProvider } from './vscodeModelProvider';
+import { FakeModelProvider } from './fakeModelProvider';
+import { formatModelUsageReport, getModelUsageReport, resetModelUsageReport } from './modelRequest';
+import {
+	getModelEndpointConfig,
+	ModelEndpointConfig,
+	OpenAICompatibleModelProvider,
+	updateModelEndpointConfig,
+	validateModelEndpointConfig
+} from './openAICompatibleProvider';
+import { generateAgentsMdForFolder, GenerationResult } from './documentationGenerator';
 import { updatePortalStatus, getFolderStatusDetails } from './statusManager';
-import { refreshWorkspaceFolders } from './workspaceManager';
+import { applyFileChanges, refreshWorkspaceFolders, RefreshOptions } from './workspaceManager';
+import { WorkspaceWatcher } from './workspaceWatcher';
+import { buildImportGraphs, generateFolders, recordFolderGeneration } from './generationRunner';
+import { CheckReport, checkFolders, formatJUnitReport } from './docCheck';
+import { installPreCommitHook } from './preCommitHook';
+import { getPersistedStatusEntry, updateManifestEntry } from './generationManifest';
+import { openStagedDiff, ReviewDocumentProvider, REVIEW_URI_SCHEME } from './reviewDocumentProvider';
+import {
+	applyStagedGeneration,
+	discardStagedGeneration,
+	listStagedGenerations,
+	StagedGeneration,
+	StagedOutputsEditedError,
+	stageGeneration
+} from './stagedGenerations';
+import {
+	updateOutputTargets,
+	getOutputTargets,
+	getFileOutputTargets,
+	validateOutputTargets,
+	OutputTarget
+} from './outputTargets';
+import {
+	loadWorkspaceConfigFiles,
+	writeWorkspaceConfigFile,
+	WorkspaceConfigFileState,
+	WORKSPACE_CONFIG_FILE_NAMES
+} from './workspaceConfigFile';
+
+import {
+	formatRedactionReport,
+	getFileRedactionConfigs,
+	getRedactionConfig,
+	getRedactionReport,
+	RedactionConfig,
+	resetRedactionReport,
+	updateRedactionConfig,
+	validateRedactionPatterns
+} from './secretRedaction';
+import {
+	ClassificationRule,
+	getClassificationRules,
+	getFileClassificationRules,
+	updateClassificationRules,
+	validateClassificationRules
+} from './fileClassification';
+import {
+	FolderScopeConfig,
+	getFileFolderScopes,
+	getFolderScope,
+	updateFolderScope,
+	validateFolderScope
+} from './folderScope';
 
 let portalViewProvider: PortalViewProvider | undefined;
-let folderStatusMap: Map<string, GenerationStatus> = new Map();
+let folderStatusMap: Map<string, FolderStatusEntry> = new Map();
 let discoveredFolders: FolderNode[] = [];
-let workspaceRootPath = '';
+let workspaceRoots: WorkspaceRoot[] = [];
+let workspaceConfigFiles: WorkspaceConfigFileState[] = [];
 let selectedModelId: string | undefined;
+// Cancellation sources of generation runs in flight, cancelled by the portal's Cancel button
+const activeGenerationRuns = new Set<vscode.CancellationTokenSource>();
+
+// Secret storage key of the OpenAI-compatible endpoint's API key, which is kept out of global state
+const MODEL_ENDPOINT_API_KEY_SECRET = 'modelEndpointApiKey';
 
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
@@ -23,6 +108,13 @@ export function activate(context: vscode.ExtensionContext) {
 
 	console.log('AGENTS.md Generator extension is now active!');
 
+	// Models are listed by provider in this order; the fake provider only lists models when configured
+	context.subscriptions.push(
+		registerModelProvider(new VSCodeModelProvider()),
+		registerModelProvider(new OpenAICompatibleModelProvider()),
+		registerModelProvider(new FakeModelProvider())
+	);
+
 	// Load selected model from global state
 	selectedModelId = context.globalState.get<string>('selectedModelId');
 
@@ -33,32 +125,349 @@ export function activate(context: vscode.ExtensionContext) {
 		updateIgnoreConfig(savedIgnoreNames, savedIgnorePatterns);
 	}
 
+	// Load per workspace folder ignore overrides from global state
+	const savedRootIgnoreConfigs = context.globalState.get<Record<string, IgnoreConfig>>('rootIgnoreConfigs') ?? {};
+	for (const [rootPath, config] of Object.entries(savedRootIgnoreConfigs)) {
+		updateIgnoreConfig(config.names, config.patterns, rootPath);
+	}
+
 	// Load prompt configuration from global state
 	const savedPromptConfig = context.globalState.get<PromptConfig>('promptConfig');
 	if (savedPromptConfig) {
 		updatePromptConfig(savedPromptConfig);
 	}
 
+	// Load per workspace folder prompt overrides from global state
+	const savedRootPromptConfigs = context.globalState.get<Record<string, PromptConfig>>('rootPromptConfigs') ?? {};
+	for (const [rootPath, config] of Object.entries(savedRootPromptConfigs)) {
+		updatePromptConfig(config, rootPath);
+	}
+
+	// Load output targets from global state
+	const savedOutputTargets = context.globalState.get<OutputTarget[]>('outputTargets');
+	if (savedOutputTargets && validateOutputTargets(savedOutputTargets).length === 0) {
+		updateOutputTargets(savedOutputTargets);
+	}
+
+	// Load redaction settings from global state
+	const savedRedactionConfig = context.globalState.get<RedactionConfig>('redactionConfig');
+	if (savedRedactionConfig) {
+		updateRedactionConfig(savedRedactionConfig);
+	}
+
+	// Load file classification rules from global state
+	const savedClassificationRules = context.globalState.get<ClassificationRule[]>('classificationRules');
+	if (savedClassificationRules && validateClassificationRules(savedClassificationRules).length === 0) {
+		updateClassificationRules(savedClassificationRules);
+	}
+
+	// Load the folder scope from global state
+	const savedFolderScope = context.globalState.get<FolderScopeConfig>('folderScope');
+	if (savedFolderScope && validateFolderScope(savedFolderScope).length === 0) {
+		updateFolderScope(savedFolderScope);
+	}
+
+	// Load generation configuration from global state
+	const savedGenerationConfig = context.globalState.get<GenerationConfig>('generationConfig');
+	if (savedGenerationConfig) {
+		updateGenerationConfig(savedGenerationConfig);
+	}
+
+	// Load the OpenAI-compatible endpoint from global state, and its API key from secret storage
+	const savedModelEndpoint = context.globalState.get<Omit<ModelEndpointConfig, 'apiKey'>>('modelEndpoint');
+	if (savedModelEndpoint) {
+		updateModelEndpointConfig(savedModelEndpoint);
+	}
+	void Promise.resolve(context.secrets.get(MODEL_ENDPOINT_API_KEY_SECRET)).then((apiKey) => {
+		if (apiKey) {
+			updateModelEndpointConfig({ ...getModelEndpointConfig(), apiKey });
+		}
+	}).catch((error) => {
+		console.error('Failed to load the model endpoint API key:', error);
+	});
+
 	portalViewProvider = new PortalViewProvider();
 	context.subscriptions.push(portalViewProvider);
 
+	// Serves staged content to the diff editor in review mode
+	const reviewDocumentProvider = new ReviewDocumentProvider();
+	context.subscriptions.push(
+		reviewDocumentProvider,
+		vscode.workspace.registerTextDocumentContentProvider(REVIEW_URI_SCHEME, reviewDocumentProvider)
+	);
+
 	// Helper function to refresh workspace state
-	const doRefreshWorkspaceFolders = async (options = {}) => {
+	const doRefreshWorkspaceFolders = async (options: RefreshOptions = {}) => {
 		const result = await refreshWorkspaceFolders(
 			portalViewProvider,
 			discoveredFolders,
 			folderStatusMap,
-			workspaceRootPath,
+			(vscode.workspace.workspaceFolders ?? []).map(folder => ({ name: folder.name, path: folder.uri.fsPath })),
 			options
 		);
 		discoveredFolders = result.discoveredFolders;
 		folderStatusMap = result.folderStatusMap;
-		workspaceRootPath = result.workspaceRootPath;
+		workspaceRoots = result.workspaceRoots;
 	};
 
 	// Helper function to update portal
 	const doUpdatePortalStatus = async () => {
-		await updatePortalStatus(portalViewProvider, discoveredFolders, folderStatusMap, workspaceRootPath);
+		await updatePortalStatus(portalViewProvider, discoveredFolders, folderStatusMap, workspaceRoots);
+	};
+
+	// Helper function to get ignore and prompt settings from every source, for the portal
+	const getPortalSettings = () => ({
+		ignoreConfig: { global: getIgnoreConfig(), roots: getRootIgnoreConfigs(), files: getFileIgnoreConfigs() },
+		promptConfig: { global: getPromptConfig(), roots: getRootPromptConfigs(), files: getFilePromptConfigs() },
+		outputTargets: { global: getOutputTargets(), files: getFileOutputTargets() },
+		redactionConfig: { global: getRedactionConfig(), files: getFileRedactionConfigs() },
+		fileTypes: { global: getClassificationRules(), files: getFileClassificationRules() },
+		folderScope: { global: getFolderScope(), files: getFileFolderScopes() },
+		configFiles: workspaceConfigFiles.map(({ rootPath, filePath, errors }) => ({ rootPath, filePath, errors }))
+	});
+
+	// Helper function to (re)load the workspace configuration files, which take precedence over global state
+	const doLoadWorkspaceConfigFiles = async () => {
+		const rootPaths = (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath);
+		workspaceConfigFiles = await loadWorkspaceConfigFiles(rootPaths);
+
+		for (const file of workspaceConfigFiles) {
+			if (file.errors.length > 0) {
+				vscode.window.showWarningMessage(`${file.filePath} is invalid and was not applied: ${file.errors.join('; ')}`);
+			}
+		}
+
+		const settings = getPortalSettings();
+		portalViewProvider?.updateSettings(settings.ignoreConfig, settings.promptConfig, settings.outputTargets, settings.redactionConfig, settings.fileTypes, settings.folderScope, settings.configFiles);
+	};
+
+	// Helper function to show the portal with current models and settings
+	const doShowPortal = async () => {
+		const availableModels = await getAvailableModels();
+
+		// Set default model if none selected
+		if (!selectedModelId && availableModels.length > 0) {
+			const defaultModelId = getDefaultModelId(availableModels);
+			if (defaultModelId) {
+				selectedModelId = defaultModelId;
+				await context.globalState.update('selectedModelId', defaultModelId);
+				console.log('Auto-selected default model:', defaultModelId);
+			}
+		}
+
+		const settings = getPortalSettings();
+		portalViewProvider?.updateSettings(settings.ignoreConfig, settings.promptConfig, settings.outputTargets, settings.redactionConfig, settings.fileTypes, settings.folderScope, settings.configFiles);
+		// The API key itself never goes to the webview
+		const { apiKey, ...modelEndpoint } = getModelEndpointConfig();
+		portalViewProvider?.updateModelEndpoint({ ...modelEndpoint, hasApiKey: Boolean(apiKey) });
+		portalViewProvider?.showPortal(
+			availableModels,
+			selectedModelId,
+			settings.ignoreConfig,
+			settings.promptConfig,
+			getGenerationConfig()
+		);
+	};
+
+	// Helper function to resolve the folders a generation command targets (all workspace folders when no root is given)
+	const getTargetFolders = (rootPath?: string): FolderNode[] =>
+		rootPath ? discoveredFolders.filter(folder => folder.rootPath === rootPath) : discoveredFolders;
+
+	// Helper function to resolve the imports of every workspace folder the given folders belong to
+	const doBuildImportGraphs = async (folders: FolderNode[]) => {
+		await buildImportGraphs(folders, discoveredFolders);
+	};
+
+	// Helper function to drop a folder's staged generation, refreshing any diff editor showing it
+	const doDiscardStagedGeneration = (folderPath: string) => {
+		const generation = discardStagedGeneration(folderPath);
+		generation?.outputs.forEach(output => reviewDocumentProvider.notifyChanged(output.filePath));
+	};
+
+	// Helper function to record the outcome of a folder generation in memory and in the manifest
+	const recordGenerationResult = async (folderNode: FolderNode, result: GenerationResult) => {
+		const folderPath = folderNode.path;
+		const previous = folderStatusMap.get(folderPath);
+
+		if (result.cancelled) {
+			// Interrupted folders were left untouched, so they simply haven't been generated yet
+			folderStatusMap.set(folderPath, { ...previous, status: GenerationStatus.NotStarted });
+			return;
+		}
+
+		// Any earlier proposal for the folder is superseded by this attempt
+		doDiscardStagedGeneration(folderPath);
+
+		// Staged content waits for review; the manifest is only updated once it is accepted
+		if (result.stagedOutputs && result.metadata && result.fingerprint) {
+			stageGeneration({
+				folderPath,
+				rootPath: folderNode.rootPath,
+				outputs: result.stagedOutputs,
+				metadata: result.metadata,
+				fingerprint: result.fingerprint
+			});
+			result.stagedOutputs.forEach(output => reviewDocumentProvider.notifyChanged(output.filePath));
+			folderStatusMap.set(folderPath, {
+				status: GenerationStatus.PendingReview,
+				...result.metadata,
+				lastAttemptAt: new Date().toISOString()
+			});
+			return;
+		}
+
+		folderStatusMap.set(folderPath, await recordFolderGeneration(folderPath, previous, result));
+	};
+
+	// Helper function to write a folder's staged generation and record it as generated.
+	// Output files edited during review are only overwritten once the user confirms it.
+	const doAcceptStagedGeneration = async (folderPath: string): Promise<boolean> => {
+		let generation: StagedGeneration | undefined;
+		try {
+			generation = await applyStagedGeneration(folderPath);
+		} catch (error) {
+			if (!(error instanceof StagedOutputsEditedError)) {
+				throw error;
+			}
+			const choice = await vscode.window.showWarningMessage(
+				`${error.message}. Overwrite the edits with the staged content?`,
+				{ modal: true },
+				'Overwrite'
+			);
+			if (choice !== 'Overwrite') {
+				return false;
+			}
+			generation = await applyStagedGeneration(folderPath, true);
+		}
+		if (!generation) {
+			return false;
+		}
+		generation.outputs.forEach(output => reviewDocumentProvider.notifyChanged(output.filePath));
+
+		const entry: FolderStatusEntry = {
+			...folderStatusMap.get(folderPath),
+			...generation.metadata,
+			status: GenerationStatus.Completed
+		};
+		folderStatusMap.set(folderPath, entry);
+		await updateManifestEntry(folderPath, entry, generation.fingerprint, generation.outputs.map(output => output.filePath));
+		return true;
+	};
+
+	// Helper function to tell the user what was kept from the model during the run that just finished
+	const doShowRedactionReport = async () => {
+		const report = getRedactionReport();
+		if (report.length === 0) {
+			return;
+		}
+		const secrets = report.reduce((sum, entry) => sum + Object.values(entry.redactions).reduce((a, b) => a + b, 0), 0);
+		const withheld = report.filter(entry => entry.withheld).length;
+		const choice = await vscode.window.showInformationMessage(
+			`Redacted ${secrets} secret(s) and withheld ${withheld} file(s) before sending folder contents to the model.`,
+			'Show Report'
+		);
+		if (choice === 'Show Report') {
+			const doc = await vscode.workspace.openTextDocument({ language: 'markdown', content: formatRedactionReport(report) });
+			await vscode.window.showTextDocument(doc, { preview: false });
+		}
+	};
+
+	// Helper function to tell the user which models produced the run's files, when the selected model didn't answer every request
+	const doShowModelUsageReport = async () => {
+		const report = getModelUsageReport();
+		const fallbacks = report.filter(entry => entry.fallbackFrom.length > 0).length;
+		const retries = report.reduce((sum, entry) => sum + entry.retries, 0);
+		if (fallbacks === 0 && retries === 0) {
+			return;
+		}
+		const choice = await vscode.window.showInformationMessage(
+			`${fallbacks} folder(s) were generated with a fallback model and ${retries} model request(s) were retried.`,
+			'Show Summary'
+		);
+		if (choice === 'Show Summary') {
+			const doc = await vscode.workspace.openTextDocument({ language: 'markdown', content: formatModelUsageReport(report) });
+			await vscode.window.showTextDocument(doc, { preview: false });
+		}
+	};
+
+	// Helper function to save a check report as JUnit XML or JSON, by the file extension the user picks
+	const doSaveCheckReport = async (report: CheckReport) => {
+		const uri = await vscode.window.showSaveDialog({
+			defaultUri: report.roots[0] ? vscode.Uri.file(path.join(report.roots[0].path, 'agentsmd-check.xml')) : undefined,
+			filters: { 'JUnit XML': ['xml'], 'JSON': ['json'] }
+		});
+		if (!uri) {
+			return;
+		}
+		const content = uri.fsPath.endsWith('.json') ? JSON.stringify(report, null, 2) + '\n' : formatJUnitReport(report);
+		await fs.promises.writeFile(uri.fsPath, content, 'utf-8');
+		vscode.window.showInformationMessage(`Saved the check report to ${uri.fsPath}`);
+	};
+
+	// Helper function to run generation with a token cancelled by either the progress notification or the portal
+	const runCancellable = async <T>(
+		progressToken: vscode.CancellationToken,
+		run: (token: vscode.CancellationToken) => Promise<T>
+	): Promise<T> => {
+		const source = new vscode.CancellationTokenSource();
+		const progressSubscription = progressToken.onCancellationRequested(() => source.cancel());
+		if (progressToken.isCancellationRequested) {
+			source.cancel();
+		}
+		// Runs started while another one is in flight share its redaction and model reports
+		if (activeGenerationRuns.size === 0) {
+			resetRedactionReport();
+			resetModelUsageReport();
+		}
+		activeGenerationRuns.add(source);
+		portalViewProvider?.setGenerationRunning(true);
+
+		try {
+			return await run(source.token);
+		} finally {
+			activeGenerationRuns.delete(source);
+			progressSubscription.dispose();
+			source.dispose();
+			portalViewProvider?.setGenerationRunning(activeGenerationRuns.size > 0);
+			if (activeGenerationRuns.size === 0) {
+				void doShowRedactionReport();
+				void doShowModelUsageReport();
+			}
+		}
+	};
+
+	// Helper function to generate folders leaf to root, running independent folders concurrently
+	const doGenerateFolders = async (
+		folders: FolderNode[],
+		progress: vscode.Progress<{ message?: string; increment?: number }>,
+		progressToken: vscode.CancellationToken
+	): Promise<number> => {
+		const totalFolders = folders.length;
+		let processed = 0;
+
+		// Imports are resolved once per run; every folder's prompt and the portal use the same graph
+		progress.report({ message: 'Resolving imports...' });
+		await doBuildImportGraphs(folders);
+
+		await runCancellable(progressToken, (token) => generateFolders(folders, selectedModelId, token, async (folderNode) => {
+			folderStatusMap.set(folderNode.path, { ...folderStatusMap.get(folderNode.path), status: GenerationStatus.InProgress, error: undefined });
+			await doUpdatePortalStatus();
+		}, async (folderNode, result) => {
+			await recordGenerationResult(folderNode, result);
+			await doUpdatePortalStatus();
+
+			if (result.cancelled) {
+				return;
+			}
+
+			processed++;
+			progress.report({
+				message: `Processed folder ${processed}/${totalFolders}: ${folderNode.name}`,
+				increment: (100 / totalFolders)
+			});
+		}));
+
+		return processed;
 	};
 
 	context.subscriptions.push(
@@ -74,22 +483,9 @@ export function activate(context: vscode.ExtensionContext) {
 			void (async () => {
 				try {
 					await doRefreshWorkspaceFolders();
-					const availableModels = await getAvailableModels();
-					const ignoreConfig = getIgnoreConfig();
-					const promptConfig = getPromptConfig();
-					
-					// Set default model if none selected
-					if (!selectedModelId && availableModels.length > 0) {
-						const defaultModelId = getDefaultModelId(availableModels);
-						if (defaultModelId) {
-							selectedModelId = defaultModelId;
-							await context.globalState.update('selectedModelId', defaultModelId);
-							console.log('Auto-selected default model:', defaultModelId);
-						}
-					}
 					
 					// Update portal with loaded data
-					portalViewProvider.showPortal(availableModels, selectedModelId, ignoreConfig, promptConfig);
+					await doShowPortal();
 				} catch (error) {
 					console.error('Error loading portal data:', error);
 				}
@@ -97,6 +493,18 @@ export function activate(context: vscode.ExtensionContext) {
 		})
 	);
 
+	context.subscriptions.push(
+		vscode.commands.registerCommand('AgentsMDGenerator.cancelGeneration', () => {
+			if (activeGenerationRuns.size === 0) {
+				return;
+			}
+			for (const source of activeGenerationRuns) {
+				source.cancel();
+			}
+			vscode.window.showInformationMessage('Cancelling AGENTS.md generation...');
+		})
+	);
+
 	context.subscriptions.push(
 		vscode.commands.registerCommand('AgentsMDGenerator.selectModel', async (modelId: string) => {
 			selectedModelId = modelId;
@@ -106,50 +514,278 @@ export function activate(context: vscode.ExtensionContext) {
 	);
 
 	context.subscriptions.push(
-		vscode.commands.registerCommand('AgentsMDGenerator.updateIgnoreConfig', async (names: string[], patterns: string[]) => {
-			updateIgnoreConfig(names, patterns);
-			await context.globalState.update('ignoreNames', names);
-			await context.globalState.update('ignorePatterns', patterns);
+		vscode.commands.registerCommand('AgentsMDGenerator.updateModelEndpoint', async (config: Omit<ModelEndpointConfig, 'apiKey'> & { apiKey?: string }) => {
+			const errors = validateModelEndpointConfig(config);
+			if (errors.length > 0) {
+				vscode.window.showErrorMessage(`Invalid model endpoint: ${errors.join('; ')}`);
+				return;
+			}
+			// An empty key field keeps the saved key; without an endpoint there is nothing to authenticate
+			const apiKey = config.baseUrl.trim() ? (config.apiKey || getModelEndpointConfig().apiKey) : '';
+			updateModelEndpointConfig({ ...config, apiKey });
+			const { apiKey: savedKey, ...modelEndpoint } = getModelEndpointConfig();
+			await context.globalState.update('modelEndpoint', modelEndpoint);
+			if (savedKey) {
+				await context.secrets.store(MODEL_ENDPOINT_API_KEY_SECRET, savedKey);
+			} else {
+				await context.secrets.delete(MODEL_ENDPOINT_API_KEY_SECRET);
+			}
+			// The endpoint's models join the model dropdown
+			await doShowPortal();
+			vscode.window.showInformationMessage('Model endpoint updated');
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('AgentsMDGenerator.updateIgnoreConfig', async (names: string[], patterns: string[], rootPath?: string) => {
+			updateIgnoreConfig(names, patterns, rootPath);
+			if (rootPath) {
+				await context.globalState.update('rootIgnoreConfigs', getRootIgnoreConfigs());
+			} else {
+				await context.globalState.update('ignoreNames', names);
+				await context.globalState.update('ignorePatterns', patterns);
+			}
 			await doRefreshWorkspaceFolders();
 			vscode.window.showInformationMessage('Ignore configuration updated');
 		})
 	);
 
 	context.subscriptions.push(
-		vscode.commands.registerCommand('AgentsMDGenerator.updatePromptConfig', async (config: PromptConfig) => {
-			updatePromptConfig(config);
-			await context.globalState.update('promptConfig', config);
+		vscode.commands.registerCommand('AgentsMDGenerator.updatePromptConfig', async (config: PromptConfig, rootPath?: string) => {
+			updatePromptConfig(config, rootPath);
+			if (rootPath) {
+				await context.globalState.update('rootPromptConfigs', getRootPromptConfigs());
+			} else {
+				await context.globalState.update('promptConfig', config);
+			}
 			vscode.window.showInformationMessage('Prompt configuration updated');
 		})
 	);
 
-	void doRefreshWorkspaceFolders().catch((error) => {
-		console.error('Failed to refresh workspace folders during activation:', error);
-	});
+	context.subscriptions.push(
+		vscode.commands.registerCommand('AgentsMDGenerator.clearRootSettings', async (rootPath: string) => {
+			clearRootIgnoreConfig(rootPath);
+			clearRootPromptConfig(rootPath);
+			await context.globalState.update('rootIgnoreConfigs', getRootIgnoreConfigs());
+			await context.globalState.update('rootPromptConfigs', getRootPromptConfigs());
+			await doRefreshWorkspaceFolders();
+			vscode.window.showInformationMessage('Workspace folder now uses the global settings');
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('AgentsMDGenerator.updateOutputTargets', async (targets: OutputTarget[]) => {
+			const errors = validateOutputTargets(targets);
+			if (errors.length > 0) {
+				vscode.window.showErrorMessage(`Invalid output files: ${errors.join('; ')}`);
+			} else {
+				updateOutputTargets(targets);
+				await context.globalState.update('outputTargets', targets);
+				await doRefreshWorkspaceFolders();
+				vscode.window.showInformationMessage('Output files updated');
+			}
+
+			const settings = getPortalSettings();
+			portalViewProvider?.updateSettings(settings.ignoreConfig, settings.promptConfig, settings.outputTargets, settings.redactionConfig, settings.fileTypes, settings.folderScope, settings.configFiles);
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('AgentsMDGenerator.updateRedactionConfig', async (config: RedactionConfig) => {
+			const errors = validateRedactionPatterns(config.patterns);
+			if (errors.length > 0) {
+				vscode.window.showErrorMessage(`Invalid redaction patterns: ${errors.join('; ')}`);
+			} else {
+				updateRedactionConfig(config);
+				await context.globalState.update('redactionConfig', getRedactionConfig());
+				vscode.window.showInformationMessage('Redaction settings updated');
+			}
+
+			const settings = getPortalSettings();
+			portalViewProvider?.updateSettings(settings.ignoreConfig, settings.promptConfig, settings.outputTargets, settings.redactionConfig, settings.fileTypes, settings.folderScope, settings.configFiles);
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('AgentsMDGenerator.updateClassificationRules', async (rules: ClassificationRule[]) => {
+			const errors = validateClassificationRules(rules);
+			if (errors.length > 0) {
+				vscode.window.showErrorMessage(`Invalid file types: ${errors.join('; ')}`);
+			} else {
+				updateClassificationRules(rules);
+				await context.globalState.update('classificationRules', rules);
+				await doRefreshWorkspaceFolders();
+				vscode.window.showInformationMessage('File types updated');
+			}
+
+			const settings = getPortalSettings();
+			portalViewProvider?.updateSettings(settings.ignoreConfig, settings.promptConfig, settings.outputTargets, settings.redactionConfig, settings.fileTypes, settings.folderScope, settings.configFiles);
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('AgentsMDGenerator.updateFolderScope', async (config: FolderScopeConfig) => {
+			const errors = validateFolderScope(config);
+			if (errors.length > 0) {
+				vscode.window.showErrorMessage(`Invalid folder scope: ${errors.join('; ')}`);
+			} else {
+				updateFolderScope(config);
+				await context.globalState.update('folderScope', getFolderScope());
+				await doRefreshWorkspaceFolders();
+				vscode.window.showInformationMessage('Folder scope updated');
+			}
+
+			const settings = getPortalSettings();
+			portalViewProvider?.updateSettings(settings.ignoreConfig, settings.promptConfig, settings.outputTargets, settings.redactionConfig, settings.fileTypes, settings.folderScope, settings.configFiles);
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('AgentsMDGenerator.updateGenerationConfig', async (config: GenerationConfig) => {
+			const previous = getGenerationConfig();
+			updateGenerationConfig(config);
+			const updated = getGenerationConfig();
+			await context.globalState.update('generationConfig', updated);
+			// The folder rules decide which folders are documented
+			if (updated.minFiles !== previous.minFiles
+				|| updated.minCodeFiles !== previous.minCodeFiles
+				|| updated.collapseChains !== previous.collapseChains) {
+				await doRefreshWorkspaceFolders();
+			}
+			vscode.window.showInformationMessage('Generation configuration updated');
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('AgentsMDGenerator.reviewStagedChanges', async (folderPath: string) => {
+			try {
+				if (!await openStagedDiff(folderPath)) {
+					vscode.window.showWarningMessage('No staged changes to review for this folder.');
+				}
+			} catch (error) {
+				vscode.window.showErrorMessage(`Failed to open the diff: ${error}`);
+			}
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('AgentsMDGenerator.acceptStagedChanges', async (folderPath: string) => {
+			try {
+				if (await doAcceptStagedGeneration(folderPath)) {
+					await doUpdatePortalStatus();
+				}
+			} catch (error) {
+				vscode.window.showErrorMessage(`Failed to write the staged changes: ${error}`);
+			}
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('AgentsMDGenerator.rejectStagedChanges', async (folderPath: string) => {
+			doDiscardStagedGeneration(folderPath);
+			// Nothing was written, so the folder is back to its last generated state
+			folderStatusMap.set(folderPath, getPersistedStatusEntry(folderPath) ?? { status: GenerationStatus.NotStarted });
+			await doUpdatePortalStatus();
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('AgentsMDGenerator.acceptAllStagedChanges', async () => {
+			let accepted = 0;
+			try {
+				for (const generation of listStagedGenerations()) {
+					if (await doAcceptStagedGeneration(generation.folderPath)) {
+						accepted++;
+					}
+				}
+				vscode.window.showInformationMessage(`Accepted staged changes for ${accepted} folder(s).`);
+			} catch (error) {
+				vscode.window.showErrorMessage(`Failed to write the staged changes: ${error}`);
+			}
+			await doUpdatePortalStatus();
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('AgentsMDGenerator.openWorkspaceConfigFile', async (rootPath: string) => {
+			try {
+				let filePath = workspaceConfigFiles.find(file => file.rootPath === rootPath)?.filePath;
+				if (!filePath) {
+					// Start from the settings currently in effect so generation output doesn't change
+					filePath = await writeWorkspaceConfigFile(rootPath, {
+						ignore: getIgnoreConfig(rootPath),
+						prompt: getPromptConfig(rootPath),
+						outputs: getOutputTargets(rootPath),
+						redaction: getRedactionConfig(rootPath),
+						fileTypes: getClassificationRules(rootPath),
+						scope: getFolderScope(rootPath)
+					});
+					await doLoadWorkspaceConfigFiles();
+				}
+				const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+				await vscode.window.showTextDocument(doc, { preview: false });
+			} catch (error) {
+				vscode.window.showErrorMessage(`Failed to open workspace configuration file: ${error}`);
+			}
+		})
+	);
+
+	void doLoadWorkspaceConfigFiles()
+		.then(() => doRefreshWorkspaceFolders())
+		.catch((error) => {
+			console.error('Failed to refresh workspace folders during activation:', error);
+		});
 
 	context.subscriptions.push(
 		vscode.workspace.onDidChangeWorkspaceFolders(() => {
-			void doRefreshWorkspaceFolders().catch((error) => {
-				console.error('Failed to refresh workspace folders after change:', error);
-			});
+			void doLoadWorkspaceConfigFiles()
+				.then(() => doRefreshWorkspaceFolders())
+				.catch((error) => {
+					console.error('Failed to refresh workspace folders after change:', error);
+				});
 		})
 	);
 
-	// Register the command to generate AGENTS.md files
-	const generateCommand = vscode.commands.registerCommand('AgentsMDGenerator.generateAgentsMd', async () => {
+	// Hot reload the workspace configuration files
+	const configFileWatcher = vscode.workspace.createFileSystemWatcher(`**/{${WORKSPACE_CONFIG_FILE_NAMES.join(',')}}`);
+	const onConfigFileChanged = () => {
+		void doLoadWorkspaceConfigFiles()
+			.then(() => doRefreshWorkspaceFolders())
+			.catch((error) => {
+				console.error('Failed to reload workspace configuration files:', error);
+			});
+	};
+	configFileWatcher.onDidChange(onConfigFileChanged);
+	configFileWatcher.onDidCreate(onConfigFileChanged);
+	configFileWatcher.onDidDelete(onConfigFileChanged);
+	context.subscriptions.push(configFileWatcher);
+
+	// Keep folders and their status live as files change, without scanning the whole workspace again
+	const workspaceWatcher = new WorkspaceWatcher(async (changes) => {
+		const result = await applyFileChanges(portalViewProvider, discoveredFolders, folderStatusMap, workspaceRoots, changes);
+		discoveredFolders = result.discoveredFolders;
+		folderStatusMap = result.folderStatusMap;
+		workspaceRoots = result.workspaceRoots;
+	});
+	context.subscriptions.push(workspaceWatcher);
+
+	// Register the command to generate AGENTS.md files, for every workspace folder or only the given one
+	const generateCommand = vscode.commands.registerCommand('AgentsMDGenerator.generateAgentsMd', async (rootPath?: string) => {
 		try {
 			// Check if workspace is open
 			if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
-				workspaceRootPath = '';
+				workspaceRoots = [];
 				vscode.window.showErrorMessage('No workspace folder is open. Please open a folder first.');
 				return;
 			}
 
-			await doRefreshWorkspaceFolders({ resetStatuses: true });
-			const availableModels = await getAvailableModels();
-			const ignoreConfig = getIgnoreConfig();
-			const promptConfig = getPromptConfig();
-			portalViewProvider?.showPortal(availableModels, selectedModelId, ignoreConfig, promptConfig);
+			// Regenerating every folder supersedes the changes still waiting for review
+			listStagedGenerations()
+				.filter(generation => !rootPath || generation.rootPath === rootPath)
+				.forEach(generation => doDiscardStagedGeneration(generation.folderPath));
+			await doRefreshWorkspaceFolders({ resetStatuses: true, resetRootPath: rootPath });
+			await doShowPortal();
+			const targetFolders = getTargetFolders(rootPath);
 
 			// Show progress indicator
 			await vscode.window.withProgress({
@@ -157,7 +793,7 @@ export function activate(context: vscode.ExtensionContext) {
 				title: "Generating AGENTS.md files",
 				cancellable: true
 			}, async (progress, token) => {
-				const totalFolders = discoveredFolders.length;
+				const totalFolders = targetFolders.length;
 				progress.report({ message: `Found ${totalFolders} folders to process (leaf to root)` });
 
 				if (totalFolders === 0) {
@@ -165,35 +801,17 @@ export function activate(context: vscode.ExtensionContext) {
 					return;
 				}
 
-				let processed = 0;
-
-				// Process each folder from leaf to root
-				for (const folderNode of discoveredFolders) {
-					if (token.isCancellationRequested) {
-						vscode.window.showWarningMessage('AGENTS.md generation cancelled');
-						return;
-					}
+				// Process folders from leaf to root; independent folders run in parallel
+				const processed = await doGenerateFolders(targetFolders, progress, token);
 
-					progress.report({ 
-						message: `Processing folder ${processed + 1}/${totalFolders}: ${folderNode.name}`,
-						increment: (100 / totalFolders)
-					});
-
-					folderStatusMap.set(folderNode.path, GenerationStatus.InProgress);
-					await doUpdatePortalStatus();
-					
-					const success = await generateAgentsMdForFolder(folderNode, selectedModelId);
-					
-					folderStatusMap.set(
-						folderNode.path,
-						success ? GenerationStatus.Completed : GenerationStatus.Failed
-					);
-					await doUpdatePortalStatus();
-					
-					processed++;
+				if (token.isCancellationRequested) {
+					vscode.window.showWarningMessage('AGENTS.md generation cancelled');
+					return;
 				}
 
-				vscode.window.showInformationMessage(`Successfully generated AGENTS.md for ${processed} folders!`);
+				vscode.window.showInformationMessage(getGenerationConfig().reviewBeforeWriting
+					? `Generated AGENTS.md for ${processed} folders. Review the staged changes in the portal.`
+					: `Successfully generated AGENTS.md for ${processed} folders!`);
 			});
 
 		} catch (error) {
@@ -203,23 +821,20 @@ export function activate(context: vscode.ExtensionContext) {
 
 	context.subscriptions.push(generateCommand);
 
-	const generateOutdatedCommand = vscode.commands.registerCommand('AgentsMDGenerator.generateOutdatedFolders', async () => {
+	const generateOutdatedCommand = vscode.commands.registerCommand('AgentsMDGenerator.generateOutdatedFolders', async (rootPath?: string) => {
 		try {
 			if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
-				workspaceRootPath = '';
+				workspaceRoots = [];
 				vscode.window.showErrorMessage('No workspace folder is open. Please open a folder first.');
 				return;
 			}
 
 			await doRefreshWorkspaceFolders();
-			const availableModels = await getAvailableModels();
-			const ignoreConfig = getIgnoreConfig();
-			const promptConfig = getPromptConfig();
-			portalViewProvider?.showPortal(availableModels, selectedModelId, ignoreConfig, promptConfig);
+			await doShowPortal();
 
-			const detailsList = await Promise.all(discoveredFolders.map(async (folderNode) => ({
+			const detailsList = await Promise.all(getTargetFolders(rootPath).map(async (folderNode) => ({
 				folderNode,
-				details: await getFolderStatusDetails(folderNode.path)
+				details: await getFolderStatusDetails(folderNode)
 			})));
 			const outdatedFolders = detailsList
 				.filter((entry) => !entry.details.isUpToDate)
@@ -238,34 +853,16 @@ export function activate(context: vscode.ExtensionContext) {
 				const totalFolders = outdatedFolders.length;
 				progress.report({ message: `Found ${totalFolders} folder(s) needing updates (leaf to root)` });
 
-				let processed = 0;
-
-				for (const folderNode of outdatedFolders) {
-					if (token.isCancellationRequested) {
-						vscode.window.showWarningMessage('Out-of-date folder generation cancelled');
-						return;
-					}
-
-					progress.report({
-						message: `Processing folder ${processed + 1}/${totalFolders}: ${folderNode.name}`,
-						increment: (100 / totalFolders)
-					});
-
-					folderStatusMap.set(folderNode.path, GenerationStatus.InProgress);
-					await doUpdatePortalStatus();
-
-					const success = await generateAgentsMdForFolder(folderNode, selectedModelId);
-
-					folderStatusMap.set(
-						folderNode.path,
-						success ? GenerationStatus.Completed : GenerationStatus.Failed
-					);
-					await doUpdatePortalStatus();
+				const processed = await doGenerateFolders(outdatedFolders, progress, token);
 
-					processed++;
+				if (token.isCancellationRequested) {
+					vscode.window.showWarningMessage('Out-of-date folder generation cancelled');
+					return;
 				}
 
-				vscode.window.showInformationMessage(`Finished processing ${processed} out-of-date folder(s).`);
+				vscode.window.showInformationMessage(getGenerationConfig().reviewBeforeWriting
+					? `Finished processing ${processed} out-of-date folder(s). Review the staged changes in the portal.`
+					: `Finished processing ${processed} out-of-date folder(s).`);
 			});
 		} catch (error) {
 			vscode.window.showErrorMessage(`Error generating AGENTS.md for out-of-date folders: ${error}`);
@@ -277,12 +874,14 @@ export function activate(context: vscode.ExtensionContext) {
 	const refreshStatusCommand = vscode.commands.registerCommand('AgentsMDGenerator.refreshStatusSnapshot', async () => {
 		try {
 			if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
-				workspaceRootPath = '';
+				workspaceRoots = [];
 				vscode.window.showErrorMessage('No workspace folder is open. Please open a folder first.');
 				return;
 			}
 
 			await doRefreshWorkspaceFolders();
+			await doBuildImportGraphs(discoveredFolders);
+			await doUpdatePortalStatus();
 		} catch (error) {
 			vscode.window.showErrorMessage(`Error refreshing folder status: ${error}`);
 		}
@@ -290,6 +889,64 @@ export function activate(context: vscode.ExtensionContext) {
 
 	context.subscriptions.push(refreshStatusCommand);
 
+	// Register the command to verify that every folder's AGENTS.md exists and is up to date; returns the report to callers
+	const checkCommand = vscode.commands.registerCommand('AgentsMDGenerator.checkFolders', async (rootPath?: string): Promise<CheckReport | undefined> => {
+		try {
+			if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
+				workspaceRoots = [];
+				vscode.window.showErrorMessage('No workspace folder is open. Please open a folder first.');
+				return undefined;
+			}
+
+			await doRefreshWorkspaceFolders();
+			const roots = rootPath ? workspaceRoots.filter(root => root.path === rootPath) : workspaceRoots;
+			const report = await checkFolders(getTargetFolders(rootPath), roots);
+
+			if (report.passed) {
+				vscode.window.showInformationMessage(`AGENTS.md is up to date in all ${report.total} folder(s).`);
+				return report;
+			}
+
+			// Don't keep callers waiting for the user's choice
+			void vscode.window.showWarningMessage(
+				`${report.outdated} outdated and ${report.missing} missing AGENTS.md file(s) in ${report.total} folder(s).`,
+				'Generate Out-of-date Folders',
+				'Save Report'
+			).then(async (choice) => {
+				if (choice === 'Generate Out-of-date Folders') {
+					await vscode.commands.executeCommand('AgentsMDGenerator.generateOutdatedFolders', rootPath);
+				} else if (choice === 'Save Report') {
+					await doSaveCheckReport(report);
+				}
+			}).then(undefined, (error) => {
+				vscode.window.showErrorMessage(`Failed to save the check report: ${error}`);
+			});
+			return report;
+		} catch (error) {
+			vscode.window.showErrorMessage(`Error checking AGENTS.md files: ${error}`);
+			return undefined;
+		}
+	});
+
+	context.subscriptions.push(checkCommand);
+
+	// Register the command to install a git pre-commit hook that runs the command line check on staged changes
+	const installHookCommand = vscode.commands.registerCommand('AgentsMDGenerator.installPreCommitHook', async () => {
+		try {
+			const rootPaths = (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath);
+			if (rootPaths.length === 0) {
+				vscode.window.showErrorMessage('No workspace folder is open. Please open a folder first.');
+				return;
+			}
+			const hookPaths = await installPreCommitHook(rootPaths, context.asAbsolutePath(path.join('dist', 'cli.js')));
+			vscode.window.showInformationMessage(`Installed ${hookPaths.join(', ')}. Commits now warn when they leave AGENTS.md files missing or out of date.`);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to install the pre-commit hook: ${error instanceof Error ? error.message : error}`);
+		}
+	});
+
+	context.subscriptions.push(installHookCommand);
+
 	// Register the command to generate AGENTS.md for a single folder
 	const generateSingleFolderCommand = vscode.commands.registerCommand('AgentsMDGenerator.generateSingleFolder', async (folderPath: string) => {
 		try {
@@ -304,25 +961,27 @@ export function activate(context: vscode.ExtensionContext) {
 			await vscode.window.withProgress({
 				location: vscode.ProgressLocation.Notification,
 				title: `Generating AGENTS.md for ${folderNode.name}`,
-				cancellable: false
-			}, async (progress) => {
+				cancellable: true
+			}, async (progress, progressToken) => {
+				progress.report({ message: 'Resolving imports...' });
+				await doBuildImportGraphs([folderNode]);
 				progress.report({ message: 'Processing...' });
 
-				folderStatusMap.set(folderNode.path, GenerationStatus.InProgress);
+				folderStatusMap.set(folderNode.path, { ...folderStatusMap.get(folderNode.path), status: GenerationStatus.InProgress, error: undefined });
 				await doUpdatePortalStatus();
 
-				const success = await generateAgentsMdForFolder(folderNode, selectedModelId);
-
-				folderStatusMap.set(
-					folderNode.path,
-					success ? GenerationStatus.Completed : GenerationStatus.Failed
-				);
+				const result = await runCancellable(progressToken, (token) => generateAgentsMdForFolder(folderNode, selectedModelId, token));
+				await recordGenerationResult(folderNode, result);
 				await doUpdatePortalStatus();
 
-				if (success) {
+				if (result.cancelled) {
+					vscode.window.showWarningMessage(`AGENTS.md generation for ${folderNode.name} cancelled`);
+				} else if (result.stagedOutputs) {
+					vscode.window.showInformationMessage(`Generated AGENTS.md for ${folderNode.name}. Review the staged changes in the portal.`);
+				} else if (result.success) {
 					vscode.window.showInformationMessage(`Successfully generated AGENTS.md for ${folderNode.name}!`);
 				} else {
-					vscode.window.showWarningMessage(`Failed to generate AGENTS.md for ${folderNode.name}.`);
+					vscode.window.showWarningMessage(`Failed to generate AGENTS.md for ${folderNode.name}: ${result.error?.message ?? 'unknown error'}`);
 				}
 			});
 
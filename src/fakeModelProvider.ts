@@ -0,0 +1,168 @@
+/**
+ * Scripted fake models for tests, configured with the agentsMdGenerator.fakeModels setting.
+ *
+ * Each fake model answers with the first of its responses whose match appears in the request's last message,
+ * or by default with an echo naming the folder the request is about. Responses can simulate errors and latency.
+ * Nothing is random, so a run against the same workspace always produces the same files.
+ */
+
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import { CancellationError, CancellationToken } from './cancellation';
+import { ChatMessage, ChatModel, ModelError, ModelInfo, ModelProvider } from './modelProvider';
+import { estimateTokens } from './contextBudget';
+
+export interface FakeResponse {
+	/** Only answers requests whose last message contains this text */
+	match?: string;
+	/** Answers this many requests, then is skipped (unlimited when omitted) */
+	times?: number;
+	/** Response text; {{ECHO}} is replaced by the echo of the request */
+	text?: string;
+	/** Fail with this message instead of answering */
+	error?: string;
+	/** LanguageModelError code of the failure */
+	errorCode?: 'NotFound' | 'NoPermissions' | 'Blocked';
+}
+
+export interface FakeModelConfig {
+	/** Listed as fake:<id> */
+	id: string;
+	maxInputTokens?: number;
+	/** Pause before each response, in milliseconds */
+	latencyMs?: number;
+	/** Checked in order; without a matching one the model echoes */
+	responses?: FakeResponse[];
+	/** Every request is appended to this file as a line of JSON */
+	logFile?: string;
+}
+
+/**
+ * A request as written to a fake model's log file
+ */
+export interface FakeRequestLogEntry {
+	model: string;
+	/** Folder named by the prompt, when it is a generation prompt */
+	folder?: string;
+	messages: number;
+	/** Content of the last message */
+	prompt: string;
+	/** Index of the response used, undefined for the echo */
+	response?: number;
+	error?: string;
+}
+
+export const FAKE_MODEL_ID_PREFIX = 'fake:';
+
+const SETTINGS_SECTION = 'agentsMdGenerator';
+const FAKE_MODELS_SETTING = 'fakeModels';
+
+export class FakeModelProvider implements ModelProvider {
+	public readonly name = 'Fake (testing)';
+	// Requests answered by each response, keyed by model ID and response index; reset when the setting changes
+	private readonly responseCounts = new Map<string, number>();
+	private lastConfig = '';
+
+	public async listModels(): Promise<ModelInfo[]> {
+		return this.getConfigs().map(config => ({
+			id: FAKE_MODEL_ID_PREFIX + config.id,
+			name: config.id,
+			family: 'fake',
+			vendor: 'fake',
+			provider: this.name
+		}));
+	}
+
+	public async getModel(modelId: string): Promise<ChatModel | undefined> {
+		const config = this.getConfigs().find(candidate => FAKE_MODEL_ID_PREFIX + candidate.id === modelId);
+		if (!config) {
+			return undefined;
+		}
+		return {
+			id: modelId,
+			name: config.id,
+			maxInputTokens: config.maxInputTokens ?? 0,
+			sendRequest: (messages, token) => this.respond(modelId, config, messages, token),
+			countTokens: async (text) => estimateTokens(text)
+		};
+	}
+
+	private getConfigs(): FakeModelConfig[] {
+		const configs = vscode.workspace.getConfiguration(SETTINGS_SECTION).get<FakeModelConfig[]>(FAKE_MODELS_SETTING) ?? [];
+		const serialized = JSON.stringify(configs);
+		if (serialized !== this.lastConfig) {
+			this.lastConfig = serialized;
+			this.responseCounts.clear();
+		}
+		return configs.filter(config => typeof config?.id === 'string' && config.id !== '');
+	}
+
+	private async respond(
+		modelId: string,
+		config: FakeModelConfig,
+		messages: ChatMessage[],
+		token: CancellationToken
+	): Promise<AsyncIterable<string>> {
+		const prompt = messages[messages.length - 1]?.content ?? '';
+		const index = (config.responses ?? []).findIndex((response, responseIndex) =>
+			(!response.match || prompt.includes(response.match))
+			&& (response.times === undefined || (this.responseCounts.get(`${modelId}#${responseIndex}`) ?? 0) < response.times));
+		const response = index >= 0 ? config.responses?.[index] : undefined;
+		if (response) {
+			this.responseCounts.set(`${modelId}#${index}`, (this.responseCounts.get(`${modelId}#${index}`) ?? 0) + 1);
+		}
+
+		if (config.logFile) {
+			const entry: FakeRequestLogEntry = {
+				model: modelId,
+				folder: getPromptFolder(prompt),
+				messages: messages.length,
+				prompt,
+				response: response ? index : undefined,
+				error: response?.error
+			};
+			await fs.promises.appendFile(config.logFile, JSON.stringify(entry) + '\n', 'utf-8');
+		}
+
+		if (config.latencyMs) {
+			await delay(config.latencyMs, token);
+		}
+		if (response?.error) {
+			throw response.errorCode ? new ModelError(response.error, response.errorCode) : new Error(response.error);
+		}
+		const text = response?.text !== undefined ? response.text.split('{{ECHO}}').join(echo(messages)) : echo(messages);
+		return toAsyncIterable(text);
+	}
+}
+
+/**
+ * A short document naming the folder a generation prompt is about
+ */
+function echo(messages: ChatMessage[]): string {
+	const prompt = messages[messages.length - 1]?.content ?? '';
+	const folder = getPromptFolder(prompt);
+	return `## Overview\n\nFake documentation of ${folder ?? 'the request'}, from a prompt of ${prompt.length} characters in ${messages.length} message(s).\n`;
+}
+
+function getPromptFolder(prompt: string): string | undefined {
+	// Generation prompts contain the "## Folder Structure: <name>" heading of getFolderStructure
+	return /^## Folder Structure: (.+)$/m.exec(prompt)?.[1]?.trim();
+}
+
+async function* toAsyncIterable(text: string): AsyncIterable<string> {
+	yield text;
+}
+
+function delay(ms: number, token: CancellationToken): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const timer = setTimeout(() => {
+			subscription.dispose();
+			resolve();
+		}, ms);
+		const subscription = token.onCancellationRequested(() => {
+			clearTimeout(timer);
+			subscription.dispose();
+			reject(new CancellationError());
+		});
+	});
+}
@@ -0,0 +1,192 @@
+/**
+ * Classification of a folder's files into what is sent to the model: code, configuration and documentation.
+ *
+ * A rule's match is a file extension when it starts with "." (".kt", ".d.ts"), a wildcard pattern when it
+ * contains * or ? ("*.config.js", "Dockerfile.*") and an exact file name otherwise ("Makefile").
+ * User rules are added to the built-in ones. When several rules match a file, the highest priority wins,
+ * then exact names over patterns over extensions (longer extensions first), then user rules over built-in ones.
+ * Binary files and files of the "other" category are listed by name only; files without a matching rule too.
+ */
+
+export type FileCategory = 'code' | 'config' | 'doc' | 'binary' | 'other';
+
+export interface ClassificationRule {
+	match: string;
+	category: FileCategory;
+	/** Wins over lower priority rules and puts the file ahead of others of its category (default 0) */
+	priority?: number;
+}
+
+export interface FileClassification {
+	category: FileCategory;
+	priority: number;
+}
+
+export const FILE_CATEGORIES: FileCategory[] = ['code', 'config', 'doc', 'binary', 'other'];
+
+const BUILT_IN_RULES: ClassificationRule[] = [
+	...rules('code', [
+		'.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte', '.astro',
+		'.py', '.java', '.kt', '.kts', '.scala', '.groovy', '.clj', '.swift', '.m', '.mm', '.dart',
+		'.cs', '.fs', '.vb', '.go', '.rs', '.c', '.h', '.cc', '.cpp', '.cxx', '.hpp', '.zig',
+		'.rb', '.php', '.pl', '.lua', '.r', '.jl', '.ex', '.exs', '.erl', '.hs', '.ml', '.elm', '.sol',
+		'.sql', '.graphql', '.gql', '.proto', '.tf', '.hcl', '.bicep',
+		'.sh', '.bash', '.zsh', '.fish', '.ps1', '.psm1', '.bat', '.cmd'
+	]),
+	...rules('config', [
+		'.json', '.jsonc', '.json5', '.yaml', '.yml', '.toml', '.xml', '.ini', '.cfg', '.conf', '.properties',
+		'.gradle', '.tfvars', '.csproj', '.sln', '.cabal', '.editorconfig',
+		'*.config.js', '*.config.ts', '*.config.mjs', '*.config.cjs', 'Dockerfile.*', '*.dockerfile',
+		'Dockerfile', 'Containerfile', 'Makefile', 'CMakeLists.txt', 'Jenkinsfile', 'Procfile',
+		'Gemfile', 'Rakefile', 'Pipfile', 'go.mod', 'requirements.txt', '.gitattributes'
+	]),
+	...rules('doc', ['.md', '.mdx', '.rst', '.adoc', '.txt']),
+	...rules('binary', [
+		'.png', '.jpg', '.jpeg', '.gif', '.bmp', '.ico', '.webp', '.tif', '.tiff', '.psd',
+		'.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx',
+		'.zip', '.gz', '.tgz', '.bz2', '.xz', '.7z', '.rar', '.tar', '.jar', '.war', '.whl', '.nupkg', '.vsix',
+		'.exe', '.dll', '.so', '.dylib', '.o', '.a', '.lib', '.obj', '.class', '.pyc', '.pyo', '.wasm', '.bin',
+		'.woff', '.woff2', '.ttf', '.otf', '.eot', '.mp3', '.mp4', '.wav', '.ogg', '.mov', '.avi', '.webm',
+		'.sqlite', '.db'
+	]),
+	// Generated files that would only take up the context window
+	...rules('other', [
+		'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb', 'Cargo.lock', 'poetry.lock',
+		'Pipfile.lock', 'composer.lock', 'Gemfile.lock', 'go.sum', '*.min.js', '*.min.css', '*.map'
+	])
+];
+
+// Bytes inspected when checking whether content is text
+const BINARY_SNIFF_LENGTH = 8000;
+
+// Runtime configuration - updated from user settings
+let runtimeClassificationRules: ClassificationRule[] = [];
+
+// Rules from workspace configuration files (.agentsmd.json), keyed by workspace folder path
+const fileClassificationRules = new Map<string, ClassificationRule[]>();
+
+/**
+ * Update the runtime classification rules added to the built-in ones
+ */
+export function updateClassificationRules(rules: ClassificationRule[]): void {
+	runtimeClassificationRules = rules.map(rule => ({ ...rule }));
+}
+
+/**
+ * Set (or remove, when undefined) the classification rules a workspace folder's configuration file defines
+ */
+export function updateFileClassificationRules(rootPath: string, rules: ClassificationRule[] | undefined): void {
+	if (rules) {
+		fileClassificationRules.set(rootPath, rules);
+	} else {
+		fileClassificationRules.delete(rootPath);
+	}
+}
+
+/**
+ * Get the user rules in effect for a workspace folder
+ */
+export function getClassificationRules(rootPath?: string): ClassificationRule[] {
+	const rules = (rootPath ? fileClassificationRules.get(rootPath) : undefined) ?? runtimeClassificationRules;
+	return rules.map(rule => ({ ...rule }));
+}
+
+/**
+ * Get the rules of every workspace folder whose configuration file defines them
+ */
+export function getFileClassificationRules(): Record<string, ClassificationRule[]> {
+	return Object.fromEntries(fileClassificationRules);
+}
+
+/**
+ * Check a list of classification rules, returning the problems found
+ */
+export function validateClassificationRules(rules: ClassificationRule[]): string[] {
+	const errors: string[] = [];
+	for (const rule of rules) {
+		if (typeof rule.match !== 'string' || !rule.match.trim() || /[\s/\\]/.test(rule.match)) {
+			errors.push(`"${rule.match}" must be an extension, a file name or a wildcard pattern without spaces or slashes`);
+		}
+		if (!FILE_CATEGORIES.includes(rule.category)) {
+			errors.push(`"${rule.match}" has an unknown category "${rule.category}"`);
+		}
+		if (rule.priority !== undefined && !Number.isFinite(rule.priority)) {
+			errors.push(`"${rule.match}" must have a numeric priority`);
+		}
+	}
+	return errors;
+}
+
+/**
+ * Classify a file by its name; undefined when no rule matches
+ */
+export function classifyFile(fileName: string, rootPath?: string): FileClassification | undefined {
+	let best: { rule: ClassificationRule; rank: number[] } | undefined;
+	const userRules = getClassificationRules(rootPath);
+
+	[...BUILT_IN_RULES, ...userRules].forEach((rule, index) => {
+		const specificity = getSpecificity(fileName, rule.match);
+		if (specificity === undefined) {
+			return;
+		}
+		const rank = [rule.priority ?? 0, ...specificity, index >= BUILT_IN_RULES.length ? 1 : 0];
+		if (!best || compareRanks(rank, best.rank) >= 0) {
+			best = { rule, rank };
+		}
+	});
+
+	return best ? { category: best.rule.category, priority: best.rule.priority ?? 0 } : undefined;
+}
+
+/**
+ * Whether content read from a file is binary: it contains NUL bytes or mostly control characters
+ */
+export function isBinaryContent(content: Uint8Array): boolean {
+	const length = Math.min(content.length, BINARY_SNIFF_LENGTH);
+	let controlCharacters = 0;
+	for (let i = 0; i < length; i++) {
+		const byte = content[i];
+		if (byte === 0) {
+			return true;
+		}
+		// Tabs, line breaks and form feeds are text
+		if (byte < 32 && byte !== 9 && byte !== 10 && byte !== 12 && byte !== 13) {
+			controlCharacters++;
+		}
+	}
+	return length > 0 && controlCharacters / length > 0.1;
+}
+
+function rules(category: FileCategory, matches: string[]): ClassificationRule[] {
+	return matches.map(match => ({ match, category }));
+}
+
+/**
+ * How specifically a rule matches a file: [kind, length], higher is more specific; undefined when it doesn't match
+ */
+function getSpecificity(fileName: string, match: string): number[] | undefined {
+	if (/[*?]/.test(match)) {
+		return matchesWildcard(fileName, match) ? [2, match.length] : undefined;
+	}
+	if (match.startsWith('.') && fileName !== match) {
+		return fileName.toLowerCase().endsWith(match.toLowerCase()) ? [1, match.length] : undefined;
+	}
+	return fileName === match ? [3, match.length] : undefined;
+}
+
+function compareRanks(a: number[], b: number[]): number {
+	for (let i = 0; i < a.length; i++) {
+		if (a[i] !== b[i]) {
+			return a[i] - b[i];
+		}
+	}
+	return 0;
+}
+
+function matchesWildcard(text: string, pattern: string): boolean {
+	const regexPattern = pattern
+		.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+		.replace(/\*/g, '.*')
+		.replace(/\?/g, '.');
+	return new RegExp(`^${regexPattern}$`, 'i').test(text);
+}
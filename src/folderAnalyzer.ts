@@ -1,156 +1,244 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { FolderNode } from './folderScanner';
+import { shouldIgnoreFolder } from './ignoreConfig';
+import { IgnoreFileRule, loadInheritedIgnoreFileRules } from './ignoreFileRules';
+import { AGENTSMD_DATA_FOLDER } from './generationManifest';
+import { getPrimaryOutputPath, isOutputDirectory, isOutputFile, stripFrontMatter } from './outputTargets';
+import { getStagedOutputContent, hasStagedOutput } from './stagedGenerations';
+import {
+	allocateContext,
+	AllocatedFile,
+	ContextCandidate,
+	createEstimatedBudget,
+	isEntryPointFile,
+	rankContextCandidates,
+	TokenBudget
+} from './contextBudget';
+import { extractSymbols, formatSymbolOutlines, SymbolOutline, supportsSymbolExtraction } from './symbolExtractor';
+import { ReferenceIndex } from './referenceValidator';
+import { isDeniedFile, recordRedactions, redactSecrets } from './secretRedaction';
+import { classifyFile, FileCategory, isBinaryContent } from './fileClassification';
+
+// Upper bounds on the files considered for the prompt; how much of each is sent depends on the token budget
+const MAX_CODE_FILES = 40;
+const MAX_SUBFOLDER_CODE_FILES = 5;
+const MAX_CONFIG_FILES = 5;
+const MAX_DOC_FILES = 3;
+
+export interface SubfolderContext {
+	name: string;
+	/** Whether the sub-folder has its primary output file (AGENTS.md by default) */
+	hasAgentsFile: boolean;
+	/** Candidate code files of sub-folders without AGENTS.md (names relative to the sub-folder) */
+	codeFiles: string[];
+	totalCodeFiles: number;
+}
+
+/**
+ * The entries of a folder and the files whose content may be sent to the model, entry points first
+ */
+export interface FolderContextSelection {
+	/** Primary output file path relative to a folder */
+	agentsFileName: string;
+	directories: string[];
+	files: string[];
+	codeFiles: string[];
+	configFiles: string[];
+	docFiles: string[];
+	subfolders: SubfolderContext[];
+	/** Files on the redaction deny-list, whose content is never sent */
+	withheldFiles: string[];
+}
 
 /**
- * Get the structure and file list of a folder
+ * The files of a category (see fileClassification.ts), highest priority and then entry points first so they survive the candidate limits
  */
-export async function getFolderStructure(folderPath: string): Promise<string> {
+function filesOfCategory(names: string[], category: FileCategory, rootPath: string): string[] {
+	return names
+		.map(name => ({ name, classification: classifyFile(name, rootPath) }))
+		.filter(file => file.classification?.category === category)
+		.sort((a, b) => (b.classification?.priority ?? 0) - (a.classification?.priority ?? 0)
+			|| Number(isEntryPointFile(b.name)) - Number(isEntryPointFile(a.name)))
+		.map(file => file.name);
+}
+
+/**
+ * Select which files of a folder are fed to the model.
+ * Shared by getFolderStructure and the fingerprinting in folderFingerprint.ts so both see the same inputs.
+ * Generated output files are never selected as documentation input, and sub-folders the folder scanner
+ * never scans (the generator's data folder, ignored and output folders) aren't listed.
+ */
+export async function selectFolderContext(folderPath: string, rootPath: string): Promise<FolderContextSelection> {
+	const entries = await fs.promises.readdir(folderPath, { withFileTypes: true });
+	const agentsFileName = getPrimaryOutputPath(rootPath);
+	const ignoreFileRules = await loadInheritedIgnoreFileRules(folderPath, rootPath);
+
+	// Separate directories and files
+	const directories = entries
+		.filter(e => e.isDirectory() && isScannedFolder(path.join(folderPath, e.name), rootPath, ignoreFileRules))
+		.map(e => e.name);
+	const files = entries.filter(e => !e.isDirectory()).map(e => e.name);
+	const isWithheld = (filePath: string) => isDeniedFile(path.relative(rootPath, filePath), rootPath);
+	const withheldFiles = files.filter(name => isWithheld(path.join(folderPath, name)));
+	const inputFiles = files.filter(name => !isOutputFile(path.join(folderPath, name), rootPath) && !withheldFiles.includes(name));
+	
+	const subfolders: SubfolderContext[] = [];
+	for (const dir of directories) {
+		const subfolderPath = path.join(folderPath, dir);
+		// Content staged for review counts as written, so parents generated in the same run see it
+		const subAgentsPath = path.join(subfolderPath, agentsFileName);
+		const hasAgentsFile = hasStagedOutput(subAgentsPath) || fs.existsSync(subAgentsPath);
+		let subCodeFiles: string[] = [];
+		
+		// Code files are only analyzed for sub-folders that don't have AGENTS.md
+		if (!hasAgentsFile) {
+			try {
+				const subEntries = await fs.promises.readdir(subfolderPath, { withFileTypes: true });
+				subCodeFiles = filesOfCategory(subEntries
+					.filter(e => !e.isDirectory() && !isWithheld(path.join(subfolderPath, e.name)))
+					.map(e => e.name), 'code', rootPath);
+			} catch (err) {
+				console.error(`Error reading sub-folder ${subfolderPath}:`, err);
+			}
+		}
+		
+		subfolders.push({
+			name: dir,
+			hasAgentsFile,
+			codeFiles: subCodeFiles.slice(0, MAX_SUBFOLDER_CODE_FILES),
+			totalCodeFiles: subCodeFiles.length
+		});
+	}
+	
+	return {
+		agentsFileName,
+		directories,
+		files,
+		codeFiles: filesOfCategory(inputFiles, 'code', rootPath).slice(0, MAX_CODE_FILES),
+		configFiles: filesOfCategory(inputFiles, 'config', rootPath).slice(0, MAX_CONFIG_FILES),
+		docFiles: filesOfCategory(inputFiles, 'doc', rootPath).slice(0, MAX_DOC_FILES),
+		subfolders,
+		withheldFiles
+	};
+}
+
+/**
+ * Whether the folder scanner scans a sub-folder (see buildFolderNode), so it belongs in its parent's listing
+ */
+function isScannedFolder(folderPath: string, rootPath: string, ignoreFileRules: IgnoreFileRule[]): boolean {
+	const name = path.basename(folderPath);
+	return name !== AGENTSMD_DATA_FOLDER
+		&& !shouldIgnoreFolder(name, path.relative(rootPath, folderPath), ignoreFileRules, rootPath)
+		&& !isOutputDirectory(folderPath, rootPath);
+}
+
+/**
+ * Get the structure and file list of a folder, with as much file content as the token budget allows.
+ * Files are sent in priority order (see rankContextCandidates); anything truncated or left out is reported in the text.
+ */
+export async function getFolderStructure(
+	folderPath: string,
+	rootPath: string,
+	budget: TokenBudget = createEstimatedBudget()
+): Promise<string> {
 	let structure = '';
 	
 	try {
-		const entries = await fs.promises.readdir(folderPath, { withFileTypes: true });
+		const selection = await selectFolderContext(folderPath, rootPath);
+		const agentsName = path.basename(selection.agentsFileName);
 		
 		structure += `## Folder Structure: ${path.basename(folderPath)}\n\n`;
 		
-		// Separate directories and files
-		const directories = entries.filter(e => e.isDirectory());
-		const files = entries.filter(e => !e.isDirectory());
-		
-		if (directories.length > 0) {
+		if (selection.subfolders.length > 0) {
 			structure += `### Sub-directories:\n`;
-			for (const dir of directories) {
-				const agentsPath = path.join(folderPath, dir.name, 'AGENTS.md');
-				const hasAgents = fs.existsSync(agentsPath);
-				structure += `- ${dir.name}/ ${hasAgents ? '(has AGENTS.md)' : '(no AGENTS.md - will analyze contents)'}\n`;
+			for (const subfolder of selection.subfolders) {
+				structure += `- ${subfolder.name}/ ${subfolder.hasAgentsFile ? `(has ${agentsName})` : `(no ${agentsName} - will analyze contents)`}\n`;
 			}
 			structure += '\n';
 		}
 		
-		if (files.length > 0) {
+		if (selection.files.length > 0) {
 			structure += `### Files in this folder:\n`;
-			for (const file of files) {
-				structure += `- ${file.name}\n`;
+			for (const file of selection.files) {
+				const withheld = selection.withheldFiles.includes(file);
+				const binary = classifyFile(file, rootPath)?.category === 'binary';
+				structure += `- ${file}${withheld ? ' (content withheld, may contain secrets)' : binary ? ' (binary)' : ''}\n`;
+				if (withheld) {
+					const filePath = path.join(folderPath, file);
+					recordRedactions(filePath, toRootRelative(filePath, rootPath), {}, true);
+				}
 			}
 			structure += '\n';
 		}
+
+		// Read every candidate, then fit them into the budget by priority:
+		// this folder's code, code of sub-folders without AGENTS.md, configuration, documentation
+		const subfoldersWithoutAgents = selection.subfolders.filter(subfolder => !subfolder.hasAgentsFile);
+		const codeFiles = rankContextCandidates(await readCandidates(folderPath, rootPath, selection.codeFiles));
+		const subfolderCodeFiles = interleave(await Promise.all(subfoldersWithoutAgents.map(async subfolder =>
+			rankContextCandidates(await readCandidates(folderPath, rootPath, subfolder.codeFiles.map(file => `${subfolder.name}/${file}`)))
+		)));
+		const configFiles = await readCandidates(folderPath, rootPath, selection.configFiles);
+		const docFiles = await readCandidates(folderPath, rootPath, selection.docFiles);
+
+		const allocation = await allocateContext([...codeFiles, ...subfolderCodeFiles, ...configFiles, ...docFiles], budget);
+		const allocated = new Map(allocation.files.map(file => [file.relativePath, file]));
+		const pick = (candidates: ContextCandidate[]) => candidates
+			.map(candidate => allocated.get(candidate.relativePath))
+			.filter((file): file is AllocatedFile => file !== undefined);
 		
 		// Get file contents for analysis - prioritize code files
-		const codeFiles = files.filter(e => 
-			e.name.endsWith('.ts') || e.name.endsWith('.js') || 
-			e.name.endsWith('.py') || e.name.endsWith('.java') ||
-			e.name.endsWith('.tsx') || e.name.endsWith('.jsx') ||
-			e.name.endsWith('.cs') || e.name.endsWith('.go') ||
-			e.name.endsWith('.cpp') || e.name.endsWith('.c') ||
-			e.name.endsWith('.rs') || e.name.endsWith('.rb')
-		);
-		
-		const configFiles = files.filter(e =>
-			e.name.endsWith('.json') || e.name.endsWith('.yaml') ||
-			e.name.endsWith('.yml') || e.name.endsWith('.toml') ||
-			e.name.endsWith('.xml') || e.name === 'Dockerfile' ||
-			e.name.endsWith('.config.js') || e.name.endsWith('.config.ts')
-		);
-		
-		const docFiles = files.filter(e =>
-			e.name.endsWith('.md') && e.name !== 'AGENTS.md'
-		);
-		
-		// Include up to 10 code files from this folder with more content
-		if (codeFiles.length > 0) {
+		const shownCodeFiles = pick(codeFiles);
+		if (shownCodeFiles.length > 0) {
 			structure += `## Code Files in This Folder (for analysis):\n\n`;
-			for (const file of codeFiles.slice(0, 10)) {
-				const filePath = path.join(folderPath, file.name);
-				try {
-					const content = await fs.promises.readFile(filePath, 'utf-8');
-					// Increase limit to capture more code context
-					const truncatedContent = content.length > 2500 ? content.substring(0, 2500) + '\n... (truncated)' : content;
-					structure += `### File: ${file.name}\n\`\`\`\n${truncatedContent}\n\`\`\`\n\n`;
-				} catch (err) {
-					structure += `### File: ${file.name}\n(Unable to read file)\n\n`;
-				}
+			for (const file of shownCodeFiles) {
+				structure += `### File: ${file.relativePath}\n\`\`\`\n${formatContent(file)}\n\`\`\`\n\n`;
 			}
 		}
 		
 		// Now analyze sub-folders that don't have AGENTS.md
-		const subfoldersWithoutAgents = directories.filter(dir => {
-			const agentsPath = path.join(folderPath, dir.name, 'AGENTS.md');
-			return !fs.existsSync(agentsPath);
-		});
-		
-		if (subfoldersWithoutAgents.length > 0) {
+		const shownSubfolderFiles = pick(subfolderCodeFiles);
+		if (shownSubfolderFiles.length > 0) {
 			structure += `## Code Files in Sub-folders Without AGENTS.md:\n\n`;
 			
-			for (const dir of subfoldersWithoutAgents) {
-				const subfolderPath = path.join(folderPath, dir.name);
+			for (const subfolder of subfoldersWithoutAgents) {
+				const files = shownSubfolderFiles.filter(file => file.relativePath.startsWith(`${subfolder.name}/`));
+				if (files.length === 0) {
+					continue;
+				}
+				
+				structure += `### Sub-folder: ${subfolder.name}/\n`;
+				
+				for (const file of files) {
+					structure += `\n#### File: ${file.relativePath}\n\`\`\`\n${formatContent(file)}\n\`\`\`\n\n`;
+				}
 				
-				try {
-					const subEntries = await fs.promises.readdir(subfolderPath, { withFileTypes: true });
-					const subCodeFiles = subEntries.filter(e =>
-						!e.isDirectory() && (
-							e.name.endsWith('.ts') || e.name.endsWith('.js') ||
-							e.name.endsWith('.py') || e.name.endsWith('.java') ||
-							e.name.endsWith('.tsx') || e.name.endsWith('.jsx') ||
-							e.name.endsWith('.cs') || e.name.endsWith('.go') ||
-							e.name.endsWith('.cpp') || e.name.endsWith('.c') ||
-							e.name.endsWith('.rs') || e.name.endsWith('.rb')
-						)
-					);
-					
-					if (subCodeFiles.length > 0) {
-						structure += `### Sub-folder: ${dir.name}/\n`;
-						
-						// Read up to 3 code files from each sub-folder
-						for (const file of subCodeFiles.slice(0, 3)) {
-							const filePath = path.join(subfolderPath, file.name);
-							try {
-								const content = await fs.promises.readFile(filePath, 'utf-8');
-								const truncatedContent = content.length > 1500 ? content.substring(0, 1500) + '\n... (truncated)' : content;
-								structure += `\n#### File: ${dir.name}/${file.name}\n\`\`\`\n${truncatedContent}\n\`\`\`\n\n`;
-							} catch (err) {
-								structure += `\n#### File: ${dir.name}/${file.name}\n(Unable to read file)\n\n`;
-							}
-						}
-						
-						if (subCodeFiles.length > 3) {
-							structure += `... and ${subCodeFiles.length - 3} more files in ${dir.name}/\n\n`;
-						}
-					}
-				} catch (err) {
-					console.error(`Error reading sub-folder ${subfolderPath}:`, err);
+				if (subfolder.totalCodeFiles > files.length) {
+					structure += `... and ${subfolder.totalCodeFiles - files.length} more files in ${subfolder.name}/\n\n`;
 				}
 			}
 		}
 		
 		// Include important config files
-		if (configFiles.length > 0) {
+		const shownConfigFiles = pick(configFiles);
+		if (shownConfigFiles.length > 0) {
 			structure += `## Configuration Files:\n\n`;
-			for (const file of configFiles.slice(0, 3)) {
-				const filePath = path.join(folderPath, file.name);
-				try {
-					const content = await fs.promises.readFile(filePath, 'utf-8');
-					const truncatedContent = content.length > 1000 ? content.substring(0, 1000) + '\n... (truncated)' : content;
-					structure += `### ${file.name}\n\`\`\`\n${truncatedContent}\n\`\`\`\n\n`;
-				} catch (err) {
-					// Skip files that can't be read
-				}
+			for (const file of shownConfigFiles) {
+				structure += `### ${file.relativePath}\n\`\`\`\n${formatContent(file)}\n\`\`\`\n\n`;
 			}
 		}
 		
 		// Include documentation files
-		if (docFiles.length > 0) {
+		const shownDocFiles = pick(docFiles);
+		if (shownDocFiles.length > 0) {
 			structure += `## Documentation Files:\n\n`;
-			for (const file of docFiles.slice(0, 2)) {
-				const filePath = path.join(folderPath, file.name);
-				try {
-					const content = await fs.promises.readFile(filePath, 'utf-8');
-					const truncatedContent = content.length > 800 ? content.substring(0, 800) + '\n... (truncated)' : content;
-					structure += `### ${file.name}\n${truncatedContent}\n\n`;
-				} catch (err) {
-					// Skip files that can't be read
-				}
+			for (const file of shownDocFiles) {
+				structure += `### ${file.relativePath}\n${formatContent(file)}\n\n`;
 			}
 		}
+
+		structure += describeContextLimits(allocation.files, allocation.omitted);
 		
 	} catch (error) {
 		console.error(`Error getting folder structure for ${folderPath}:`, error);
@@ -160,23 +248,179 @@ export async function getFolderStructure(folderPath: string): Promise<string> {
 }
 
 /**
- * Get AGENTS.md content from direct sub-folders
+ * Outline the exported symbols of the code files getFolderStructure considers, read in full,
+ * so declarations beyond the truncated source are still visible to the model
+ */
+export async function getFolderSymbols(folderPath: string, rootPath: string): Promise<string> {
+	try {
+		const selection = await selectFolderContext(folderPath, rootPath);
+		const relativePaths = [
+			...selection.codeFiles,
+			...selection.subfolders
+				.filter(subfolder => !subfolder.hasAgentsFile)
+				.flatMap(subfolder => subfolder.codeFiles.map(file => `${subfolder.name}/${file}`))
+		].filter(supportsSymbolExtraction);
+
+		const outlines: Array<{ relativePath: string; symbols: SymbolOutline[] }> = [];
+		for (const candidate of await readCandidates(folderPath, rootPath, relativePaths)) {
+			try {
+				outlines.push({ relativePath: candidate.relativePath, symbols: await extractSymbols(candidate.relativePath, candidate.content) });
+			} catch (err) {
+				console.error(`Error extracting symbols from ${candidate.relativePath}:`, err);
+			}
+		}
+		return formatSymbolOutlines(outlines);
+	} catch (error) {
+		console.error(`Error getting symbols for ${folderPath}:`, error);
+		return '';
+	}
+}
+
+/**
+ * Collect what generated documentation may refer to: the identifiers in the files the model was given
+ * (including the sub-folder docs) and the paths that exist relative to the folder, its sub-folders or the workspace folder
+ */
+export async function getFolderReferenceIndex(
+	folderPath: string,
+	rootPath: string,
+	subfolderDocs: Map<string, string> = new Map()
+): Promise<ReferenceIndex> {
+	const identifiers = new Set<string>();
+	const addIdentifiers = (text: string) => {
+		for (const match of text.matchAll(/[A-Za-z_$][\w$]*/g)) {
+			identifiers.add(match[0]);
+		}
+	};
+
+	let selection: FolderContextSelection | undefined;
+	try {
+		selection = await selectFolderContext(folderPath, rootPath);
+		const relativePaths = [
+			...selection.codeFiles,
+			...selection.configFiles,
+			...selection.docFiles,
+			...selection.subfolders.flatMap(subfolder => subfolder.codeFiles.map(file => `${subfolder.name}/${file}`))
+		];
+		for (const candidate of await readCandidates(folderPath, rootPath, relativePaths)) {
+			addIdentifiers(candidate.relativePath);
+			addIdentifiers(candidate.content);
+		}
+		[...selection.files, ...selection.directories].forEach(addIdentifiers);
+	} catch (error) {
+		console.error(`Error indexing references for ${folderPath}:`, error);
+	}
+	subfolderDocs.forEach(addIdentifiers);
+
+	const agentsFileName = path.basename(selection?.agentsFileName ?? getPrimaryOutputPath(rootPath));
+	const baseFolders = [folderPath, rootPath, ...(selection?.directories ?? []).map(dir => path.join(folderPath, dir))];
+	return {
+		identifiers,
+		pathExists: (reference) => {
+			// The output file itself may not be written yet
+			if (path.basename(reference) === agentsFileName) {
+				return true;
+			}
+			const relativePath = reference.replace(/^\//, '');
+			return baseFolders.some(base => {
+				const candidate = path.join(base, relativePath);
+				return hasStagedOutput(candidate) || fs.existsSync(candidate);
+			});
+		}
+	};
+}
+
+/**
+ * Read files for the prompt, with secrets redacted; files that turn out to be binary are skipped
+ */
+async function readCandidates(folderPath: string, rootPath: string, relativePaths: string[]): Promise<ContextCandidate[]> {
+	const candidates: ContextCandidate[] = [];
+	for (const relativePath of relativePaths) {
+		const filePath = path.join(folderPath, relativePath);
+		let buffer: Buffer;
+		try {
+			buffer = await fs.promises.readFile(filePath);
+		} catch (err) {
+			// Skip files that can't be read
+			continue;
+		}
+		if (isBinaryContent(buffer)) {
+			continue;
+		}
+		const redacted = redactSecrets(buffer.toString('utf-8'), rootPath);
+		recordRedactions(filePath, toRootRelative(filePath, rootPath), redacted.redactions);
+		candidates.push({ relativePath, content: redacted.content });
+	}
+	return candidates;
+}
+
+function toRootRelative(filePath: string, rootPath: string): string {
+	return path.relative(rootPath, filePath).split(path.sep).join('/');
+}
+
+/**
+ * Take the first file of every list, then the second, ... so each sub-folder keeps its most important file
+ */
+function interleave<T>(lists: T[][]): T[] {
+	const result: T[] = [];
+	const longest = Math.max(0, ...lists.map(list => list.length));
+	for (let i = 0; i < longest; i++) {
+		for (const list of lists) {
+			if (i < list.length) {
+				result.push(list[i]);
+			}
+		}
+	}
+	return result;
+}
+
+function formatContent(file: AllocatedFile): string {
+	return file.truncated
+		? `${file.content}\n... (truncated: showing about ${file.shownTokens} of ${file.totalTokens} tokens)`
+		: file.content;
+}
+
+/**
+ * Tell the model which files it only sees partially, so it doesn't describe them as complete
+ */
+function describeContextLimits(files: AllocatedFile[], omitted: string[]): string {
+	const truncated = files.filter(file => file.truncated).map(file => file.relativePath);
+	if (truncated.length === 0 && omitted.length === 0) {
+		return '';
+	}
+
+	let note = `## Context Limits:\n\n`;
+	note += `The folder is larger than the context window allows, so not all file content is shown.\n`;
+	if (truncated.length > 0) {
+		note += `- Truncated (only the beginning is shown): ${truncated.join(', ')}\n`;
+	}
+	if (omitted.length > 0) {
+		note += `- Not shown (listed by name only): ${omitted.join(', ')}\n`;
+	}
+	note += `Only describe what is visible in the content above; don't guess what the rest of these files contains.\n\n`;
+	return note;
+}
+
+/**
+ * Get the primary output file (AGENTS.md by default) content from direct sub-folders,
+ * preferring content staged for review over the file on disk
  */
 export async function getSubfolderAgentsDocs(folderNode: FolderNode): Promise<Map<string, string>> {
 	const subfolderDocs = new Map<string, string>();
+	const agentsFileName = getPrimaryOutputPath(folderNode.rootPath);
 	
 	for (const child of folderNode.children) {
-		const agentsPath = path.join(child.path, 'AGENTS.md');
-		if (fs.existsSync(agentsPath)) {
+		const agentsPath = path.join(child.path, agentsFileName);
+		const stagedContent = getStagedOutputContent(agentsPath);
+		if (stagedContent !== undefined || fs.existsSync(agentsPath)) {
 			try {
-				const content = await fs.promises.readFile(agentsPath, 'utf-8');
+				const content = stripFrontMatter(stagedContent ?? await fs.promises.readFile(agentsPath, 'utf-8'));
 				// Keep full content for better context, but still limit for token management
 				const truncatedContent = content.length > 3000 ? content.substring(0, 3000) + '\n... (see full file for more details)' : content;
 				// Store with relative path for redirect links
 				const relativePath = path.relative(folderNode.path, child.path);
 				subfolderDocs.set(relativePath, truncatedContent);
 			} catch (err) {
-				console.error(`Error reading AGENTS.md from ${child.path}:`, err);
+				console.error(`Error reading ${agentsFileName} from ${child.path}:`, err);
 			}
 		}
 	}
@@ -0,0 +1,120 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { selectFolderContext } from './folderAnalyzer';
+import { FolderNode } from './folderScanner';
+import { isOutputFile } from './outputTargets';
+import { getStagedOutputContent, hasStagedOutput } from './stagedGenerations';
+
+/** Hash recorded for entries that are only listed by name in the prompt */
+const LISTED_ONLY_HASH = '';
+
+/**
+ * Content fingerprint of the inputs a folder's AGENTS.md was generated from
+ */
+export interface FolderFingerprint {
+	/** Combined hash of all entries */
+	hash: string;
+	/**
+	 * Entries keyed by path relative to the folder: files whose content is sent to the model,
+	 * direct children listed by name, and the AGENTS.md (primary output) files of the folder's children in the tree
+	 */
+	entries: Record<string, string>;
+}
+
+const fileHashCache = new Map<string, { mtimeMs: number; size: number; hash: string }>();
+
+/**
+ * Compute the fingerprint of the files getFolderStructure feeds the model, plus the child AGENTS.md files
+ * getSubfolderAgentsDocs embeds: those of the node's children, which after collapsing may be deeper than its sub-folders.
+ * Generated output files are excluded so writing them doesn't change the fingerprint.
+ * A child AGENTS.md staged for review is hashed as staged, which is what it will be once accepted.
+ */
+export async function computeFolderFingerprint(folderNode: FolderNode): Promise<FolderFingerprint> {
+	const { path: folderPath, rootPath } = folderNode;
+	const selection = await selectFolderContext(folderPath, rootPath);
+	const entries: Record<string, string> = {};
+
+	for (const dir of selection.directories) {
+		entries[`${dir}/`] = LISTED_ONLY_HASH;
+	}
+	for (const file of selection.files) {
+		if (!isOutputFile(path.join(folderPath, file), rootPath)) {
+			entries[file] = LISTED_ONLY_HASH;
+		}
+	}
+
+	const contentFiles = [
+		...selection.codeFiles,
+		...selection.configFiles,
+		...selection.docFiles
+	];
+	for (const subfolder of selection.subfolders) {
+		// Only whether it exists shows in the listing; the content of those in the tree is hashed below
+		if (subfolder.hasAgentsFile) {
+			entries[`${subfolder.name}/${selection.agentsFileName}`] = LISTED_ONLY_HASH;
+		}
+		contentFiles.push(...subfolder.codeFiles.map(file => `${subfolder.name}/${file}`));
+	}
+	for (const child of folderNode.children) {
+		const agentsPath = path.join(child.path, selection.agentsFileName);
+		if (hasStagedOutput(agentsPath) || fs.existsSync(agentsPath)) {
+			contentFiles.push(path.relative(folderPath, agentsPath).split(path.sep).join('/'));
+		}
+	}
+
+	for (const relativePath of contentFiles) {
+		const filePath = path.join(folderPath, relativePath);
+		const stagedContent = getStagedOutputContent(filePath);
+		entries[relativePath] = stagedContent !== undefined ? hashContent(stagedContent) : await hashFile(filePath);
+	}
+
+	const combined = crypto.createHash('sha256');
+	for (const key of Object.keys(entries).sort()) {
+		combined.update(`${key}\0${entries[key]}\n`);
+	}
+
+	return { hash: combined.digest('hex'), entries };
+}
+
+/**
+ * List entries that were added, removed or modified between two fingerprints
+ */
+export function diffFingerprints(previous: FolderFingerprint, current: FolderFingerprint): string[] {
+	const changed: string[] = [];
+
+	for (const [key, hash] of Object.entries(current.entries)) {
+		if (!(key in previous.entries)) {
+			changed.push(`+ ${key}`);
+		} else if (previous.entries[key] !== hash) {
+			changed.push(`~ ${key}`);
+		}
+	}
+	for (const key of Object.keys(previous.entries)) {
+		if (!(key in current.entries)) {
+			changed.push(`- ${key}`);
+		}
+	}
+
+	return changed.sort((a, b) => a.substring(2).localeCompare(b.substring(2)));
+}
+
+async function hashFile(filePath: string): Promise<string> {
+	try {
+		const stat = await fs.promises.stat(filePath);
+		const cached = fileHashCache.get(filePath);
+		if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+			return cached.hash;
+		}
+
+		const hash = hashContent(await fs.promises.readFile(filePath));
+		fileHashCache.set(filePath, { mtimeMs: stat.mtimeMs, size: stat.size, hash });
+		return hash;
+	} catch (error) {
+		return 'unreadable';
+	}
+}
+
+function hashContent(content: string | Buffer): string {
+	return crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+}
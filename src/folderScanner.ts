@@ -1,39 +1,223 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { shouldIgnoreFolder } from './ignoreConfig';
+import { IgnoreFileRule, loadIgnoreFileRules } from './ignoreFileRules';
+import { AGENTSMD_DATA_FOLDER } from './generationManifest';
+import { isOutputDirectory, isOutputFile } from './outputTargets';
+import { getGenerationConfig } from './generationConfig';
+import { classifyFile } from './fileClassification';
+import { isDeniedFile } from './secretRedaction';
+import { FolderScopeConfig, getFolderScope, matchesIncludePattern, mayContainIncludedFolders } from './folderScope';
 
 export interface FolderNode {
 	path: string;
 	name: string;
+	/** Workspace folder this node was scanned from */
+	rootPath: string;
 	children: FolderNode[];
+	/**
+	 * Outside the folder scope: an ancestor of scoped folders, or a sub-folder below the maximum depth,
+	 * kept so parents and sub-folder docs stay linked but neither documented nor listed
+	 */
+	outOfScope?: boolean;
 }
 
-let workspaceRoot: string | undefined;
+/**
+ * A folder left out of documentation by the folder rules
+ */
+export interface SkippedFolder {
+	path: string;
+	rootPath: string;
+	/** Relative to the workspace folder */
+	relativePath: string;
+	reason: string;
+}
+
+/**
+ * Files of a folder itself whose content would be sent to the model
+ */
+interface FolderFileCounts {
+	files: number;
+	codeFiles: number;
+}
+
+// Folders skipped by the last scan, per workspace folder
+const skippedFolders = new Map<string, SkippedFolder[]>();
+
+/**
+ * Scan a workspace folder into a tree of the folders to document.
+ * Only folders matching the scope's include patterns (and everything below them) down to its maximum depth are
+ * documented; folders that can't contain any of them aren't scanned at all.
+ * Folders with fewer files than the generation settings require are skipped when they have no sub-folders to
+ * summarize, and with collapseChains a chain of such folders that each contain a single sub-folder
+ * (e.g. src/main/java/com/acme) is documented only at its deepest folder, which becomes the child of the chain's parent.
+ */
+export async function buildFolderTree(rootPath: string, scope: FolderScopeConfig = getFolderScope(rootPath)): Promise<FolderNode> {
+	const counts = new Map<string, FolderFileCounts>();
+	const rootNode = await buildFolderNode(rootPath, rootPath, [], counts, scope, undefined);
+
+	const skipped: SkippedFolder[] = [];
+	rootNode.children = rootNode.children
+		.map(child => applyFolderRules(child, counts, skipped))
+		.filter((child): child is FolderNode => child !== undefined);
+	skippedFolders.set(rootPath, skipped.sort((a, b) => a.relativePath.localeCompare(b.relativePath)));
+
+	return rootNode;
+}
+
+/**
+ * Scan the folders containing created or deleted directories again and patch the tree in place.
+ * The nearest folder of the tree above each directory gets fresh sub-folders, with the scope and the folder rules
+ * applied to them; whether that folder itself is skipped or collapsed is only decided again by a full scan.
+ * @returns The folders whose sub-folders were replaced
+ */
+export async function rescanFolders(
+	rootNode: FolderNode,
+	directoryPaths: string[],
+	scope: FolderScopeConfig = getFolderScope(rootNode.rootPath)
+): Promise<FolderNode[]> {
+	const rootPath = rootNode.rootPath;
+	const targets = new Set<FolderNode>();
+	for (const directoryPath of directoryPaths) {
+		const target = findFolderChain(rootNode, path.dirname(directoryPath)).pop();
+		if (target) {
+			targets.add(target);
+		}
+	}
+	// Rescanning a folder covers the changes below it
+	const outermost = [...targets].filter(target =>
+		![...targets].some(other => other !== target && isWithinFolder(other.path, target.path)));
+
+	let skipped = skippedFolders.get(rootPath) ?? [];
+	for (const target of outermost) {
+		const { inheritedRules, parentIncludeDepth } = await getScanContext(target.path, rootPath, scope);
+		const counts = new Map<string, FolderFileCounts>();
+		const fresh = await buildFolderNode(target.path, rootPath, inheritedRules, counts, scope, parentIncludeDepth);
+
+		const freshSkipped: SkippedFolder[] = [];
+		target.children = fresh.children
+			.map(child => applyFolderRules(child, counts, freshSkipped))
+			.filter((child): child is FolderNode => child !== undefined);
+		skipped = [
+			...skipped.filter(folder => folder.path === target.path || !isWithinFolder(target.path, folder.path)),
+			...freshSkipped
+		];
+	}
+	skippedFolders.set(rootPath, skipped.sort((a, b) => a.relativePath.localeCompare(b.relativePath)));
+
+	return outermost;
+}
+
+/**
+ * The folders of a tree containing a path, from the workspace folder down to the nearest one; empty when the path is outside the tree
+ */
+export function findFolderChain(rootNode: FolderNode, targetPath: string): FolderNode[] {
+	const chain: FolderNode[] = [];
+	let node: FolderNode | undefined = isWithinFolder(rootNode.path, targetPath) ? rootNode : undefined;
+	while (node) {
+		chain.push(node);
+		node = node.children.find(child => isWithinFolder(child.path, targetPath));
+	}
+	return chain;
+}
+
+/**
+ * Folders skipped by the last scan of every workspace folder
+ */
+export function getSkippedFolders(): SkippedFolder[] {
+	return [...skippedFolders.values()].flat();
+}
+
+/**
+ * The ignore file rules and include depth a folder inherits from its ancestors, as a full scan would pass them down
+ */
+async function getScanContext(
+	folderPath: string,
+	rootPath: string,
+	scope: FolderScopeConfig
+): Promise<{ inheritedRules: IgnoreFileRule[]; parentIncludeDepth: number | undefined }> {
+	const inheritedRules: IgnoreFileRule[] = [];
+	let parentIncludeDepth: number | undefined;
+	let ancestorPath = rootPath;
+	for (const segment of path.relative(rootPath, folderPath).split(path.sep).filter(Boolean)) {
+		const relativePath = path.relative(rootPath, ancestorPath);
+		inheritedRules.push(...await loadIgnoreFileRules(ancestorPath, relativePath));
+		parentIncludeDepth = getIncludeDepth(relativePath, scope, parentIncludeDepth);
+		ancestorPath = path.join(ancestorPath, segment);
+	}
+	return { inheritedRules, parentIncludeDepth };
+}
+
+/**
+ * Depth of the nearest folder at or above a folder matching an include pattern (the folder's own depth without patterns)
+ */
+function getIncludeDepth(relativePath: string, scope: FolderScopeConfig, parentIncludeDepth: number | undefined): number | undefined {
+	const scopePath = relativePath.split(path.sep).join('/');
+	const depth = scopePath ? scopePath.split('/').length : 0;
+	return scope.include.length === 0 || matchesIncludePattern(scopePath, scope.include) ? depth : parentIncludeDepth;
+}
 
-export async function buildFolderTree(rootPath: string): Promise<FolderNode> {
-	workspaceRoot = rootPath;
-	return buildFolderNode(rootPath);
+function isWithinFolder(folderPath: string, candidatePath: string): boolean {
+	return candidatePath === folderPath || candidatePath.startsWith(folderPath + path.sep);
 }
 
-async function buildFolderNode(folderPath: string): Promise<FolderNode> {
+/**
+ * @param parentIncludeDepth Depth of the nearest ancestor matching an include pattern, undefined when there is none
+ */
+async function buildFolderNode(
+	folderPath: string,
+	rootPath: string,
+	inheritedRules: IgnoreFileRule[],
+	counts: Map<string, FolderFileCounts>,
+	scope: FolderScopeConfig,
+	parentIncludeDepth: number | undefined
+): Promise<FolderNode> {
 	const node: FolderNode = {
 		path: folderPath,
 		name: path.basename(folderPath),
+		rootPath,
 		children: []
 	};
 
+	const relativeFolderPath = path.relative(rootPath, folderPath);
+	const scopePath = relativeFolderPath.split(path.sep).join('/');
+	const depth = scopePath ? scopePath.split('/').length : 0;
+	const includeDepth = getIncludeDepth(relativeFolderPath, scope, parentIncludeDepth);
+	const scopeDepth = depth - (scope.depthFrom === 'root' ? 0 : includeDepth ?? 0);
+	const inScope = includeDepth !== undefined && (scope.maxDepth === 0 || scopeDepth <= scope.maxDepth);
+	if (!inScope) {
+		node.outOfScope = true;
+	}
+	// Sub-folders of scoped folders are always read, to link them; others only when they may lead to scoped folders
+	const scanChildren = inScope || mayContainIncludedFolders(scopePath, scope.include);
+
 	try {
 		const entries = await fs.promises.readdir(folderPath, { withFileTypes: true });
+		// Rules from this folder's .gitignore/.agentsignore apply to everything below it
+		const ignoreFileRules = [...inheritedRules, ...await loadIgnoreFileRules(folderPath, relativeFolderPath)];
+
+		const fileCounts: FolderFileCounts = { files: 0, codeFiles: 0 };
+		counts.set(folderPath, fileCounts);
 
 		for (const entry of entries) {
-			if (entry.isDirectory()) {
+			if (!entry.isDirectory()) {
+				const filePath = path.join(folderPath, entry.name);
+				const category = classifyFile(entry.name, rootPath)?.category;
+				const isInput = category === 'code' || category === 'config' || category === 'doc';
+				if (isInput && !isOutputFile(filePath, rootPath) && !isDeniedFile(path.relative(rootPath, filePath), rootPath)) {
+					fileCounts.files++;
+					fileCounts.codeFiles += category === 'code' ? 1 : 0;
+				}
+			} else if (entry.name !== AGENTSMD_DATA_FOLDER && scanChildren) {
 				const childPath = path.join(folderPath, entry.name);
 				// Get relative path from workspace root for pattern matching
-				const relativePath = workspaceRoot ? path.relative(workspaceRoot, childPath) : entry.name;
-				
-				if (!shouldIgnoreFolder(entry.name, relativePath)) {
-					const childNode = await buildFolderNode(childPath);
-					node.children.push(childNode);
+				const relativePath = path.relative(rootPath, childPath);
+		
+				if (!shouldIgnoreFolder(entry.name, relativePath, ignoreFileRules, rootPath) && !isOutputDirectory(childPath, rootPath)) {
+					const childNode = await buildFolderNode(childPath, rootPath, ignoreFileRules, counts, scope, includeDepth);
+					if (inScope || containsScopedFolder(childNode)) {
+						node.children.push(childNode);
+					}
 				}
 			}
 		}
@@ -44,11 +228,71 @@ async function buildFolderNode(folderPath: string): Promise<FolderNode> {
 	return node;
 }
 
+/**
+ * Apply the folder rules below a node, deepest first; returns the node, the folder that replaces it or undefined when it is skipped
+ */
+function applyFolderRules(node: FolderNode, counts: Map<string, FolderFileCounts>, skipped: SkippedFolder[]): FolderNode | undefined {
+	node.children = node.children
+		.map(child => applyFolderRules(child, counts, skipped))
+		.filter((child): child is FolderNode => child !== undefined);
+	if (node.outOfScope) {
+		return node;
+	}
+
+	const reason = getTrivialFolderReason(counts.get(node.path) ?? { files: 0, codeFiles: 0 });
+	const skip = (why: string) => skipped.push({
+		path: node.path,
+		rootPath: node.rootPath,
+		relativePath: path.relative(node.rootPath, node.path),
+		reason: why
+	});
+
+	if (!reason) {
+		return node;
+	}
+	if (node.children.length === 0) {
+		skip(reason);
+		return undefined;
+	}
+	if (node.children.length === 1 && containsScopedFolder(node.children[0]) && getGenerationConfig().collapseChains) {
+		const child = node.children[0];
+		skip(`Pass-through folder, documented in ${path.relative(node.rootPath, child.path)}`);
+		return child;
+	}
+	// Folders summarizing several sub-folders are kept
+	return node;
+}
+
+/**
+ * Why a folder has too little of its own to be documented, or undefined when it has enough
+ */
+function getTrivialFolderReason(counts: FolderFileCounts): string | undefined {
+	const { minFiles, minCodeFiles } = getGenerationConfig();
+	if (counts.files < minFiles) {
+		return counts.files === 0
+			? 'No code, configuration or documentation files'
+			: `${counts.files} file(s), fewer than the minimum of ${minFiles}`;
+	}
+	if (counts.codeFiles < minCodeFiles) {
+		return `${counts.codeFiles} code file(s), fewer than the minimum of ${minCodeFiles}`;
+	}
+	return undefined;
+}
+
+function containsScopedFolder(node: FolderNode): boolean {
+	return !node.outOfScope || node.children.some(containsScopedFolder);
+}
+
+/**
+ * The folders to document, deepest first; folders outside the scope are left out
+ */
 export function flattenFoldersByDepth(rootNode: FolderNode): FolderNode[] {
 	const folders: FolderNode[] = [];
 
 	const collect = (node: FolderNode) => {
-		folders.push(node);
+		if (!node.outOfScope) {
+			folders.push(node);
+		}
 		node.children.forEach(collect);
 	};
 
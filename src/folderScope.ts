@@ -0,0 +1,129 @@
+/**
+ * Which folders of a workspace folder are documented and listed in the portal.
+ *
+ * Include patterns are globs (see globToRegExp) matched against folder paths relative to the workspace folder,
+ * e.g. "packages/*" or "services/**"; a matching folder and everything below it are in scope, and without
+ * patterns the whole workspace folder is. maxDepth limits how many levels below the workspace folder,
+ * or below each included folder, are documented (0 for no limit).
+ */
+
+import { globToRegExp } from './ignoreFileRules';
+
+export type DepthBase = 'root' | 'include';
+
+export interface FolderScopeConfig {
+	include: string[];
+	maxDepth: number;
+	/** Whether maxDepth counts from the workspace folder or from each folder matching an include pattern */
+	depthFrom: DepthBase;
+}
+
+export const DEPTH_BASES: DepthBase[] = ['root', 'include'];
+
+export const DEFAULT_FOLDER_SCOPE: FolderScopeConfig = {
+	include: [],
+	maxDepth: 0,
+	depthFrom: 'include'
+};
+
+// Runtime configuration - updated from user settings
+let runtimeFolderScope: FolderScopeConfig = { ...DEFAULT_FOLDER_SCOPE };
+
+// Settings from workspace configuration files (.agentsmd.json), keyed by workspace folder path
+const fileFolderScopes = new Map<string, Partial<FolderScopeConfig>>();
+
+/**
+ * Update the runtime folder scope
+ */
+export function updateFolderScope(config: FolderScopeConfig): void {
+	runtimeFolderScope = { ...DEFAULT_FOLDER_SCOPE, ...config, include: [...config.include] };
+}
+
+/**
+ * Set (or remove, when undefined) the folder scope a workspace folder's configuration file defines
+ */
+export function updateFileFolderScope(rootPath: string, config: Partial<FolderScopeConfig> | undefined): void {
+	if (config) {
+		fileFolderScopes.set(rootPath, config);
+	} else {
+		fileFolderScopes.delete(rootPath);
+	}
+}
+
+/**
+ * Get the folder scope in effect for a workspace folder
+ */
+export function getFolderScope(rootPath?: string): FolderScopeConfig {
+	const fileConfig = rootPath ? fileFolderScopes.get(rootPath) : undefined;
+	return {
+		include: [...(fileConfig?.include ?? runtimeFolderScope.include)],
+		maxDepth: fileConfig?.maxDepth ?? runtimeFolderScope.maxDepth,
+		depthFrom: fileConfig?.depthFrom ?? runtimeFolderScope.depthFrom
+	};
+}
+
+/**
+ * Get the effective scope of every workspace folder whose configuration file defines one
+ */
+export function getFileFolderScopes(): Record<string, FolderScopeConfig> {
+	const configs: Record<string, FolderScopeConfig> = {};
+	for (const rootPath of fileFolderScopes.keys()) {
+		configs[rootPath] = getFolderScope(rootPath);
+	}
+	return configs;
+}
+
+/**
+ * Check a folder scope, returning the problems found
+ */
+export function validateFolderScope(config: Partial<FolderScopeConfig>): string[] {
+	const errors: string[] = [];
+	for (const pattern of config.include ?? []) {
+		const normalized = pattern.replace(/\\/g, '/');
+		if (!normalized.trim() || normalized.startsWith('/') || normalized.split('/').includes('..')) {
+			errors.push(`"${pattern}" must be a folder pattern relative to the workspace folder`);
+		}
+	}
+	if (config.maxDepth !== undefined && (!Number.isInteger(config.maxDepth) || config.maxDepth < 0)) {
+		errors.push('The maximum depth must be 0 (no limit) or a positive whole number');
+	}
+	if (config.depthFrom !== undefined && !DEPTH_BASES.includes(config.depthFrom)) {
+		errors.push(`Unknown depth base "${config.depthFrom}"`);
+	}
+	return errors;
+}
+
+/**
+ * Whether a folder matches one of the include patterns
+ * @param relativePath Relative to the workspace folder, using forward slashes
+ */
+export function matchesIncludePattern(relativePath: string, patterns: string[]): boolean {
+	return patterns.some(pattern => globToRegExp(normalizePattern(pattern)).test(relativePath));
+}
+
+/**
+ * Whether folders below a folder may match one of the include patterns, so it has to be scanned
+ * @param relativePath Relative to the workspace folder, using forward slashes ('' for the workspace folder)
+ */
+export function mayContainIncludedFolders(relativePath: string, patterns: string[]): boolean {
+	const segments = relativePath ? relativePath.split('/') : [];
+	return patterns.some(pattern => {
+		const patternSegments = normalizePattern(pattern).split('/');
+		for (let i = 0; i < segments.length; i++) {
+			if (patternSegments[i] === undefined) {
+				return false;
+			}
+			if (patternSegments[i].includes('**')) {
+				return true;
+			}
+			if (!globToRegExp(patternSegments[i]).test(segments[i])) {
+				return false;
+			}
+		}
+		return patternSegments.length > segments.length;
+	});
+}
+
+function normalizePattern(pattern: string): string {
+	return pattern.replace(/\\/g, '/').replace(/^\.\/|\/$/g, '');
+}
@@ -0,0 +1,102 @@
+/**
+ * How an existing AGENTS.md is combined with newly generated content:
+ * - 'sections' replaces the template's sections and keeps custom ones, without calling the model
+ * - 'llm' asks the model to merge both documents
+ */
+export type MergeStrategy = 'sections' | 'llm';
+
+export const MERGE_STRATEGIES: MergeStrategy[] = ['sections', 'llm'];
+
+/**
+ * What happens when generated content mentions symbols or paths that don't exist in the folder:
+ * - 'off' skips the check
+ * - 'warn' keeps the content and shows the unknown references in the portal
+ * - 'strip' removes the list items and sentences that mention them
+ * - 'reprompt' asks the model once to correct the content, then warns about anything left
+ */
+export type ReferenceCheckMode = 'off' | 'warn' | 'strip' | 'reprompt';
+
+export const REFERENCE_CHECK_MODES: ReferenceCheckMode[] = ['off', 'warn', 'strip', 'reprompt'];
+
+/**
+ * Options controlling how AGENTS.md files are generated and written.
+ */
+export interface GenerationConfig {
+	/** Write a placeholder AGENTS.md when generation fails for a folder that has no AGENTS.md yet */
+	writePlaceholderOnFailure: boolean;
+	/** Maximum number of folders generated at the same time (parents still wait for their children) */
+	maxConcurrency: number;
+	/** Stage generated content for review in the portal instead of writing it */
+	reviewBeforeWriting: boolean;
+	mergeStrategy: MergeStrategy;
+	referenceCheck: ReferenceCheckMode;
+	/** Folders with fewer code, configuration and documentation files of their own are skipped unless they summarize sub-folders */
+	minFiles: number;
+	/** Folders with fewer code files of their own are skipped unless they summarize sub-folders */
+	minCodeFiles: number;
+	/** Document a chain of folders that each only contain one sub-folder at its deepest folder */
+	collapseChains: boolean;
+	/** Times a request failing with a rate limit or network error is sent again to the same model */
+	maxRetries: number;
+	/** Model IDs tried in order when the selected model is unavailable or keeps failing */
+	fallbackModels: string[];
+	/** Try the preferred models (claude-sonnet-4.5, gpt-5-codex, auto) after the fallback models, even if they come from another provider */
+	fallbackToPreferredModels: boolean;
+}
+
+export const MAX_CONCURRENCY_LIMIT = 16;
+
+export const MAX_RETRIES_LIMIT = 10;
+
+export const DEFAULT_GENERATION_CONFIG: GenerationConfig = {
+	writePlaceholderOnFailure: false,
+	maxConcurrency: 3,
+	reviewBeforeWriting: false,
+	mergeStrategy: 'sections',
+	referenceCheck: 'warn',
+	minFiles: 0,
+	minCodeFiles: 0,
+	collapseChains: false,
+	maxRetries: 3,
+	fallbackModels: [],
+	fallbackToPreferredModels: false
+};
+
+// Runtime configuration
+let runtimeGenerationConfig: GenerationConfig = { ...DEFAULT_GENERATION_CONFIG };
+
+/**
+ * Update the runtime generation configuration
+ */
+export function updateGenerationConfig(config: Partial<GenerationConfig>): void {
+	const merged = { ...DEFAULT_GENERATION_CONFIG, ...config };
+	const maxConcurrency = Number(merged.maxConcurrency);
+	merged.maxConcurrency = Number.isFinite(maxConcurrency)
+		? Math.min(MAX_CONCURRENCY_LIMIT, Math.max(1, Math.floor(maxConcurrency)))
+		: DEFAULT_GENERATION_CONFIG.maxConcurrency;
+	if (!MERGE_STRATEGIES.includes(merged.mergeStrategy)) {
+		merged.mergeStrategy = DEFAULT_GENERATION_CONFIG.mergeStrategy;
+	}
+	if (!REFERENCE_CHECK_MODES.includes(merged.referenceCheck)) {
+		merged.referenceCheck = DEFAULT_GENERATION_CONFIG.referenceCheck;
+	}
+	merged.minFiles = toFileCount(merged.minFiles, DEFAULT_GENERATION_CONFIG.minFiles);
+	merged.minCodeFiles = toFileCount(merged.minCodeFiles, DEFAULT_GENERATION_CONFIG.minCodeFiles);
+	merged.maxRetries = Math.min(MAX_RETRIES_LIMIT, toFileCount(merged.maxRetries, DEFAULT_GENERATION_CONFIG.maxRetries));
+	merged.fallbackModels = Array.isArray(merged.fallbackModels)
+		? merged.fallbackModels.filter((modelId): modelId is string => typeof modelId === 'string' && modelId.trim() !== '').map(modelId => modelId.trim())
+		: [];
+	runtimeGenerationConfig = merged;
+}
+
+/**
+ * Get current generation configuration
+ */
+export function getGenerationConfig(): GenerationConfig {
+	return { ...runtimeGenerationConfig, fallbackModels: [...runtimeGenerationConfig.fallbackModels] };
+}
+
+function toFileCount(value: unknown, fallback: number): number {
+	const count = Number(value);
+	return Number.isFinite(count) ? Math.max(0, Math.floor(count)) : fallback;
+}
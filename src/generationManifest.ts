@@ -0,0 +1,191 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FolderFingerprint } from './folderFingerprint';
+import { FolderStatusEntry, GenerationStatus } from './statusTypes';
+
+/**
+ * Folder holding the extension's workspace data (ignored by the folder scanner).
+ * Its files are meant to be committed so generation history survives reloads, clones and checkouts.
+ */
+export const AGENTSMD_DATA_FOLDER = '.agentsmd';
+const MANIFEST_FILE_NAME = 'manifest.json';
+const MANIFEST_VERSION = 1;
+/** Fingerprint store written by earlier versions, before generation details were persisted too */
+const LEGACY_FINGERPRINT_FILE_NAME = 'fingerprints.json';
+
+/**
+ * Per-folder record persisted in the manifest
+ */
+export interface ManifestFolderEntry extends FolderStatusEntry {
+	/** Fingerprint of the inputs the current AGENTS.md was generated from */
+	fingerprint?: FolderFingerprint;
+	/**
+	 * Output files written for the folder, keyed by path relative to the workspace root,
+	 * with the fingerprint hash of the inputs each one was generated from
+	 */
+	outputs?: Record<string, string>;
+}
+
+interface ManifestFile {
+	version: number;
+	/** Keyed by folder path relative to the workspace root, using forward slashes ('.' for the root) */
+	folders: Record<string, ManifestFolderEntry>;
+}
+
+const manifests = new Map<string, ManifestFile>();
+let pendingSave: Promise<void> = Promise.resolve();
+
+/**
+ * Load (or reload) the manifest of a workspace root
+ */
+export async function loadManifest(rootPath: string): Promise<void> {
+	// Don't let a reload race with entries still being written
+	await pendingSave;
+
+	const filePath = path.join(rootPath, AGENTSMD_DATA_FOLDER, MANIFEST_FILE_NAME);
+	let manifest: ManifestFile = { version: MANIFEST_VERSION, folders: {} };
+
+	try {
+		const parsed = JSON.parse(await fs.promises.readFile(filePath, 'utf-8'));
+		if (parsed && typeof parsed.folders === 'object') {
+			manifest = { version: MANIFEST_VERSION, folders: parsed.folders };
+		}
+	} catch (error) {
+		// Manifest might not exist yet – that's acceptable
+	}
+
+	// A run interrupted by a reload never finished, so its folders haven't been generated
+	for (const entry of Object.values(manifest.folders)) {
+		if (entry.status === GenerationStatus.InProgress) {
+			entry.status = GenerationStatus.NotStarted;
+		}
+	}
+
+	manifests.set(rootPath, manifest);
+	await migrateLegacyFingerprints(rootPath, manifest);
+}
+
+/**
+ * Move the fingerprints of an older fingerprints.json into the manifest and delete it, so only one store is committed
+ */
+async function migrateLegacyFingerprints(rootPath: string, manifest: ManifestFile): Promise<void> {
+	const legacyFilePath = path.join(rootPath, AGENTSMD_DATA_FOLDER, LEGACY_FINGERPRINT_FILE_NAME);
+	let legacyFolders: Record<string, FolderFingerprint & { generatedAt?: string }>;
+	try {
+		const parsed = JSON.parse(await fs.promises.readFile(legacyFilePath, 'utf-8'));
+		legacyFolders = parsed && typeof parsed.folders === 'object' ? parsed.folders : {};
+	} catch (error) {
+		// Nothing to migrate unless the file exists and is valid
+		return;
+	}
+
+	for (const [key, { hash, entries, generatedAt }] of Object.entries(legacyFolders)) {
+		if (!manifest.folders[key]) {
+			manifest.folders[key] = { status: GenerationStatus.Completed, generatedAt, fingerprint: { hash, entries } };
+		} else if (!manifest.folders[key].fingerprint) {
+			manifest.folders[key].fingerprint = { hash, entries };
+		}
+	}
+
+	pendingSave = pendingSave
+		.then(() => saveManifest(rootPath))
+		.then(() => fs.promises.unlink(legacyFilePath))
+		.catch((error) => {
+			console.error('Error migrating AGENTS.md fingerprints to the manifest:', error);
+		});
+	await pendingSave;
+}
+
+/**
+ * Get the persisted record of a folder
+ */
+export function getManifestEntry(folderPath: string): ManifestFolderEntry | undefined {
+	const location = locateFolder(folderPath);
+	return location ? location.manifest.folders[location.key] : undefined;
+}
+
+/**
+ * Get the persisted status of a folder, without its fingerprint
+ */
+export function getPersistedStatusEntry(folderPath: string): FolderStatusEntry | undefined {
+	const entry = getManifestEntry(folderPath);
+	if (!entry) {
+		return undefined;
+	}
+	const { fingerprint: _fingerprint, outputs: _outputs, ...statusEntry } = entry;
+	return statusEntry;
+}
+
+/**
+ * Replace the persisted record of a folder and save the manifest.
+ * The stored fingerprint and outputs are kept unless new ones are given, since a failed attempt leaves AGENTS.md unchanged.
+ */
+export async function updateManifestEntry(
+	folderPath: string,
+	entry: FolderStatusEntry,
+	fingerprint?: FolderFingerprint,
+	outputFiles?: string[]
+): Promise<void> {
+	const location = locateFolder(folderPath);
+	if (!location) {
+		return;
+	}
+
+	const previous = location.manifest.folders[location.key];
+	let outputs = previous?.outputs;
+	if (fingerprint && outputFiles) {
+		outputs = {};
+		for (const filePath of outputFiles) {
+			outputs[path.relative(location.rootPath, filePath).split(path.sep).join('/')] = fingerprint.hash;
+		}
+	}
+
+	location.manifest.folders[location.key] = {
+		...entry,
+		fingerprint: fingerprint ?? previous?.fingerprint,
+		outputs
+	};
+
+	// Serialize writes: several folders may finish at the same time
+	pendingSave = pendingSave.then(() => saveManifest(location.rootPath)).catch((error) => {
+		console.error('Error saving AGENTS.md manifest:', error);
+	});
+	await pendingSave;
+}
+
+async function saveManifest(rootPath: string): Promise<void> {
+	const manifest = manifests.get(rootPath);
+	if (!manifest) {
+		return;
+	}
+
+	const dataFolderPath = path.join(rootPath, AGENTSMD_DATA_FOLDER);
+	await fs.promises.mkdir(dataFolderPath, { recursive: true });
+
+	// Sorted keys keep diffs of the committed manifest small
+	const sortedFolders: Record<string, ManifestFolderEntry> = {};
+	for (const key of Object.keys(manifest.folders).sort()) {
+		sortedFolders[key] = manifest.folders[key];
+	}
+	const content = JSON.stringify({ version: manifest.version, folders: sortedFolders }, null, '\t') + '\n';
+	await fs.promises.writeFile(path.join(dataFolderPath, MANIFEST_FILE_NAME), content, 'utf-8');
+}
+
+/**
+ * Find the loaded workspace root containing a folder (the deepest one wins)
+ */
+function locateFolder(folderPath: string): { rootPath: string; key: string; manifest: ManifestFile } | undefined {
+	let match: { rootPath: string; key: string; manifest: ManifestFile } | undefined;
+
+	for (const [rootPath, manifest] of manifests) {
+		const relative = path.relative(rootPath, folderPath);
+		if (relative.startsWith('..') || path.isAbsolute(relative)) {
+			continue;
+		}
+		if (!match || rootPath.length > match.rootPath.length) {
+			match = { rootPath, key: relative === '' ? '.' : relative.split(path.sep).join('/'), manifest };
+		}
+	}
+
+	return match;
+}
@@ -0,0 +1,58 @@
+import { FolderNode } from './folderScanner';
+import { CancellationToken } from './cancellation';
+import { generateAgentsMdForFolder, GenerationResult } from './documentationGenerator';
+import { getGenerationConfig } from './generationConfig';
+import { runFoldersLeafToRoot } from './generationScheduler';
+import { updateManifestEntry } from './generationManifest';
+import { buildImportGraph } from './importGraph';
+import { FolderStatusEntry, GenerationStatus } from './statusTypes';
+
+/**
+ * Resolve the imports of every workspace folder the given folders belong to
+ * @param discoveredFolders Every folder of the workspace; a workspace folder's graph covers all of its folders
+ */
+export async function buildImportGraphs(folders: FolderNode[], discoveredFolders: FolderNode[]): Promise<void> {
+	for (const rootPath of new Set(folders.map(folder => folder.rootPath))) {
+		try {
+			await buildImportGraph(rootPath, discoveredFolders.filter(folder => folder.rootPath === rootPath).map(folder => folder.path));
+		} catch (error) {
+			console.error(`Error building the import graph of ${rootPath}:`, error);
+		}
+	}
+}
+
+/**
+ * Generate folders leaf to root, running independent folders concurrently up to the configured limit.
+ * onStarted is awaited before each folder is generated and onFinished with its result; no folder starts after cancellation.
+ */
+export async function generateFolders(
+	folders: FolderNode[],
+	selectedModelId: string | undefined,
+	token: CancellationToken,
+	onStarted: (folderNode: FolderNode) => Promise<void>,
+	onFinished: (folderNode: FolderNode, result: GenerationResult) => Promise<void>
+): Promise<void> {
+	await runFoldersLeafToRoot(folders, getGenerationConfig().maxConcurrency, async (folderNode) => {
+		await onStarted(folderNode);
+		const result = await generateAgentsMdForFolder(folderNode, selectedModelId, token);
+		await onFinished(folderNode, result);
+	}, () => token.isCancellationRequested);
+}
+
+/**
+ * Record a folder's written (or failed) generation in the manifest, returning its new status entry.
+ * A failed attempt leaves the previous AGENTS.md in place, so the details of the generation that produced it are kept.
+ */
+export async function recordFolderGeneration(
+	folderPath: string,
+	previous: FolderStatusEntry | undefined,
+	result: GenerationResult
+): Promise<FolderStatusEntry> {
+	const entry: FolderStatusEntry = result.success
+		? { status: GenerationStatus.Completed, ...result.metadata }
+		: { ...previous, status: GenerationStatus.Failed, error: result.error };
+	entry.lastAttemptAt = new Date().toISOString();
+
+	await updateManifestEntry(folderPath, entry, result.fingerprint, result.outputFiles);
+	return entry;
+}
@@ -0,0 +1,65 @@
+import { FolderNode } from './folderScanner';
+
+/**
+ * Run a task for each folder, respecting the leaf-to-root dependency order.
+ *
+ * The folders form a DAG through `FolderNode.children`: a folder starts only after all of its
+ * own children that are part of this run have finished, so `getSubfolderAgentsDocs` always sees
+ * freshly written child docs. Independent folders run concurrently, up to `concurrency` at a time.
+ * Once `shouldStop` returns true no new tasks are started; in-flight tasks are awaited.
+ */
+export async function runFoldersLeafToRoot(
+	folders: FolderNode[],
+	concurrency: number,
+	task: (folder: FolderNode) => Promise<void>,
+	shouldStop: () => boolean = () => false
+): Promise<void> {
+	const scheduledPaths = new Set(folders.map((folder) => folder.path));
+	const pendingChildCounts = new Map<string, number>();
+	const parentByPath = new Map<string, FolderNode>();
+
+	for (const folder of folders) {
+		const scheduledChildren = folder.children.filter((child) => scheduledPaths.has(child.path));
+		pendingChildCounts.set(folder.path, scheduledChildren.length);
+		for (const child of scheduledChildren) {
+			parentByPath.set(child.path, folder);
+		}
+	}
+
+	// Input order is preserved among ready folders (callers pass them deepest first)
+	const ready = folders.filter((folder) => pendingChildCounts.get(folder.path) === 0);
+	const limit = Math.max(1, Math.floor(concurrency));
+	let running = 0;
+
+	await new Promise<void>((resolve) => {
+		const launchReady = () => {
+			while (running < limit && ready.length > 0 && !shouldStop()) {
+				const folder = ready.shift()!;
+				running++;
+
+				task(folder)
+					.catch((error) => {
+						console.error(`Error processing folder ${folder.path}:`, error);
+					})
+					.finally(() => {
+						running--;
+						const parent = parentByPath.get(folder.path);
+						if (parent) {
+							const remaining = (pendingChildCounts.get(parent.path) ?? 1) - 1;
+							pendingChildCounts.set(parent.path, remaining);
+							if (remaining === 0) {
+								ready.push(parent);
+							}
+						}
+						launchReady();
+					});
+			}
+
+			if (running === 0) {
+				resolve();
+			}
+		};
+
+		launchReady();
+	});
+}
@@ -4,8 +4,13 @@
  * Add new patterns here to exclude additional folders from documentation generation.
  * Patterns are matched against folder names (case-sensitive by default on Linux/Mac,
  * case-insensitive on Windows).
+ *
+ * .gitignore and .agentsignore files found while scanning are applied on top of
+ * these settings (see ignoreFileRules.ts).
  */
 
+import { IgnoreFileRule, matchIgnoreFileRules } from './ignoreFileRules';
+
 /**
  * Default list of folder names to ignore.
  * These are exact matches against folder names.
@@ -99,42 +104,105 @@ export const DEFAULT_IGNORED_FOLDER_PATTERNS = [
 	'.vs*', // Matches .vs, .vscode-server, etc.
 ];
 
+export interface IgnoreConfig {
+	names: string[];
+	patterns: string[];
+}
+
 // Runtime configuration - these will be updated from user settings
 let runtimeIgnoredFolderNames: string[] = [...DEFAULT_IGNORED_FOLDER_NAMES];
 let runtimeIgnoredFolderPatterns: string[] = [...DEFAULT_IGNORED_FOLDER_PATTERNS];
 
+// Per-root overrides for multi-root workspaces, keyed by workspace folder path
+const runtimeRootIgnoreConfigs = new Map<string, IgnoreConfig>();
+
+// Settings from workspace configuration files (.agentsmd.json), keyed by workspace folder path.
+// They take precedence over everything stored in global state.
+const fileIgnoreConfigs = new Map<string, Partial<IgnoreConfig>>();
+
 /**
- * Update the runtime ignore configuration
+ * Update the runtime ignore configuration, globally or for a single workspace folder
  */
-export function updateIgnoreConfig(names: string[], patterns: string[]): void {
+export function updateIgnoreConfig(names: string[], patterns: string[], rootPath?: string): void {
+	if (rootPath) {
+		runtimeRootIgnoreConfigs.set(rootPath, { names: [...names], patterns: [...patterns] });
+		return;
+	}
 	runtimeIgnoredFolderNames = names;
 	runtimeIgnoredFolderPatterns = patterns;
 }
 
 /**
- * Get current ignore configuration
+ * Remove a workspace folder's override so it uses the global configuration again
+ */
+export function clearRootIgnoreConfig(rootPath: string): void {
+	runtimeRootIgnoreConfigs.delete(rootPath);
+}
+
+/**
+ * Set (or remove, when undefined) the ignore settings a workspace folder's configuration file defines
  */
-export function getIgnoreConfig(): { names: string[]; patterns: string[] } {
+export function updateFileIgnoreConfig(rootPath: string, config: Partial<IgnoreConfig> | undefined): void {
+	if (config) {
+		fileIgnoreConfigs.set(rootPath, config);
+	} else {
+		fileIgnoreConfigs.delete(rootPath);
+	}
+}
+
+/**
+ * Get current ignore configuration, taking a workspace folder's configuration file and override into account
+ */
+export function getIgnoreConfig(rootPath?: string): IgnoreConfig {
+	const fileConfig = rootPath ? fileIgnoreConfigs.get(rootPath) : undefined;
+	const rootConfig = rootPath ? runtimeRootIgnoreConfigs.get(rootPath) : undefined;
 	return {
-		names: [...runtimeIgnoredFolderNames],
-		patterns: [...runtimeIgnoredFolderPatterns]
+		names: [...(fileConfig?.names ?? rootConfig?.names ?? runtimeIgnoredFolderNames)],
+		patterns: [...(fileConfig?.patterns ?? rootConfig?.patterns ?? runtimeIgnoredFolderPatterns)]
 	};
 }
 
+/**
+ * Get the effective configuration of every workspace folder whose configuration file defines ignore settings
+ */
+export function getFileIgnoreConfigs(): Record<string, IgnoreConfig> {
+	const configs: Record<string, IgnoreConfig> = {};
+	for (const rootPath of fileIgnoreConfigs.keys()) {
+		configs[rootPath] = getIgnoreConfig(rootPath);
+	}
+	return configs;
+}
+
+/**
+ * Get all per-root overrides, keyed by workspace folder path
+ */
+export function getRootIgnoreConfigs(): Record<string, IgnoreConfig> {
+	return Object.fromEntries(runtimeRootIgnoreConfigs);
+}
+
 /**
  * Checks if a folder should be ignored based on the configured patterns.
  * @param folderName The name of the folder to check
  * @param relativePath The relative path from workspace root (for path-based patterns like "ResourceAnalyzers/*")
+ * @param ignoreFileRules Rules from .gitignore/.agentsignore files in the folder's ancestors, outermost first
+ * @param rootPath The workspace folder being scanned, to apply its override if any
  * @returns true if the folder should be ignored, false otherwise
  */
-export function shouldIgnoreFolder(folderName: string, relativePath?: string): boolean {
+export function shouldIgnoreFolder(
+	folderName: string,
+	relativePath?: string,
+	ignoreFileRules: IgnoreFileRule[] = [],
+	rootPath?: string
+): boolean {
+	const config = getIgnoreConfig(rootPath);
+	
 	// Check exact matches against folder name
-	if (runtimeIgnoredFolderNames.includes(folderName)) {
+	if (config.names.includes(folderName)) {
 		return true;
 	}
 	
 	// Check pattern matches against both folder name and relative path
-	for (const pattern of runtimeIgnoredFolderPatterns) {
+	for (const pattern of config.patterns) {
 		// Try matching against folder name
 		if (matchesPattern(folderName, pattern)) {
 			return true;
@@ -152,6 +220,11 @@ export function shouldIgnoreFolder(folderName: string, relativePath?: string): b
 		}
 	}
 	
+	// Apply .gitignore / .agentsignore rules collected along the path
+	if (ignoreFileRules.length > 0) {
+		return matchIgnoreFileRules(relativePath ?? folderName, true, ignoreFileRules) === true;
+	}
+	
 	return false;
 }
 
@@ -0,0 +1,198 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Ignore files read from every scanned folder. Both use .gitignore syntax;
+ * .agentsignore is read last so its rules take precedence within a folder.
+ */
+export const IGNORE_FILE_NAMES = ['.gitignore', '.agentsignore'];
+
+export interface IgnoreFileRule {
+	/** Original pattern text, as written in the ignore file */
+	pattern: string;
+	/** Folder containing the ignore file, relative to the workspace root ('' for the root) */
+	baseDir: string;
+	negated: boolean;
+	directoryOnly: boolean;
+	regex: RegExp;
+}
+
+/**
+ * Read the .gitignore and .agentsignore files of a folder.
+ * @param folderPath Absolute path of the folder
+ * @param relativeFolderPath Folder path relative to the workspace root ('' for the root)
+ */
+export async function loadIgnoreFileRules(folderPath: string, relativeFolderPath: string): Promise<IgnoreFileRule[]> {
+	const rules: IgnoreFileRule[] = [];
+
+	for (const fileName of IGNORE_FILE_NAMES) {
+		try {
+			const content = await fs.promises.readFile(path.join(folderPath, fileName), 'utf-8');
+			rules.push(...parseIgnoreFile(content, relativeFolderPath));
+		} catch (error) {
+			// Ignore file might not exist – that's acceptable
+		}
+	}
+
+	return rules;
+}
+
+/**
+ * Read the ignore files of a folder and of every folder above it up to the workspace root, outermost first:
+ * the rules the folder scanner applies to the folder's sub-folders
+ */
+export async function loadInheritedIgnoreFileRules(folderPath: string, rootPath: string): Promise<IgnoreFileRule[]> {
+	const relativeFolderPath = path.relative(rootPath, folderPath);
+	const segments = relativeFolderPath ? relativeFolderPath.split(path.sep) : [];
+	const rules: IgnoreFileRule[] = [];
+
+	for (let depth = 0; depth <= segments.length; depth++) {
+		const relativePath = segments.slice(0, depth).join(path.sep);
+		rules.push(...await loadIgnoreFileRules(path.join(rootPath, relativePath), relativePath));
+	}
+
+	return rules;
+}
+
+/**
+ * Parse the content of an ignore file written in .gitignore syntax.
+ * Supports comments, negation (!), anchored paths, ** globs and directory-only rules (trailing /).
+ */
+export function parseIgnoreFile(content: string, baseDir: string): IgnoreFileRule[] {
+	const rules: IgnoreFileRule[] = [];
+	const normalizedBase = baseDir.replace(/\\/g, '/').replace(/^\.?\/?|\/$/g, '');
+
+	for (const rawLine of content.split(/\r?\n/)) {
+		let line = rawLine.replace(/(?<!\\)\s+$/, '');
+		if (!line || line.startsWith('#')) {
+			continue;
+		}
+
+		let negated = false;
+		if (line.startsWith('!')) {
+			negated = true;
+			line = line.substring(1);
+		} else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+			line = line.substring(1);
+		}
+
+		let directoryOnly = false;
+		if (line.endsWith('/')) {
+			directoryOnly = true;
+			line = line.replace(/\/+$/, '');
+		}
+
+		if (!line) {
+			continue;
+		}
+
+		// A slash at the beginning or in the middle anchors the pattern to the ignore file's folder
+		const anchored = line.includes('/');
+		let glob = line.replace(/^\//, '');
+		if (!anchored && !glob.startsWith('**')) {
+			glob = `**/${glob}`;
+		}
+
+		rules.push({
+			pattern: rawLine.trim(),
+			baseDir: normalizedBase,
+			negated,
+			directoryOnly,
+			regex: globToRegExp(glob)
+		});
+	}
+
+	return rules;
+}
+
+/**
+ * Evaluate ignore rules against a path. Rules are evaluated in order and the last match wins,
+ * so rules from deeper ignore files (appended later) override those from their parents.
+ * @param relativePath Path relative to the workspace root
+ * @param isDirectory Whether the path is a directory (directory-only rules skip files)
+ * @returns true if ignored, false if explicitly re-included, undefined if no rule matched
+ */
+export function matchIgnoreFileRules(
+	relativePath: string,
+	isDirectory: boolean,
+	rules: IgnoreFileRule[]
+): boolean | undefined {
+	const normalizedPath = relativePath.replace(/\\/g, '/');
+	let result: boolean | undefined;
+
+	for (const rule of rules) {
+		if (rule.directoryOnly && !isDirectory) {
+			continue;
+		}
+
+		let candidate = normalizedPath;
+		if (rule.baseDir) {
+			if (!normalizedPath.startsWith(rule.baseDir + '/')) {
+				continue;
+			}
+			candidate = normalizedPath.substring(rule.baseDir.length + 1);
+		}
+
+		if (rule.regex.test(candidate)) {
+			result = !rule.negated;
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Convert a .gitignore glob into a regular expression matched against a whole relative path.
+ * * and ? never cross a path separator; ** matches across any number of folders.
+ */
+export function globToRegExp(glob: string): RegExp {
+	let regex = '';
+	let i = 0;
+
+	while (i < glob.length) {
+		const char = glob[i];
+		const atSegmentStart = i === 0 || glob[i - 1] === '/';
+
+		if (atSegmentStart && glob.startsWith('**/', i)) {
+			regex += '(?:.*/)?';
+			i += 3;
+		} else if (glob.substring(i) === '/**') {
+			regex += '/.+';
+			i += 3;
+		} else if (glob.startsWith('**', i)) {
+			regex += '.*';
+			i += 2;
+		} else if (char === '*') {
+			regex += '[^/]*';
+			i++;
+		} else if (char === '?') {
+			regex += '[^/]';
+			i++;
+		} else if (char === '[') {
+			const closing = glob.indexOf(']', i + 2);
+			if (closing === -1) {
+				regex += '\\[';
+				i++;
+				continue;
+			}
+			let charClass = glob.substring(i + 1, closing).replace(/\\/g, '\\\\');
+			if (charClass.startsWith('!')) {
+				charClass = '^' + charClass.substring(1);
+			}
+			regex += `[${charClass}]`;
+			i = closing + 1;
+		} else if (char === '\\' && i + 1 < glob.length) {
+			regex += escapeRegExp(glob[i + 1]);
+			i += 2;
+		} else {
+			regex += escapeRegExp(char);
+			i++;
+		}
+	}
+
+	return new RegExp(`^${regex}$`);
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
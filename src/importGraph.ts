@@ -0,0 +1,320 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type * as ts from 'typescript';
+
+/**
+ * One end of the dependencies between two folders
+ */
+export interface DependencyLink {
+	folderPath: string;
+	/** Relative to the workspace folder, using forward slashes ('.' for the root) */
+	relativePath: string;
+	/** Names of the imported files (for imports) or the importing files (for importedBy); empty for Go packages */
+	files: string[];
+}
+
+/**
+ * Dependencies of a folder's own files on other folders of the workspace, and the other way round
+ */
+export interface FolderDependencies {
+	imports: DependencyLink[];
+	importedBy: DependencyLink[];
+}
+
+/**
+ * Where an import resolves to: a file, or a whole folder for Go packages
+ */
+interface ImportTarget {
+	folderPath: string;
+	fileName?: string;
+}
+
+type TypeScriptModule = typeof ts;
+
+const JS_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mts', '.cts', '.mjs', '.cjs'];
+// Source folders Python imports are resolved from, besides the workspace folder itself
+const PYTHON_SOURCE_FOLDERS = ['src', 'lib'];
+// Larger files are most likely generated or bundled
+const MAX_FILE_SIZE = 1024 * 1024;
+const MAX_LISTED_FILES = 5;
+
+// Dependencies of each folder, per workspace folder; rebuilt at the start of every generation run
+const importGraphs = new Map<string, Map<string, FolderDependencies>>();
+
+/**
+ * Resolve the imports of every file in the given folders of a workspace folder and record which folders depend on which.
+ * Handles relative imports and tsconfig/jsconfig path aliases for TypeScript and JavaScript, Python imports and Go packages.
+ * Imports of packages outside the workspace and within a single folder are left out.
+ */
+export async function buildImportGraph(rootPath: string, folderPaths: string[]): Promise<void> {
+	const dependencies = new Map<string, FolderDependencies>();
+	for (const folderPath of folderPaths) {
+		dependencies.set(folderPath, { imports: [], importedBy: [] });
+	}
+
+	// The compiler is large, only load it when there are TypeScript or JavaScript files to resolve
+	let typescript: TypeScriptModule | undefined;
+	const compilerOptionsCache = new Map<string, ts.CompilerOptions>();
+	const goModules = await findGoModules(folderPaths);
+
+	for (const folderPath of folderPaths) {
+		let fileNames: string[];
+		try {
+			const entries = await fs.promises.readdir(folderPath, { withFileTypes: true });
+			fileNames = entries.filter(entry => entry.isFile()).map(entry => entry.name);
+		} catch (error) {
+			console.error(`Error reading ${folderPath} for imports:`, error);
+			continue;
+		}
+
+		for (const fileName of fileNames) {
+			const extension = path.extname(fileName).toLowerCase();
+			if (!JS_EXTENSIONS.includes(extension) && extension !== '.py' && extension !== '.go') {
+				continue;
+			}
+
+			const filePath = path.join(folderPath, fileName);
+			let content: string;
+			try {
+				if ((await fs.promises.stat(filePath)).size > MAX_FILE_SIZE) {
+					continue;
+				}
+				content = await fs.promises.readFile(filePath, 'utf-8');
+			} catch (err) {
+				// Skip files that can't be read
+				continue;
+			}
+
+			let targets: ImportTarget[];
+			if (extension === '.py') {
+				targets = resolvePythonImports(filePath, content, rootPath);
+			} else if (extension === '.go') {
+				targets = resolveGoImports(content, goModules);
+			} else {
+				typescript ??= await import('typescript');
+				targets = resolveScriptImports(typescript, filePath, content, rootPath, compilerOptionsCache);
+			}
+
+			for (const target of targets) {
+				const source = dependencies.get(folderPath);
+				// Targets in ignored folders have no entry
+				const destination = dependencies.get(target.folderPath);
+				if (!source || !destination || target.folderPath === folderPath) {
+					continue;
+				}
+				addLink(source.imports, rootPath, target.folderPath, target.fileName);
+				addLink(destination.importedBy, rootPath, folderPath, fileName);
+			}
+		}
+	}
+
+	for (const entry of dependencies.values()) {
+		entry.imports.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+		entry.importedBy.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+	}
+	importGraphs.set(rootPath, dependencies);
+}
+
+/**
+ * Get a folder's dependencies from the last graph built for its workspace folder
+ */
+export function getFolderDependencies(folderPath: string): FolderDependencies | undefined {
+	for (const dependencies of importGraphs.values()) {
+		const entry = dependencies.get(folderPath);
+		if (entry) {
+			return entry;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Describe a folder's dependencies for the prompt; empty when no graph was built for it
+ */
+export function formatFolderDependencies(folderPath: string): string {
+	const dependencies = getFolderDependencies(folderPath);
+	if (!dependencies) {
+		return '';
+	}
+
+	const formatLinks = (links: DependencyLink[]) => links.map(link => {
+		const shown = link.files.slice(0, MAX_LISTED_FILES);
+		const more = link.files.length - shown.length;
+		const files = shown.length > 0 ? ` (${shown.join(', ')}${more > 0 ? `, ... and ${more} more` : ''})` : '';
+		return `- ${link.relativePath}${files}\n`;
+	}).join('');
+
+	let text = '';
+	if (dependencies.imports.length > 0) {
+		text += `Imports from (folder, imported files):\n${formatLinks(dependencies.imports)}`;
+	}
+	if (dependencies.importedBy.length > 0) {
+		text += `${text ? '\n' : ''}Imported by (folder, importing files):\n${formatLinks(dependencies.importedBy)}`;
+	}
+	return text;
+}
+
+function addLink(links: DependencyLink[], rootPath: string, folderPath: string, fileName?: string): void {
+	let link = links.find(entry => entry.folderPath === folderPath);
+	if (!link) {
+		const relativePath = path.relative(rootPath, folderPath).split(path.sep).join('/') || '.';
+		link = { folderPath, relativePath, files: [] };
+		links.push(link);
+	}
+	if (fileName && !link.files.includes(fileName)) {
+		link.files.push(fileName);
+	}
+}
+
+function toTarget(filePath: string): ImportTarget {
+	return { folderPath: path.dirname(filePath), fileName: path.basename(filePath) };
+}
+
+/**
+ * Resolve import, export ... from, require and import() specifiers the way the TypeScript compiler does,
+ * using the nearest tsconfig.json or jsconfig.json for path aliases
+ */
+function resolveScriptImports(
+	typescript: TypeScriptModule,
+	filePath: string,
+	content: string,
+	rootPath: string,
+	compilerOptionsCache: Map<string, ts.CompilerOptions>
+): ImportTarget[] {
+	const options = getCompilerOptions(typescript, path.dirname(filePath), rootPath, compilerOptionsCache);
+	const targets: ImportTarget[] = [];
+	for (const importedFile of typescript.preProcessFile(content, true, true).importedFiles) {
+		const resolved = typescript.resolveModuleName(importedFile.fileName, filePath, options, typescript.sys).resolvedModule;
+		if (resolved && !resolved.isExternalLibraryImport) {
+			targets.push(toTarget(path.resolve(resolved.resolvedFileName)));
+		}
+	}
+	return targets;
+}
+
+function getCompilerOptions(
+	typescript: TypeScriptModule,
+	directory: string,
+	rootPath: string,
+	cache: Map<string, ts.CompilerOptions>
+): ts.CompilerOptions {
+	const configPath = typescript.findConfigFile(directory, typescript.sys.fileExists, 'tsconfig.json')
+		?? typescript.findConfigFile(directory, typescript.sys.fileExists, 'jsconfig.json');
+	// Configuration files outside the workspace folder don't describe it
+	const key = configPath && !path.relative(rootPath, configPath).startsWith('..') ? configPath : '';
+	const cached = cache.get(key);
+	if (cached) {
+		return cached;
+	}
+
+	let options: ts.CompilerOptions = { moduleResolution: typescript.ModuleResolutionKind.Node10 };
+	if (key) {
+		const { config } = typescript.readConfigFile(key, typescript.sys.readFile);
+		// Only the options are needed, so don't let the compiler enumerate the project's files
+		const host = { ...typescript.sys, readDirectory: () => [] };
+		options = typescript.parseJsonConfigFileContent(config ?? {}, host, path.dirname(key), undefined, key).options;
+	}
+	options = { ...options, allowJs: true };
+	cache.set(key, options);
+	return options;
+}
+
+/**
+ * Resolve "import a.b" and "from .a import b" to the module files in the workspace folder
+ */
+function resolvePythonImports(filePath: string, content: string, rootPath: string): ImportTarget[] {
+	const targets: ImportTarget[] = [];
+	const sourceFolders = [rootPath, ...PYTHON_SOURCE_FOLDERS.map(folder => path.join(rootPath, folder))];
+
+	for (const match of content.matchAll(/^[ \t]*from[ \t]+(\.*)([\w.]*)[ \t]+import[ \t]+\(?([\w\t ,]*)/gm)) {
+		const [, dots, moduleName, names] = match;
+		const parts = moduleName.split('.').filter(Boolean);
+		let bases = sourceFolders;
+		if (dots) {
+			let base = path.dirname(filePath);
+			for (let i = 1; i < dots.length; i++) {
+				base = path.dirname(base);
+			}
+			bases = [base];
+		}
+
+		// "from a import b" imports the module a/b.py when b is a sub-module, otherwise a name defined in a
+		const importedNames = names.split(',').map(name => name.trim().split(/\s+/)[0]).filter(Boolean);
+		for (const base of bases) {
+			const submodules = importedNames.map(name => findPythonModule(base, [...parts, name]));
+			const modulePaths = [...submodules, submodules.some(Boolean) ? undefined : findPythonModule(base, parts)]
+				.filter((modulePath): modulePath is string => modulePath !== undefined);
+			if (modulePaths.length > 0) {
+				targets.push(...modulePaths.map(toTarget));
+				break;
+			}
+		}
+	}
+
+	for (const match of content.matchAll(/^[ \t]*import[ \t]+([\w. \t,]+)$/gm)) {
+		for (const moduleName of match[1].split(',').map(name => name.trim().split(/\s+/)[0]).filter(Boolean)) {
+			const parts = moduleName.split('.');
+			for (const base of sourceFolders) {
+				const modulePath = findPythonModule(base, parts);
+				if (modulePath) {
+					targets.push(toTarget(modulePath));
+					break;
+				}
+			}
+		}
+	}
+
+	return targets;
+}
+
+function findPythonModule(base: string, parts: string[]): string | undefined {
+	const candidates = parts.length > 0
+		? [path.join(base, ...parts) + '.py', path.join(base, ...parts, '__init__.py')]
+		: [path.join(base, '__init__.py')];
+	return candidates.find(candidate => fs.existsSync(candidate));
+}
+
+/**
+ * Module paths declared by the go.mod files in the given folders, mapped to the folder of each module
+ */
+async function findGoModules(folderPaths: string[]): Promise<Map<string, string>> {
+	const modules = new Map<string, string>();
+	for (const folderPath of folderPaths) {
+		try {
+			const goMod = await fs.promises.readFile(path.join(folderPath, 'go.mod'), 'utf-8');
+			const modulePath = /^module\s+(\S+)/m.exec(goMod)?.[1];
+			if (modulePath) {
+				modules.set(modulePath, folderPath);
+			}
+		} catch (err) {
+			// Most folders aren't Go modules
+		}
+	}
+	return modules;
+}
+
+/**
+ * Resolve imported Go packages of the workspace's own modules to their folders
+ */
+function resolveGoImports(content: string, goModules: Map<string, string>): ImportTarget[] {
+	const importPaths: string[] = [];
+	for (const match of content.matchAll(/^import\s+(?:[\w.]+\s+)?"([^"]+)"/gm)) {
+		importPaths.push(match[1]);
+	}
+	for (const block of content.matchAll(/^import\s*\(([\s\S]*?)\)/gm)) {
+		for (const match of block[1].matchAll(/"([^"]+)"/g)) {
+			importPaths.push(match[1]);
+		}
+	}
+
+	const targets: ImportTarget[] = [];
+	for (const importPath of importPaths) {
+		for (const [modulePath, moduleFolder] of goModules) {
+			if (importPath === modulePath || importPath.startsWith(modulePath + '/')) {
+				targets.push({ folderPath: path.join(moduleFolder, ...importPath.substring(modulePath.length).split('/').filter(Boolean)) });
+				break;
+			}
+		}
+	}
+	return targets;
+}
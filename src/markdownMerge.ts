@@ -0,0 +1,218 @@
+/**
+ * Deterministic merge of an existing AGENTS.md with newly generated content.
+ *
+ * Both documents are split into sections at level 1 and 2 headings. Sections of the existing document
+ * that are standard (their heading appears in the prompt template or in the new content) are replaced by
+ * the new content; every other section is custom and kept verbatim, in its original order, after the
+ * section it followed.
+ *
+ * Fences override the classification: everything from <!-- agentsmd:keep --> to the next
+ * <!-- agentsmd:generated --> (or the end of the file) is kept verbatim, whatever its headings.
+ */
+
+export const KEEP_FENCE = '<!-- agentsmd:keep -->';
+export const GENERATED_FENCE = '<!-- agentsmd:generated -->';
+
+interface MarkdownSection {
+	/** Normalized heading, empty for the content before the first heading */
+	key: string;
+	lines: string[];
+}
+
+/**
+ * A part of the existing document that survives the merge
+ */
+interface KeptBlock {
+	/** Key of the closest preceding standard section, empty for the top of the document */
+	anchor: string;
+	lines: string[];
+}
+
+const SECTION_HEADING = /^#{1,2}\s+(.+?)\s*#*\s*$/;
+const THEMATIC_BREAK = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const CODE_FENCE = /^\s{0,3}(```|~~~)/;
+
+/**
+ * Merge an existing document with newly generated content without calling the model
+ */
+export function mergeMarkdownSections(existingContent: string, newContent: string, standardTitles: string[] = []): string {
+	const newSections = parseSections(splitLines(newContent));
+	const standardKeys = new Set([
+		...standardTitles.map(normalizeHeading),
+		...newSections.map(section => section.key)
+	]);
+
+	const keptBlocks = collectKeptBlocks(splitLines(existingContent), standardKeys);
+	if (keptBlocks.length === 0) {
+		return newContent;
+	}
+
+	// Blocks whose anchor is missing from the new content move up to the closest anchor that exists
+	const newKeys = new Set(newSections.map(section => section.key));
+	const blocksByAnchor = new Map<string, string[][]>();
+	let lastExistingAnchor = '';
+	for (const block of keptBlocks) {
+		if (newKeys.has(block.anchor)) {
+			lastExistingAnchor = block.anchor;
+		}
+		const blocks = blocksByAnchor.get(lastExistingAnchor) ?? [];
+		blocks.push(trimBlankLines(block.lines));
+		blocksByAnchor.set(lastExistingAnchor, blocks);
+	}
+	if (!newKeys.has('')) {
+		newSections.unshift({ key: '', lines: [] });
+	}
+
+	const output: string[] = [];
+	for (const section of newSections) {
+		const blocks = blocksByAnchor.get(section.key);
+		blocksByAnchor.delete(section.key);
+		if (!blocks) {
+			output.push(...section.lines);
+			continue;
+		}
+
+		// Kept content goes before a trailing horizontal rule, which separates the section from the next one
+		const { body, trailer } = splitTrailingRule(section.lines);
+		appendBlock(output, body);
+		for (const block of blocks) {
+			appendBlock(output, stripTrailingRule(block));
+		}
+		if (trailer.length > 0) {
+			appendBlock(output, trailer);
+		}
+		output.push('');
+	}
+
+	return trimBlankLines(output).join('\n') + (newContent.endsWith('\n') ? '\n' : '');
+}
+
+/**
+ * Normalize a heading for comparison: "## Sub-folders (CONDITIONAL ...)" and "## 📝 Sub-folders" both become "sub folders"
+ */
+export function normalizeHeading(title: string): string {
+	return title
+		.replace(/\([^)]*\)/g, '')
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}]+/gu, ' ')
+		.trim();
+}
+
+/**
+ * Walk the existing document and collect the custom sections and fenced keep regions
+ */
+function collectKeptBlocks(lines: string[], standardKeys: Set<string>): KeptBlock[] {
+	const blocks: KeptBlock[] = [];
+	let inKeepRegion = false;
+	let anchor = '';
+	let current: KeptBlock | undefined;
+	let inCodeBlock = false;
+
+	const flush = () => {
+		if (current && current.lines.some(line => line.trim())) {
+			blocks.push(current);
+		}
+		current = undefined;
+	};
+
+	for (const line of lines) {
+		if (CODE_FENCE.test(line)) {
+			inCodeBlock = !inCodeBlock;
+		}
+
+		const trimmed = line.trim();
+		if (!inCodeBlock && trimmed === KEEP_FENCE && !inKeepRegion) {
+			flush();
+			inKeepRegion = true;
+			current = { anchor, lines: [line] };
+			continue;
+		}
+		if (!inCodeBlock && trimmed === GENERATED_FENCE && inKeepRegion) {
+			current?.lines.push(line);
+			flush();
+			inKeepRegion = false;
+			continue;
+		}
+
+		const heading = inCodeBlock ? null : SECTION_HEADING.exec(line);
+		if (heading && !inKeepRegion) {
+			flush();
+			const key = normalizeHeading(heading[1]);
+			if (standardKeys.has(key)) {
+				anchor = key;
+			} else {
+				current = { anchor, lines: [] };
+			}
+		}
+
+		current?.lines.push(line);
+	}
+	// Close a keep region left open at the end of the file, so content merged after it isn't kept next time
+	if (inKeepRegion && current) {
+		current.lines = [...trimBlankLines(current.lines), '', GENERATED_FENCE];
+	}
+	flush();
+
+	return blocks;
+}
+
+function parseSections(lines: string[]): MarkdownSection[] {
+	const sections: MarkdownSection[] = [];
+	let current: MarkdownSection = { key: '', lines: [] };
+	let inCodeBlock = false;
+
+	for (const line of lines) {
+		if (CODE_FENCE.test(line)) {
+			inCodeBlock = !inCodeBlock;
+		}
+		const heading = inCodeBlock ? null : SECTION_HEADING.exec(line);
+		if (heading) {
+			if (current.key || current.lines.some(entry => entry.trim())) {
+				sections.push(current);
+			}
+			current = { key: normalizeHeading(heading[1]), lines: [] };
+		}
+		current.lines.push(line);
+	}
+	sections.push(current);
+
+	return sections;
+}
+
+function splitTrailingRule(lines: string[]): { body: string[]; trailer: string[] } {
+	const trimmed = trimBlankLines(lines);
+	const last = trimmed[trimmed.length - 1];
+	return last !== undefined && THEMATIC_BREAK.test(last)
+		? { body: trimmed.slice(0, -1), trailer: [last] }
+		: { body: trimmed, trailer: [] };
+}
+
+function stripTrailingRule(lines: string[]): string[] {
+	return trimBlankLines(splitTrailingRule(lines).body);
+}
+
+function appendBlock(output: string[], block: string[]): void {
+	if (block.length === 0) {
+		return;
+	}
+	if (output.length > 0 && output[output.length - 1].trim()) {
+		output.push('');
+	}
+	output.push(...block);
+}
+
+function trimBlankLines(lines: string[]): string[] {
+	let start = 0;
+	let end = lines.length;
+	while (start < end && !lines[start].trim()) {
+		start++;
+	}
+	while (end > start && !lines[end - 1].trim()) {
+		end--;
+	}
+	return lines.slice(start, end);
+}
+
+function splitLines(content: string): string[] {
+	return content.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+}
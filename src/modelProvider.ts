@@ -0,0 +1,59 @@
+/**
+ * Language models behind one interface, so generation works the same with VS Code's language models
+ * (GitHub Copilot) and with self-hosted model servers.
+ */
+
+import { CancellationToken } from './cancellation';
+
+/**
+ * A model as listed in the portal's model dropdown
+ */
+export interface ModelInfo {
+	id: string;
+	name: string;
+	family: string;
+	vendor: string;
+	/** Name of the provider serving the model */
+	provider: string;
+}
+
+export interface ChatMessage {
+	role: 'user' | 'assistant';
+	content: string;
+}
+
+/**
+ * A model ready to take requests
+ */
+export interface ChatModel {
+	id: string;
+	name: string;
+	/** Size of the input window in tokens, 0 when unknown */
+	maxInputTokens: number;
+	/**
+	 * Send a request and stream the response text. Failures are thrown as ModelErrors where they map to one
+	 * (unknown model, missing permissions), as errors describing the cause otherwise.
+	 */
+	sendRequest(messages: ChatMessage[], token: CancellationToken): Promise<AsyncIterable<string>>;
+	countTokens(text: string, token: CancellationToken): Promise<number>;
+}
+
+/**
+ * A failed request with the code of the VS Code LanguageModelError it corresponds to:
+ * NotFound (no such model), NoPermissions (the user didn't allow its use) or Blocked (the request was refused)
+ */
+export class ModelError extends Error {
+	constructor(message: string, public readonly code: string, options?: { cause?: unknown }) {
+		super(message, options);
+		this.name = 'ModelError';
+	}
+}
+
+export interface ModelProvider {
+	/** Shown as the group of its models in the portal */
+	readonly name: string;
+	/** Models the provider serves right now; empty when it isn't configured or reachable */
+	listModels(): Promise<ModelInfo[]>;
+	/** The model with the given ID, or undefined when this provider doesn't serve it */
+	getModel(modelId: string): Promise<ChatModel | undefined>;
+}
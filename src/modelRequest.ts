@@ -0,0 +1,260 @@
+/**
+ * Requests to the language model with retries and a fallback chain.
+ *
+ * Failures are classified first: rate limits and network errors are retried on the same model with exponential
+ * backoff and jitter, everything else (and a model that keeps failing) moves on to the next model of the chain.
+ * Once a model gave up, the folder's following requests go straight to the model that answered.
+ */
+
+import { CancellationError, CancellationToken } from './cancellation';
+import { getGenerationConfig } from './generationConfig';
+import { PREFERRED_MODEL_IDS, selectChatModel } from './modelSelector';
+import { ChatMessage, ChatModel, ModelError } from './modelProvider';
+
+export type ModelErrorKind = 'rateLimit' | 'quota' | 'network' | 'unavailable' | 'permission' | 'blocked' | 'unknown';
+
+export interface ClassifiedModelError {
+	kind: ModelErrorKind;
+	/** Worth sending the same request to the same model again after a pause */
+	retryable: boolean;
+	message: string;
+	/** LanguageModelError code, when the failure came from the model */
+	code?: string;
+	/** Pause the service asked for, when it said so */
+	retryAfterMs?: number;
+}
+
+/**
+ * The models a folder's requests go to, in order
+ */
+export interface ModelChain {
+	models: ChatModel[];
+	/** Index of the model requests currently go to */
+	current: number;
+	/** Requested models that aren't available, skipped when the chain was resolved */
+	unavailable: string[];
+	/** Models given up on after they failed */
+	failed: string[];
+	/** Requests sent again after a retryable failure */
+	retries: number;
+}
+
+/**
+ * Which model produced a folder's content during the current run, and what it took
+ */
+export interface ModelUsageEntry {
+	folderPath: string;
+	/** Relative to the workspace folder */
+	relativePath: string;
+	/** Model that produced the content; undefined when every model failed */
+	modelId?: string;
+	/** Models skipped as unavailable or given up on, in order */
+	fallbackFrom: string[];
+	retries: number;
+}
+
+/**
+ * A request failed on every model of the chain
+ */
+export class ModelRequestError extends Error {
+	constructor(public readonly classified: ClassifiedModelError, public readonly modelId?: string) {
+		super(`${ERROR_KIND_LABELS[classified.kind]}: ${classified.message}`);
+		this.name = 'ModelRequestError';
+	}
+}
+
+const ERROR_KIND_LABELS: Record<ModelErrorKind, string> = {
+	rateLimit: 'Rate limited',
+	quota: 'Quota exceeded',
+	network: 'Network error',
+	unavailable: 'Model unavailable',
+	permission: 'No permission to use the model',
+	blocked: 'Request blocked',
+	unknown: 'Model request failed'
+};
+
+// Checked in order against the error's code, message and cause; the first match decides
+const ERROR_PATTERNS: Array<{ kind: ModelErrorKind; retryable: boolean; pattern: RegExp }> = [
+	{ kind: 'rateLimit', retryable: true, pattern: /rate.?limit|too many requests|\b429\b/i },
+	{ kind: 'quota', retryable: false, pattern: /quota|billing|insufficient.?(?:credit|fund)|exceeded your/i },
+	{
+		kind: 'network',
+		retryable: true,
+		pattern: /network|timed? ?out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|fetch failed|overloaded|\b50[234]\b/i
+	}
+];
+
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+// Models used since the current run started, keyed by folder path
+const modelUsageReport = new Map<string, ModelUsageEntry>();
+
+/**
+ * Resolve the selected model followed by the fallback models, and the preferred models when opted in,
+ * leaving out the ones that aren't available.
+ * Only models the user listed are tried, so a request never goes to a provider they didn't choose.
+ */
+export async function resolveModelChain(selectedModelId: string | undefined): Promise<ModelChain> {
+	if (!selectedModelId) {
+		throw new Error('No model selected. Please select a model from the portal before generating documentation.');
+	}
+	const { fallbackModels, fallbackToPreferredModels } = getGenerationConfig();
+	const modelIds = [...new Set([selectedModelId, ...fallbackModels, ...(fallbackToPreferredModels ? PREFERRED_MODEL_IDS : [])])];
+
+	const chain: ModelChain = { models: [], current: 0, unavailable: [], failed: [], retries: 0 };
+	for (const modelId of modelIds) {
+		const model = await selectChatModel(modelId);
+		if (model) {
+			chain.models.push(model);
+		} else {
+			chain.unavailable.push(modelId);
+		}
+	}
+	if (chain.models.length === 0) {
+		throw new Error(`Selected model '${selectedModelId}' and its fallback models are not available. Please select a different model.`);
+	}
+	if (chain.unavailable.includes(selectedModelId)) {
+		console.log(`Selected model '${selectedModelId}' is not available, falling back to ${chain.models[0].id}`);
+	}
+	return chain;
+}
+
+/**
+ * The model requests of a chain currently go to
+ */
+export function getCurrentModel(chain: ModelChain): ChatModel {
+	return chain.models[Math.min(chain.current, chain.models.length - 1)];
+}
+
+/**
+ * Send a request along the chain and collect the response text.
+ * Throws a CancellationError when cancelled, and a ModelRequestError when no model of the chain answered.
+ */
+export async function sendModelRequest(
+	chain: ModelChain,
+	messages: ChatMessage[],
+	token: CancellationToken
+): Promise<{ text: string; model: ChatModel }> {
+	const { maxRetries } = getGenerationConfig();
+	let lastError: ClassifiedModelError | undefined;
+
+	while (chain.current < chain.models.length) {
+		const model = chain.models[chain.current];
+		for (let attempt = 0; ; attempt++) {
+			try {
+				const response = await model.sendRequest(messages, token);
+				let text = '';
+				for await (const fragment of response) {
+					text += fragment;
+				}
+				return { text, model };
+			} catch (error) {
+				if (token.isCancellationRequested || error instanceof CancellationError) {
+					throw new CancellationError();
+				}
+				lastError = classifyModelError(error);
+				console.error(`Request to ${model.id} failed (${lastError.kind}, attempt ${attempt + 1}):`, lastError.message);
+				if (!lastError.retryable || attempt >= maxRetries) {
+					break;
+				}
+				chain.retries++;
+				await delay(getRetryDelay(attempt, lastError.retryAfterMs), token);
+			}
+		}
+		chain.failed.push(model.id);
+		chain.current++;
+	}
+
+	throw new ModelRequestError(
+		lastError ?? { kind: 'unknown', retryable: false, message: 'No model left to try' },
+		chain.failed[chain.failed.length - 1]
+	);
+}
+
+/**
+ * Classify a failed model request by its ModelError code and message
+ */
+export function classifyModelError(error: unknown): ClassifiedModelError {
+	const message = error instanceof Error ? error.message : String(error);
+	const code = error instanceof ModelError ? error.code : undefined;
+	const cause = error instanceof Error && error.cause instanceof Error ? error.cause.message : '';
+	const text = [code, message, cause].filter(Boolean).join(' ');
+	const retryAfter = /retry.?after\D{0,10}(\d+(?:\.\d+)?)/i.exec(text);
+	const retryAfterMs = retryAfter ? Number(retryAfter[1]) * 1000 : undefined;
+
+	if (code === 'NotFound') {
+		return { kind: 'unavailable', retryable: false, message, code };
+	}
+	if (code === 'NoPermissions') {
+		return { kind: 'permission', retryable: false, message, code };
+	}
+	const match = ERROR_PATTERNS.find(candidate => candidate.pattern.test(text));
+	if (match) {
+		return { kind: match.kind, retryable: match.retryable, message, code, retryAfterMs };
+	}
+	return { kind: code === 'Blocked' ? 'blocked' : 'unknown', retryable: false, message, code };
+}
+
+/**
+ * Pause before retry number attempt + 1: exponential backoff with jitter, at least what the service asked for
+ */
+export function getRetryDelay(attempt: number, retryAfterMs?: number): number {
+	const backoff = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+	// Jitter spreads the retries of folders generated at the same time, which tend to hit a rate limit together
+	const jittered = backoff / 2 + Math.random() * backoff / 2;
+	return Math.min(MAX_RETRY_DELAY_MS, Math.max(jittered, retryAfterMs ?? 0));
+}
+
+/**
+ * Start a new report, at the beginning of a generation run
+ */
+export function resetModelUsageReport(): void {
+	modelUsageReport.clear();
+}
+
+/**
+ * Record which model of a chain produced a folder's content, or that none did
+ */
+export function recordModelUsage(folderPath: string, relativePath: string, chain: ModelChain, modelId: string | undefined): void {
+	modelUsageReport.set(folderPath, {
+		folderPath,
+		relativePath,
+		modelId,
+		fallbackFrom: [...chain.unavailable, ...chain.failed].filter(id => id !== modelId),
+		retries: chain.retries
+	});
+}
+
+/**
+ * Folders generated since the report was reset, ordered by path
+ */
+export function getModelUsageReport(): ModelUsageEntry[] {
+	return [...modelUsageReport.values()].sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+}
+
+/**
+ * Format a report as a Markdown document
+ */
+export function formatModelUsageReport(entries: ModelUsageEntry[]): string {
+	let text = '# Model Summary\n\nThe model that produced each folder\'s content during the last run.\n\n';
+	text += '| Folder | Model | Fallback from | Retries |\n| --- | --- | --- | --- |\n';
+	for (const entry of entries) {
+		text += `| ${entry.relativePath} | ${entry.modelId ?? 'Failed'} | ${entry.fallbackFrom.join(', ') || '-'} | ${entry.retries} |\n`;
+	}
+	return text;
+}
+
+function delay(ms: number, token: CancellationToken): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const timer = setTimeout(() => {
+			subscription.dispose();
+			resolve();
+		}, ms);
+		const subscription = token.onCancellationRequested(() => {
+			clearTimeout(timer);
+			subscription.dispose();
+			reject(new CancellationError());
+		});
+	});
+}
@@ -1,55 +1,76 @@
-import * as vscode from 'vscode';
+import { ChatModel, ModelInfo, ModelProvider } from './modelProvider';
+import { Disposable } from './cancellation';
+
+// Providers asked for models, in the order their models are listed; the extension and the CLI each register theirs
+const modelProviders: ModelProvider[] = [];
 
 /**
- * Get available language models from GitHub Copilot
+ * Add a provider whose models are listed after the others'; disposing it removes the provider again
  */
-export async function getAvailableModels(): Promise<Array<{ id: string; name: string; family: string; vendor: string }>> {
-	try {
-		const allModels = await vscode.lm.selectChatModels();
-		
-		// Map models to a simplified format
-		const models = allModels.map(model => ({
-			id: model.id,
-			name: model.name,
-			family: model.family,
-			vendor: model.vendor
-		}));
-		
-		// Log available models for debugging
-		console.log('Available LLM models:', JSON.stringify(models, null, 2));
-		
-		return models;
-	} catch (error) {
-		console.error('Error fetching available models:', error);
-		return [];
-	}
+export function registerModelProvider(provider: ModelProvider): Disposable {
+	modelProviders.push(provider);
+	return {
+		dispose: () => {
+			const index = modelProviders.indexOf(provider);
+			if (index >= 0) {
+				modelProviders.splice(index, 1);
+			}
+		}
+	};
 }
 
 /**
- * Get default model ID based on priority: Claude Sonnet 4.5 > GPT-5-Codex > auto
+ * Get the available language models of every provider
  */
-export function getDefaultModelId(models: Array<{ id: string; name: string; family: string; vendor: string }>): string | undefined {
-	// Priority 1: Claude Sonnet 4.5
-	const claudeSonnet = models.find(m => m.id === 'claude-sonnet-4.5');
-	
-	if (claudeSonnet) {
-		console.log('Using default model: Claude Sonnet 4.5 -', claudeSonnet.id);
-		return claudeSonnet.id;
+export async function getAvailableModels(): Promise<ModelInfo[]> {
+	const models: ModelInfo[] = [];
+	for (const provider of modelProviders) {
+		try {
+			models.push(...await provider.listModels());
+		} catch (error) {
+			console.error(`Error fetching models from ${provider.name}:`, error);
+		}
 	}
 	
-	// Priority 2: GPT-5-Codex
-	const gpt5Codex = models.find(m => m.id === 'gpt-5-codex');
+	// Log available models for debugging
+	console.log('Available LLM models:', JSON.stringify(models, null, 2));
 	
-	if (gpt5Codex) {
-		console.log('Using default model: GPT-5-Codex -', gpt5Codex.id);
-		return gpt5Codex.id;
+	return models;
+}
+
+/**
+ * Get a model by ID from the provider serving it, or undefined when none does
+ */
+export async function selectChatModel(modelId: string): Promise<ChatModel | undefined> {
+	for (const provider of modelProviders) {
+		try {
+			const model = await provider.getModel(modelId);
+			if (model) {
+				return model;
+			}
+		} catch (error) {
+			console.error(`Error selecting model ${modelId} from ${provider.name}:`, error);
+		}
 	}
-	
-	// Priority 3: Auto
-	const autoModel = models.find(m => m.id === 'auto');
-	if (autoModel) {
-		console.log('Using default model: Auto -', autoModel.id);
-		return autoModel.id;
+	return undefined;
+}
+
+/**
+ * Models chosen by default, in order of preference: Claude Sonnet 4.5 > GPT-5-Codex > auto.
+ * With fallbackToPreferredModels they are also tried after the configured fallback models.
+ */
+export const PREFERRED_MODEL_IDS = ['claude-sonnet-4.5', 'gpt-5-codex', 'auto'];
+
+/**
+ * Get default model ID: the first available of the preferred models
+ */
+export function getDefaultModelId(models: ModelInfo[]): string | undefined {
+	for (const modelId of PREFERRED_MODEL_IDS) {
+		const model = models.find(m => m.id === modelId);
+		if (model) {
+			console.log(`Using default model: ${model.name} -`, model.id);
+			return model.id;
+		}
 	}
 	
 	console.log('No preferred model found, no default model selected');
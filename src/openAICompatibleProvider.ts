@@ -0,0 +1,234 @@
+/**
+ * Models served by any OpenAI-compatible HTTP endpoint: Ollama, llama.cpp's server, vLLM, LM Studio or a hosted API.
+ *
+ * Requests go to {baseUrl}/chat/completions with streaming; without a configured model, every model of
+ * {baseUrl}/models is listed. Model IDs are prefixed so they can't be confused with VS Code's models.
+ */
+
+import { CancellationError, CancellationToken, Disposable } from './cancellation';
+import { ChatMessage, ChatModel, ModelError, ModelInfo, ModelProvider } from './modelProvider';
+import { estimateTokens } from './contextBudget';
+
+export interface ModelEndpointConfig {
+	/** e.g. http://localhost:11434/v1; empty disables the endpoint */
+	baseUrl: string;
+	/** Model to use; empty to list every model the server serves */
+	model: string;
+	/** Sent as a bearer token when set */
+	apiKey: string;
+	/** Input window of the endpoint's models in tokens, 0 for the default */
+	maxInputTokens: number;
+}
+
+export const DEFAULT_MODEL_ENDPOINT_CONFIG: ModelEndpointConfig = {
+	baseUrl: '',
+	model: '',
+	apiKey: '',
+	maxInputTokens: 0
+};
+
+export const MODEL_ENDPOINT_ID_PREFIX = 'openai-compatible:';
+
+// Listing models must not hold up the portal when the server is down
+const LIST_MODELS_TIMEOUT_MS = 5000;
+
+// Runtime configuration - updated from user settings; the API key comes from VS Code's secret storage
+let runtimeModelEndpointConfig: ModelEndpointConfig = { ...DEFAULT_MODEL_ENDPOINT_CONFIG };
+
+/**
+ * Update the runtime endpoint configuration
+ */
+export function updateModelEndpointConfig(config: Partial<ModelEndpointConfig>): void {
+	const merged = { ...DEFAULT_MODEL_ENDPOINT_CONFIG, ...config };
+	const maxInputTokens = Number(merged.maxInputTokens);
+	runtimeModelEndpointConfig = {
+		baseUrl: String(merged.baseUrl ?? '').trim().replace(/\/+$/, ''),
+		model: String(merged.model ?? '').trim(),
+		apiKey: String(merged.apiKey ?? ''),
+		maxInputTokens: Number.isFinite(maxInputTokens) ? Math.max(0, Math.floor(maxInputTokens)) : 0
+	};
+}
+
+/**
+ * Get current endpoint configuration
+ */
+export function getModelEndpointConfig(): ModelEndpointConfig {
+	return { ...runtimeModelEndpointConfig };
+}
+
+/**
+ * Check an endpoint configuration, returning the problems found
+ */
+export function validateModelEndpointConfig(config: Partial<ModelEndpointConfig>): string[] {
+	const errors: string[] = [];
+	const baseUrl = String(config.baseUrl ?? '').trim();
+	if (baseUrl) {
+		try {
+			const url = new URL(baseUrl);
+			if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+				errors.push(`"${baseUrl}" must be an http:// or https:// URL`);
+			}
+		} catch (error) {
+			errors.push(`"${baseUrl}" is not a valid URL`);
+		}
+	}
+	if (config.maxInputTokens !== undefined && !(Number(config.maxInputTokens) >= 0)) {
+		errors.push('The input window must be a number of tokens');
+	}
+	return errors;
+}
+
+export class OpenAICompatibleModelProvider implements ModelProvider {
+	public readonly name = 'OpenAI-compatible endpoint';
+
+	public async listModels(): Promise<ModelInfo[]> {
+		const config = getModelEndpointConfig();
+		if (!config.baseUrl) {
+			return [];
+		}
+		const modelNames = config.model ? [config.model] : await fetchModelNames(config);
+		const host = new URL(config.baseUrl).host;
+		return modelNames.map(modelName => ({
+			id: MODEL_ENDPOINT_ID_PREFIX + modelName,
+			name: modelName,
+			family: host,
+			vendor: 'openai-compatible',
+			provider: this.name
+		}));
+	}
+
+	public async getModel(modelId: string): Promise<ChatModel | undefined> {
+		const config = getModelEndpointConfig();
+		if (!config.baseUrl || !modelId.startsWith(MODEL_ENDPOINT_ID_PREFIX)) {
+			return undefined;
+		}
+		const modelName = modelId.substring(MODEL_ENDPOINT_ID_PREFIX.length);
+		return {
+			id: modelId,
+			name: modelName,
+			maxInputTokens: config.maxInputTokens,
+			sendRequest: (messages, token) => sendChatCompletion(config, modelName, messages, token),
+			countTokens: async (text) => estimateTokens(text)
+		};
+	}
+}
+
+async function fetchModelNames(config: ModelEndpointConfig): Promise<string[]> {
+	const response = await fetch(`${config.baseUrl}/models`, {
+		headers: getHeaders(config),
+		signal: AbortSignal.timeout(LIST_MODELS_TIMEOUT_MS)
+	});
+	if (!response.ok) {
+		throw await toRequestError(response);
+	}
+	const body = await response.json() as { data?: Array<{ id?: unknown }> };
+	return (body.data ?? [])
+		.map(model => model.id)
+		.filter((id): id is string => typeof id === 'string');
+}
+
+async function sendChatCompletion(
+	config: ModelEndpointConfig,
+	modelName: string,
+	messages: ChatMessage[],
+	token: CancellationToken
+): Promise<AsyncIterable<string>> {
+	const controller = new AbortController();
+	const subscription = token.onCancellationRequested(() => controller.abort());
+	try {
+		const response = await fetch(`${config.baseUrl}/chat/completions`, {
+			method: 'POST',
+			headers: { ...getHeaders(config), 'Content-Type': 'application/json' },
+			body: JSON.stringify({ model: modelName, messages, stream: true }),
+			signal: controller.signal
+		});
+		if (!response.ok) {
+			throw await toRequestError(response);
+		}
+		// Some servers ignore stream and answer with the whole completion
+		if (!response.body || !response.headers.get('content-type')?.includes('text/event-stream')) {
+			const body = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+			subscription.dispose();
+			return toAsyncIterable(body.choices?.[0]?.message?.content ?? '');
+		}
+		return readEventStream(response.body, subscription);
+	} catch (error) {
+		subscription.dispose();
+		if (token.isCancellationRequested) {
+			throw new CancellationError();
+		}
+		throw error;
+	}
+}
+
+/**
+ * Yield the content of the server-sent events of a streamed completion
+ */
+async function* readEventStream(body: ReadableStream<Uint8Array>, subscription: Disposable): AsyncIterable<string> {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = '';
+	let done = false;
+	try {
+		while (!done) {
+			const chunk = await reader.read();
+			done = chunk.done;
+			buffer += done ? decoder.decode() : decoder.decode(chunk.value, { stream: true });
+			// Events may end with CRLF, LF or CR (sse-starlette sends CRLF)
+			const lines = buffer.split(/\r\n|\r|\n/);
+			// The last line may continue in the next chunk, unless the stream ended without a final line break
+			buffer = done ? '' : lines.pop() ?? '';
+			for (const line of lines) {
+				const data = line.match(/^data:\s*(.*)$/)?.[1]?.trim();
+				if (!data) {
+					continue;
+				}
+				if (data === '[DONE]') {
+					return;
+				}
+				const event = JSON.parse(data) as { choices?: Array<{ delta?: { content?: string } }>; error?: { message?: string } };
+				if (event.error) {
+					throw new Error(`Model endpoint error: ${event.error.message ?? JSON.stringify(event.error)}`);
+				}
+				const content = event.choices?.[0]?.delta?.content;
+				if (content) {
+					yield content;
+				}
+			}
+		}
+	} finally {
+		subscription.dispose();
+		reader.releaseLock();
+	}
+}
+
+async function* toAsyncIterable(text: string): AsyncIterable<string> {
+	yield text;
+}
+
+function getHeaders(config: ModelEndpointConfig): Record<string, string> {
+	return config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+}
+
+/**
+ * Describe a failed HTTP response so it is classified like the equivalent VS Code language model error
+ */
+async function toRequestError(response: Response): Promise<Error> {
+	let details = '';
+	try {
+		details = (await response.text()).substring(0, 500);
+	} catch (error) {
+		// The status is enough
+	}
+	const retryAfter = response.headers.get('retry-after');
+	const message = `HTTP ${response.status} ${response.statusText}${details ? `: ${details}` : ''}`
+		+ (retryAfter && /^\d+$/.test(retryAfter) ? ` (retry after ${retryAfter} seconds)` : '');
+
+	if (response.status === 404) {
+		return new ModelError(message, 'NotFound');
+	}
+	if (response.status === 401 || response.status === 403) {
+		return new ModelError(message, 'NoPermissions');
+	}
+	return new Error(message);
+}
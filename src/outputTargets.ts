@@ -0,0 +1,247 @@
+/**
+ * Configuration of the instruction files written for each folder.
+ *
+ * A target path is relative to the folder (e.g. "AGENTS.md", "CLAUDE.md"), or relative to the workspace
+ * folder when it starts with "/" (e.g. "/.cursor/rules/{{FOLDER_ID}}.mdc"). {{FOLDER_ID}} is replaced by
+ * the folder's path with "-" separators, "-" and "%" in folder names being percent-encoded so every folder
+ * gets its own file; a workspace-relative target without it is only written for the workspace folder itself
+ * (e.g. "/.github/copilot-instructions.md").
+ *
+ * The first target is the primary one: it is read back as sub-folder context and merged with new content,
+ * so it must be relative to the folder.
+ */
+
+import * as path from 'path';
+
+export type OutputFormat = 'markdown' | 'copilot-instructions' | 'cursor-rule';
+
+export interface OutputTarget {
+	path: string;
+	/** Inferred from the path when omitted */
+	format?: OutputFormat;
+}
+
+/**
+ * An output target resolved for a specific folder
+ */
+export interface ResolvedOutputFile {
+	filePath: string;
+	/** Path relative to the workspace folder, using forward slashes */
+	relativePath: string;
+	format: OutputFormat;
+}
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['markdown', 'copilot-instructions', 'cursor-rule'];
+export const DEFAULT_OUTPUT_TARGETS: OutputTarget[] = [{ path: 'AGENTS.md' }];
+
+const FOLDER_ID_PLACEHOLDER = '{{FOLDER_ID}}';
+const ROOT_FOLDER_ID = '_root';
+
+// Runtime configuration - updated from user settings
+let runtimeOutputTargets: OutputTarget[] = [...DEFAULT_OUTPUT_TARGETS];
+
+// Targets from workspace configuration files (.agentsmd.json), keyed by workspace folder path
+const fileOutputTargets = new Map<string, OutputTarget[]>();
+
+/**
+ * Update the runtime output targets
+ */
+export function updateOutputTargets(targets: OutputTarget[]): void {
+	runtimeOutputTargets = targets.map(target => ({ ...target }));
+}
+
+/**
+ * Set (or remove, when undefined) the output targets a workspace folder's configuration file defines
+ */
+export function updateFileOutputTargets(rootPath: string, targets: OutputTarget[] | undefined): void {
+	if (targets) {
+		fileOutputTargets.set(rootPath, targets);
+	} else {
+		fileOutputTargets.delete(rootPath);
+	}
+}
+
+/**
+ * Get the output targets in effect for a workspace folder
+ */
+export function getOutputTargets(rootPath?: string): OutputTarget[] {
+	const targets = (rootPath ? fileOutputTargets.get(rootPath) : undefined) ?? runtimeOutputTargets;
+	return targets.map(target => ({ ...target }));
+}
+
+/**
+ * Get the targets of every workspace folder whose configuration file defines them
+ */
+export function getFileOutputTargets(): Record<string, OutputTarget[]> {
+	return Object.fromEntries(fileOutputTargets);
+}
+
+/**
+ * Check a list of output targets, returning the problems found
+ */
+export function validateOutputTargets(targets: OutputTarget[]): string[] {
+	const errors: string[] = [];
+
+	if (targets.length === 0) {
+		return ['At least one output file is required'];
+	}
+	if (isWorkspaceRelative(targets[0].path)) {
+		errors.push(`The first output file ("${targets[0].path}") must be relative to the folder, since it is read back as sub-folder context`);
+	}
+
+	for (const target of targets) {
+		const relative = stripLeadingSlash(target.path);
+		if (!relative.trim() || relative.endsWith('/')) {
+			errors.push(`"${target.path}" is not a file path`);
+		} else if (relative.split('/').includes('..')) {
+			errors.push(`"${target.path}" must not contain ".."`);
+		}
+		if (target.format !== undefined && !OUTPUT_FORMATS.includes(target.format)) {
+			errors.push(`"${target.path}" has an unknown format "${target.format}"`);
+		}
+	}
+
+	return errors;
+}
+
+/**
+ * Infer a target's format from its path unless it is given explicitly
+ */
+export function getOutputFormat(target: OutputTarget): OutputFormat {
+	if (target.format) {
+		return target.format;
+	}
+	if (target.path.endsWith('.mdc')) {
+		return 'cursor-rule';
+	}
+	if (target.path.endsWith('copilot-instructions.md') || target.path.endsWith('.instructions.md')) {
+		return 'copilot-instructions';
+	}
+	return 'markdown';
+}
+
+/**
+ * Path of the primary output file relative to a folder
+ */
+export function getPrimaryOutputPath(rootPath?: string): string {
+	return getOutputTargets(rootPath)[0].path;
+}
+
+/**
+ * Resolve the files written for a folder
+ */
+export function resolveOutputFiles(folderPath: string, rootPath: string): ResolvedOutputFile[] {
+	const isRootFolder = path.relative(rootPath, folderPath) === '';
+	const files: ResolvedOutputFile[] = [];
+
+	for (const target of getOutputTargets(rootPath)) {
+		const workspaceRelative = isWorkspaceRelative(target.path);
+		if (workspaceRelative && !target.path.includes(FOLDER_ID_PLACEHOLDER) && !isRootFolder) {
+			continue;
+		}
+		const relative = stripLeadingSlash(target.path).split(FOLDER_ID_PLACEHOLDER).join(getFolderId(folderPath, rootPath));
+		const filePath = path.join(workspaceRelative ? rootPath : folderPath, relative);
+
+		files.push({
+			filePath,
+			relativePath: toPosixPath(path.relative(rootPath, filePath)),
+			format: getOutputFormat(target)
+		});
+	}
+
+	return files;
+}
+
+/**
+ * Whether a file is one of the generated output files, so it is never fed back to the model as input
+ */
+export function isOutputFile(filePath: string, rootPath: string): boolean {
+	const normalized = toPosixPath(filePath);
+	return getOutputTargets(rootPath).some(target => {
+		const pattern = stripLeadingSlash(target.path)
+			.split(FOLDER_ID_PLACEHOLDER)
+			.map(escapeRegExp)
+			.join('[^/]+');
+		return new RegExp(`(^|/)${pattern}$`).test(normalized);
+	});
+}
+
+/**
+ * Whether a directory only holds per-folder output files (e.g. .cursor/rules), so it isn't documented itself
+ */
+export function isOutputDirectory(directoryPath: string, rootPath: string): boolean {
+	return getOutputTargets(rootPath).some(target =>
+		isWorkspaceRelative(target.path) &&
+		target.path.includes(FOLDER_ID_PLACEHOLDER) &&
+		path.join(rootPath, path.dirname(stripLeadingSlash(target.path))) === directoryPath
+	);
+}
+
+/**
+ * Wrap generated content for an output file's format
+ */
+export function formatOutputContent(content: string, file: ResolvedOutputFile, folderPath: string, rootPath: string): string {
+	const relativeFolder = toPosixPath(path.relative(rootPath, folderPath));
+	const folderGlob = relativeFolder ? `${relativeFolder}/**` : '**';
+
+	switch (file.format) {
+		case 'cursor-rule':
+			return [
+				'---',
+				`description: Documentation for ${relativeFolder || path.basename(rootPath)}`,
+				`globs: ${folderGlob}`,
+				`alwaysApply: ${relativeFolder === ''}`,
+				'---',
+				'',
+				content
+			].join('\n');
+		case 'copilot-instructions':
+			// The repository-wide copilot-instructions.md has no front matter, scoped *.instructions.md files do
+			return file.filePath.endsWith('.instructions.md')
+				? `---\napplyTo: "${folderGlob}"\n---\n\n${content}`
+				: content;
+		default:
+			return content;
+	}
+}
+
+/**
+ * Remove the front matter added by formatOutputContent
+ */
+export function stripFrontMatter(content: string): string {
+	const match = /^---\r?\n[\s\S]*?\r?\n---\r?\n(\r?\n)?/.exec(content);
+	return match ? content.substring(match[0].length) : content;
+}
+
+/**
+ * Identifier of a folder unique within its workspace folder, e.g. "src-a%2Db" for src/a-b
+ */
+function getFolderId(folderPath: string, rootPath: string): string {
+	const relative = toPosixPath(path.relative(rootPath, folderPath));
+	if (!relative) {
+		return ROOT_FOLDER_ID;
+	}
+	const folderId = relative.split('/').map(encodeFolderIdSegment).join('-');
+	// A top-level folder named like the workspace folder's identifier would share its files
+	return folderId === ROOT_FOLDER_ID ? `%5F${folderId.substring(1)}` : folderId;
+}
+
+function encodeFolderIdSegment(name: string): string {
+	return name.replace(/[%-]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function isWorkspaceRelative(targetPath: string): boolean {
+	return targetPath.startsWith('/');
+}
+
+function stripLeadingSlash(targetPath: string): string {
+	return targetPath.replace(/^\/+/, '');
+}
+
+function toPosixPath(value: string): string {
+	return value.split(path.sep).join('/');
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
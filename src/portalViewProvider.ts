@@ -1,11 +1,111 @@
 import * as vscode from 'vscode';
-import { StatusSnapshot } from './statusTypes';
+import { StatusDelta, StatusItem, StatusSnapshot } from './statusTypes';
+import { ModelInfo } from './modelProvider';
+
+interface IgnoreConfig {
+	names: string[];
+	patterns: string[];
+}
 
 interface PromptConfig {
 	mainTemplate: string;
 	subfolderContextTemplate: string;
 }
 
+/**
+ * Global settings plus per-root overrides keyed by workspace folder path
+ */
+interface ScopedConfig<T> {
+	global: T;
+	roots: Record<string, T>;
+	/** Effective settings of workspace folders whose configuration file defines them */
+	files: Record<string, T>;
+}
+
+interface OutputTarget {
+	path: string;
+	format?: string;
+}
+
+/**
+ * Global output targets plus those defined by workspace folders' configuration files
+ */
+interface OutputTargetsConfig {
+	global: OutputTarget[];
+	files: Record<string, OutputTarget[]>;
+}
+
+interface RedactionConfig {
+	patterns: string[];
+	deniedFiles: string[];
+}
+
+/**
+ * Global redaction settings plus those defined by workspace folders' configuration files
+ */
+interface RedactionConfigSettings {
+	global: RedactionConfig;
+	files: Record<string, RedactionConfig>;
+}
+
+interface ClassificationRule {
+	match: string;
+	category: 'code' | 'config' | 'doc' | 'binary' | 'other';
+	priority?: number;
+}
+
+/**
+ * Global file classification rules plus those defined by workspace folders' configuration files
+ */
+interface FileTypesConfig {
+	global: ClassificationRule[];
+	files: Record<string, ClassificationRule[]>;
+}
+
+interface FolderScope {
+	include: string[];
+	maxDepth: number;
+	depthFrom: 'root' | 'include';
+}
+
+/**
+ * Global folder scope plus those defined by workspace folders' configuration files
+ */
+interface FolderScopeSettings {
+	global: FolderScope;
+	files: Record<string, FolderScope>;
+}
+
+interface ConfigFileInfo {
+	rootPath: string;
+	filePath: string;
+	errors: string[];
+}
+
+/**
+ * The OpenAI-compatible endpoint, without its API key
+ */
+interface ModelEndpointSettings {
+	baseUrl: string;
+	model: string;
+	maxInputTokens: number;
+	hasApiKey: boolean;
+}
+
+interface GenerationConfig {
+	writePlaceholderOnFailure: boolean;
+	maxConcurrency: number;
+	reviewBeforeWriting: boolean;
+	mergeStrategy: 'sections' | 'llm';
+	referenceCheck: 'off' | 'warn' | 'strip' | 'reprompt';
+	minFiles: number;
+	minCodeFiles: number;
+	collapseChains: boolean;
+	maxRetries: number;
+	fallbackModels: string[];
+	fallbackToPreferredModels: boolean;
+}
+
 export class PortalViewProvider implements vscode.Disposable {
 	public static readonly viewType = 'agentsPortalPanel';
 	private panel?: vscode.WebviewPanel;
@@ -15,21 +115,45 @@ export class PortalViewProvider implements vscode.Disposable {
 		completed: 0,
 		inProgress: 0,
 		failed: 0,
+		pendingReview: 0,
+		roots: [],
 		items: [],
+		skipped: [],
 		lastUpdated: ''
 	};
-	private availableModels: Array<{ id: string; name: string; family: string; vendor: string }> = [];
+	private availableModels: ModelInfo[] = [];
 	private selectedModelId?: string;
-	private ignoreConfig: { names: string[]; patterns: string[] } = { names: [], patterns: [] };
-	private promptConfig: PromptConfig = { mainTemplate: '', subfolderContextTemplate: '' };
+	private modelEndpoint: ModelEndpointSettings = { baseUrl: '', model: '', maxInputTokens: 0, hasApiKey: false };
+	private ignoreConfig: ScopedConfig<IgnoreConfig> = { global: { names: [], patterns: [] }, roots: {}, files: {} };
+	private promptConfig: ScopedConfig<PromptConfig> = { global: { mainTemplate: '', subfolderContextTemplate: '' }, roots: {}, files: {} };
+	private outputTargets: OutputTargetsConfig = { global: [], files: {} };
+	private redactionConfig: RedactionConfigSettings = { global: { patterns: [], deniedFiles: [] }, files: {} };
+	private fileTypes: FileTypesConfig = { global: [], files: {} };
+	private folderScope: FolderScopeSettings = { global: { include: [], maxDepth: 0, depthFrom: 'include' }, files: {} };
+	private configFiles: ConfigFileInfo[] = [];
+	private generationConfig: GenerationConfig = {
+		writePlaceholderOnFailure: false,
+		maxConcurrency: 3,
+		reviewBeforeWriting: false,
+		mergeStrategy: 'sections',
+		referenceCheck: 'warn',
+		minFiles: 0,
+		minCodeFiles: 0,
+		collapseChains: false,
+		maxRetries: 3,
+		fallbackModels: [],
+		fallbackToPreferredModels: false
+	};
+	private generationRunning = false;
 
 	constructor() {}
 
 	public showPortal(
-		availableModels?: Array<{ id: string; name: string; family: string; vendor: string }>,
+		availableModels?: ModelInfo[],
 		selectedModelId?: string,
-		ignoreConfig?: { names: string[]; patterns: string[] },
-		promptConfig?: PromptConfig
+		ignoreConfig?: ScopedConfig<IgnoreConfig>,
+		promptConfig?: ScopedConfig<PromptConfig>,
+		generationConfig?: GenerationConfig
 	): void {
 		if (availableModels) {
 			this.availableModels = availableModels;
@@ -43,15 +167,19 @@ export class PortalViewProvider implements vscode.Disposable {
 		if (promptConfig) {
 			this.promptConfig = promptConfig;
 		}
+		if (generationConfig) {
+			this.generationConfig = generationConfig;
+		}
 
 		if (this.panel) {
 			this.panel.reveal(vscode.ViewColumn.One);
 			// Post updates only if we have data
-			if (availableModels || selectedModelId !== undefined || ignoreConfig || promptConfig) {
+			if (availableModels || selectedModelId !== undefined || ignoreConfig || promptConfig || generationConfig) {
 				this.postSnapshot();
 				this.postModels();
 				this.postIgnoreConfig();
 				this.postPromptConfig();
+				this.postGenerationConfig();
 			}
 			return;
 		}
@@ -72,10 +200,13 @@ export class PortalViewProvider implements vscode.Disposable {
 			this.panel.webview.onDidReceiveMessage(async (message) => {
 				switch (message?.type) {
 					case 'generate':
-						await vscode.commands.executeCommand('AgentsMDGenerator.generateAgentsMd');
+						await vscode.commands.executeCommand('AgentsMDGenerator.generateAgentsMd', message.rootPath);
 						break;
 					case 'generateOutdated':
-						await vscode.commands.executeCommand('AgentsMDGenerator.generateOutdatedFolders');
+						await vscode.commands.executeCommand('AgentsMDGenerator.generateOutdatedFolders', message.rootPath);
+						break;
+					case 'cancelGeneration':
+						await vscode.commands.executeCommand('AgentsMDGenerator.cancelGeneration');
 						break;
 					case 'refreshStatus':
 						await vscode.commands.executeCommand('AgentsMDGenerator.refreshStatusSnapshot');
@@ -88,17 +219,74 @@ export class PortalViewProvider implements vscode.Disposable {
 						break;
 					case 'updateIgnoreConfig':
 						if (message.names && message.patterns) {
-							this.ignoreConfig = { names: message.names, patterns: message.patterns };
-							await vscode.commands.executeCommand('AgentsMDGenerator.updateIgnoreConfig', message.names, message.patterns);
+							const config = { names: message.names, patterns: message.patterns };
+							if (message.rootPath) {
+								this.ignoreConfig.roots[message.rootPath] = config;
+							} else {
+								this.ignoreConfig.global = config;
+							}
+							this.postIgnoreConfig();
+							await vscode.commands.executeCommand('AgentsMDGenerator.updateIgnoreConfig', message.names, message.patterns, message.rootPath);
 						}
 						break;
 					case 'updatePromptConfig':
 						if (message.mainTemplate !== undefined && message.subfolderContextTemplate !== undefined) {
-							this.promptConfig = { 
+							const config = { 
 								mainTemplate: message.mainTemplate, 
 								subfolderContextTemplate: message.subfolderContextTemplate 
 							};
-							await vscode.commands.executeCommand('AgentsMDGenerator.updatePromptConfig', this.promptConfig);
+							if (message.rootPath) {
+								this.promptConfig.roots[message.rootPath] = config;
+							} else {
+								this.promptConfig.global = config;
+							}
+							this.postPromptConfig();
+							await vscode.commands.executeCommand('AgentsMDGenerator.updatePromptConfig', config, message.rootPath);
+						}
+						break;
+					case 'openConfigFile':
+						if (message.rootPath) {
+							await vscode.commands.executeCommand('AgentsMDGenerator.openWorkspaceConfigFile', message.rootPath);
+						}
+						break;
+					case 'useGlobalSettings':
+						if (message.rootPath) {
+							delete this.ignoreConfig.roots[message.rootPath];
+							delete this.promptConfig.roots[message.rootPath];
+							this.postIgnoreConfig();
+							this.postPromptConfig();
+							await vscode.commands.executeCommand('AgentsMDGenerator.clearRootSettings', message.rootPath);
+						}
+						break;
+					case 'updateOutputTargets':
+						if (Array.isArray(message.targets)) {
+							await vscode.commands.executeCommand('AgentsMDGenerator.updateOutputTargets', message.targets);
+						}
+						break;
+					case 'updateFolderScope':
+						if (message.config) {
+							await vscode.commands.executeCommand('AgentsMDGenerator.updateFolderScope', message.config);
+						}
+						break;
+					case 'updateFileTypes':
+						if (Array.isArray(message.rules)) {
+							await vscode.commands.executeCommand('AgentsMDGenerator.updateClassificationRules', message.rules);
+						}
+						break;
+					case 'updateRedactionConfig':
+						if (message.config) {
+							await vscode.commands.executeCommand('AgentsMDGenerator.updateRedactionConfig', message.config);
+						}
+						break;
+					case 'updateGenerationConfig':
+						if (message.config) {
+							this.generationConfig = { ...this.generationConfig, ...message.config };
+							await vscode.commands.executeCommand('AgentsMDGenerator.updateGenerationConfig', this.generationConfig);
+						}
+						break;
+					case 'updateModelEndpoint':
+						if (message.config) {
+							await vscode.commands.executeCommand('AgentsMDGenerator.updateModelEndpoint', message.config);
 						}
 						break;
 					case 'ready':
@@ -107,15 +295,22 @@ export class PortalViewProvider implements vscode.Disposable {
 						this.postModels();
 						this.postIgnoreConfig();
 						this.postPromptConfig();
+						this.postConfigFiles();
+						this.postOutputTargets();
+						this.postRedactionConfig();
+						this.postFileTypes();
+						this.postFolderScope();
+						this.postGenerationConfig();
+						this.postModelEndpoint();
+						this.postGenerationState();
 						break;
 					case 'openAgentsFile':
-						if (message.path) {
-							const agentsFilePath = vscode.Uri.file(message.path + '/AGENTS.md');
+						if (message.filePath) {
 							try {
-								const doc = await vscode.workspace.openTextDocument(agentsFilePath);
+								const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(message.filePath));
 								await vscode.window.showTextDocument(doc, { preview: false });
 							} catch (error) {
-								vscode.window.showErrorMessage(`Failed to open AGENTS.md: ${error}`);
+								vscode.window.showErrorMessage(`Failed to open ${message.filePath}: ${error}`);
 							}
 						}
 						break;
@@ -124,6 +319,24 @@ export class PortalViewProvider implements vscode.Disposable {
 							await vscode.commands.executeCommand('AgentsMDGenerator.generateSingleFolder', message.path);
 						}
 						break;
+					case 'reviewStaged':
+						if (message.path) {
+							await vscode.commands.executeCommand('AgentsMDGenerator.reviewStagedChanges', message.path);
+						}
+						break;
+					case 'acceptStaged':
+						if (message.path) {
+							await vscode.commands.executeCommand('AgentsMDGenerator.acceptStagedChanges', message.path);
+						}
+						break;
+					case 'rejectStaged':
+						if (message.path) {
+							await vscode.commands.executeCommand('AgentsMDGenerator.rejectStagedChanges', message.path);
+						}
+						break;
+					case 'acceptAllStaged':
+						await vscode.commands.executeCommand('AgentsMDGenerator.acceptAllStagedChanges');
+						break;
 				}
 			})
 		);
@@ -137,6 +350,61 @@ export class PortalViewProvider implements vscode.Disposable {
 		this.postSnapshot();
 	}
 
+	/**
+	 * Patch the last snapshot with the items that changed, and send the webview only the changes
+	 */
+	public applyDelta(delta: StatusDelta) {
+		const { updated, removed, ...summary } = delta;
+		this.latestSnapshot = { ...summary, items: patchStatusItems(this.latestSnapshot.items, delta) };
+		if (this.panel) {
+			void this.panel.webview.postMessage({
+				type: 'statusDelta',
+				data: delta
+			});
+		}
+	}
+
+	public setGenerationRunning(running: boolean) {
+		this.generationRunning = running;
+		this.postGenerationState();
+	}
+
+	/**
+	 * Update ignore, prompt, output, redaction, file type and scope settings without revealing the portal, e.g. after a configuration file changed
+	 */
+	public updateSettings(
+		ignoreConfig: ScopedConfig<IgnoreConfig>,
+		promptConfig: ScopedConfig<PromptConfig>,
+		outputTargets: OutputTargetsConfig,
+		redactionConfig: RedactionConfigSettings,
+		fileTypes: FileTypesConfig,
+		folderScope: FolderScopeSettings,
+		configFiles: ConfigFileInfo[]
+	) {
+		this.ignoreConfig = ignoreConfig;
+		this.promptConfig = promptConfig;
+		this.outputTargets = outputTargets;
+		this.redactionConfig = redactionConfig;
+		this.fileTypes = fileTypes;
+		this.folderScope = folderScope;
+		this.configFiles = configFiles;
+		this.postIgnoreConfig();
+		this.postPromptConfig();
+		this.postOutputTargets();
+		this.postRedactionConfig();
+		this.postFileTypes();
+		this.postFolderScope();
+		this.postConfigFiles();
+	}
+
+	/**
+	 * Update the OpenAI-compatible endpoint shown in Generation Settings
+	 */
+	public updateModelEndpoint(modelEndpoint: ModelEndpointSettings) {
+		this.modelEndpoint = modelEndpoint;
+		this.postModelEndpoint();
+	}
+
 	public dispose(): void {
 		if (this.panel) {
 			const existingPanel = this.panel;
@@ -185,6 +453,78 @@ export class PortalViewProvider implements vscode.Disposable {
 		}
 	}
 
+	private postOutputTargets() {
+		if (this.panel) {
+			void this.panel.webview.postMessage({
+				type: 'outputTargetsUpdate',
+				data: this.outputTargets
+			});
+		}
+	}
+
+	private postRedactionConfig() {
+		if (this.panel) {
+			void this.panel.webview.postMessage({
+				type: 'redactionConfigUpdate',
+				data: this.redactionConfig
+			});
+		}
+	}
+
+	private postFileTypes() {
+		if (this.panel) {
+			void this.panel.webview.postMessage({
+				type: 'fileTypesUpdate',
+				data: this.fileTypes
+			});
+		}
+	}
+
+	private postFolderScope() {
+		if (this.panel) {
+			void this.panel.webview.postMessage({
+				type: 'folderScopeUpdate',
+				data: this.folderScope
+			});
+		}
+	}
+
+	private postModelEndpoint() {
+		if (this.panel) {
+			void this.panel.webview.postMessage({
+				type: 'modelEndpointUpdate',
+				data: this.modelEndpoint
+			});
+		}
+	}
+
+	private postConfigFiles() {
+		if (this.panel) {
+			void this.panel.webview.postMessage({
+				type: 'configFilesUpdate',
+				data: this.configFiles
+			});
+		}
+	}
+
+	private postGenerationConfig() {
+		if (this.panel) {
+			void this.panel.webview.postMessage({
+				type: 'generationConfigUpdate',
+				data: this.generationConfig
+			});
+		}
+	}
+
+	private postGenerationState() {
+		if (this.panel) {
+			void this.panel.webview.postMessage({
+				type: 'generationStateUpdate',
+				data: { running: this.generationRunning }
+			});
+		}
+	}
+
 	private clearPanel() {
 		while (this.disposables.length > 0) {
 			const disposable = this.disposables.pop();
@@ -286,6 +626,9 @@ export class PortalViewProvider implements vscode.Disposable {
 					outline: 1px solid var(--vscode-focusBorder);
 					outline-offset: -1px;
 				}
+				.model-select--narrow {
+					min-width: 140px;
+				}
 				.generate-btn {
 					display: inline-flex;
 					align-items: center;
@@ -317,6 +660,28 @@ export class PortalViewProvider implements vscode.Disposable {
 				.generate-btn--secondary:hover {
 					background: var(--vscode-button-hoverBackground, #015a8c);
 				}
+				.generate-btn--cancel {
+					display: none;
+					background: rgba(244, 67, 54, 0.85);
+					color: #ffffff;
+				}
+				.generate-btn--cancel:hover {
+					background: #d32f2f;
+				}
+				.generate-btn--cancel.visible {
+					display: inline-flex;
+				}
+				.generate-btn--accept {
+					display: none;
+					background: rgba(76, 175, 80, 0.85);
+					color: #ffffff;
+				}
+				.generate-btn--accept:hover {
+					background: #388e3c;
+				}
+				.generate-btn--accept.visible {
+					display: inline-flex;
+				}
 				.portal__metrics {
 					display: grid;
 					grid-template-columns: repeat(auto-fit, minmax(120px, 1fr));
@@ -442,6 +807,16 @@ export class PortalViewProvider implements vscode.Disposable {
 					padding: 28px;
 					color: var(--vscode-descriptionForeground);
 				}
+				.status-table .root-row td {
+					font-weight: 600;
+					background: rgba(255, 255, 255, 0.03);
+				}
+				.root-row__counts {
+					margin-left: 8px;
+					font-weight: normal;
+					font-size: 11px;
+					color: var(--vscode-descriptionForeground);
+				}
 				.folder-label {
 					display: grid;
 					gap: 2px;
@@ -453,6 +828,15 @@ export class PortalViewProvider implements vscode.Disposable {
 					font-size: 11px;
 					color: var(--vscode-descriptionForeground);
 				}
+				.folder-deps {
+					margin-top: 2px;
+					font-size: 11px;
+					color: var(--vscode-descriptionForeground);
+					max-width: 320px;
+					overflow: hidden;
+					text-overflow: ellipsis;
+					white-space: nowrap;
+				}
 				.status-badge,
 				.doc-tag {
 					display: inline-flex;
@@ -480,6 +864,10 @@ export class PortalViewProvider implements vscode.Disposable {
 					background: rgba(158, 158, 158, 0.18);
 					color: var(--vscode-descriptionForeground);
 				}
+				.status-badge--pending-review {
+					background: rgba(255, 152, 0, 0.2);
+					color: #fb8c00;
+				}
 				.doc-tag--success {
 					background: rgba(67, 160, 71, 0.18);
 					color: #43a047;
@@ -492,6 +880,31 @@ export class PortalViewProvider implements vscode.Disposable {
 					background: rgba(239, 83, 80, 0.2);
 					color: #e53935;
 				}
+				.changed-files {
+					margin-top: 4px;
+					font-size: 11px;
+					font-family: var(--vscode-editor-font-family);
+					color: var(--vscode-descriptionForeground);
+					display: grid;
+					gap: 1px;
+				}
+				.output-files {
+					margin-top: 4px;
+					font-size: 11px;
+					display: grid;
+					gap: 1px;
+				}
+				.output-files__entry {
+					color: var(--vscode-descriptionForeground);
+					cursor: pointer;
+				}
+				.output-files__entry--missing {
+					color: var(--vscode-errorForeground);
+					cursor: default;
+				}
+				.output-files__entry--needs-update {
+					color: var(--vscode-editorWarning-foreground);
+				}
 				.status-dot {
 					width: 8px;
 					height: 8px;
@@ -519,6 +932,41 @@ export class PortalViewProvider implements vscode.Disposable {
 					height: 14px;
 					fill: currentColor;
 				}
+				.row-action-btn + .row-action-btn {
+					margin-left: 4px;
+				}
+				.row-action-btn--accept {
+					background: rgba(76, 175, 80, 0.15);
+					color: #4caf50;
+				}
+				.row-action-btn--accept:hover {
+					background: rgba(76, 175, 80, 0.25);
+				}
+				.row-action-btn--reject {
+					background: rgba(244, 67, 54, 0.15);
+					color: #f44336;
+				}
+				.row-action-btn--reject:hover {
+					background: rgba(244, 67, 54, 0.25);
+				}
+				.skipped-folders {
+					font-size: 12px;
+					color: var(--vscode-descriptionForeground);
+				}
+				.skipped-folders summary {
+					cursor: pointer;
+				}
+				.skipped-folders ul {
+					margin: 6px 0 0;
+					padding-left: 18px;
+				}
+				.skipped-folder__name {
+					color: var(--vscode-foreground);
+					margin-right: 8px;
+				}
+				.skipped-folder__reason {
+					font-style: italic;
+				}
 				.status-footer {
 					font-size: 12px;
 					color: var(--vscode-descriptionForeground);
@@ -563,6 +1011,31 @@ export class PortalViewProvider implements vscode.Disposable {
 					border-radius: 12px;
 					overflow: hidden;
 				}
+				.settings-scope {
+					display: flex;
+					align-items: center;
+					flex-wrap: wrap;
+					gap: 8px;
+				}
+				.settings-scope .settings-field-hint {
+					margin-top: 0;
+					flex: 1;
+				}
+				.settings-scope__selector {
+					display: flex;
+					align-items: center;
+					gap: 8px;
+				}
+				.settings-scope .settings-scope__error {
+					color: var(--vscode-errorForeground);
+				}
+				.settings-source {
+					font-size: 11px;
+					padding: 2px 8px;
+					border-radius: 10px;
+					background: var(--vscode-badge-background);
+					color: var(--vscode-badge-foreground);
+				}
 				.settings-header {
 					display: flex;
 					align-items: center;
@@ -637,6 +1110,50 @@ export class PortalViewProvider implements vscode.Disposable {
 					outline: 1px solid var(--vscode-focusBorder);
 					outline-offset: -1px;
 				}
+				.settings-input {
+					background: var(--vscode-input-background);
+					color: var(--vscode-input-foreground);
+					border: 1px solid var(--vscode-input-border);
+					border-radius: 4px;
+					padding: 6px 8px;
+					font-size: 13px;
+					width: 80px;
+				}
+				.settings-input:focus {
+					outline: 1px solid var(--vscode-focusBorder);
+					outline-offset: -1px;
+				}
+				.settings-checkbox {
+					display: flex;
+					align-items: center;
+					gap: 8px;
+					font-size: 13px;
+					cursor: pointer;
+				}
+				.status-meta {
+					margin-top: 4px;
+					font-size: 11px;
+					color: var(--vscode-descriptionForeground);
+					white-space: nowrap;
+				}
+				.status-error {
+					margin-top: 4px;
+					font-size: 11px;
+					color: var(--vscode-errorForeground, #f44336);
+					max-width: 280px;
+					overflow: hidden;
+					text-overflow: ellipsis;
+					white-space: nowrap;
+				}
+				.status-warning {
+					margin-top: 4px;
+					font-size: 11px;
+					color: var(--vscode-editorWarning-foreground, #cca700);
+					max-width: 280px;
+					overflow: hidden;
+					text-overflow: ellipsis;
+					white-space: nowrap;
+				}
 				.settings-actions {
 					display: flex;
 					gap: 8px;
@@ -690,7 +1207,11 @@ export class PortalViewProvider implements vscode.Disposable {
 					const generateOutdatedButton = document.getElementById('generateOutdatedButton');
 					const outdatedButtonBaseLabel = (generateOutdatedButton?.textContent ?? 'Generate Out-of-date Folders').trim();
 					const refreshStatusButton = document.getElementById('refreshStatusButton');
+					const cancelButton = document.getElementById('cancelButton');
+					const acceptAllButton = document.getElementById('acceptAllButton');
 					const modelSelect = document.getElementById('modelSelect');
+					const targetSelector = document.getElementById('targetSelector');
+					const targetSelect = document.getElementById('targetSelect');
 					const loadingOverlay = document.getElementById('loadingOverlay');
 
 					if (generateOutdatedButton) {
@@ -698,6 +1219,16 @@ export class PortalViewProvider implements vscode.Disposable {
 						generateOutdatedButton.title = 'Waiting for status data...';
 					}
 					
+					// Settings scope elements (multi-root workspaces and configuration files)
+					const settingsScope = document.getElementById('settingsScope');
+					const settingsScopeSelector = document.getElementById('settingsScopeSelector');
+					const settingsScopeSelect = document.getElementById('settingsScopeSelect');
+					const settingsScopeHint = document.getElementById('settingsScopeHint');
+					const useGlobalSettingsButton = document.getElementById('useGlobalSettings');
+					const configFileButton = document.getElementById('configFileButton');
+					const ignoreSourceLabel = document.getElementById('ignoreSourceLabel');
+					const promptSourceLabel = document.getElementById('promptSourceLabel');
+
 					// Ignore settings elements
 					const settingsHeader = document.getElementById('settingsHeader');
 					const settingsToggle = document.getElementById('settingsToggle');
@@ -715,6 +1246,39 @@ export class PortalViewProvider implements vscode.Disposable {
 					const subfolderTemplateTextarea = document.getElementById('subfolderTemplateTextarea');
 					const savePromptSettingsButton = document.getElementById('savePromptSettings');
 					const resetPromptSettingsButton = document.getElementById('resetPromptSettings');
+
+					// Generation settings elements
+					const generationSettingsHeader = document.getElementById('generationSettingsHeader');
+					const generationSettingsToggle = document.getElementById('generationSettingsToggle');
+					const generationSettingsContent = document.getElementById('generationSettingsContent');
+					const writePlaceholderCheckbox = document.getElementById('writePlaceholderCheckbox');
+					const reviewBeforeWritingCheckbox = document.getElementById('reviewBeforeWritingCheckbox');
+					const mergeStrategySelect = document.getElementById('mergeStrategySelect');
+					const referenceCheckSelect = document.getElementById('referenceCheckSelect');
+					const maxConcurrencyInput = document.getElementById('maxConcurrencyInput');
+					const minFilesInput = document.getElementById('minFilesInput');
+					const minCodeFilesInput = document.getElementById('minCodeFilesInput');
+					const collapseChainsCheckbox = document.getElementById('collapseChainsCheckbox');
+					const fallbackModelsTextarea = document.getElementById('fallbackModelsTextarea');
+					const fallbackToPreferredModelsCheckbox = document.getElementById('fallbackToPreferredModelsCheckbox');
+					const maxRetriesInput = document.getElementById('maxRetriesInput');
+					const modelEndpointUrlInput = document.getElementById('modelEndpointUrlInput');
+					const modelEndpointModelInput = document.getElementById('modelEndpointModelInput');
+					const modelEndpointKeyInput = document.getElementById('modelEndpointKeyInput');
+					const modelEndpointTokensInput = document.getElementById('modelEndpointTokensInput');
+					let modelEndpoint = { baseUrl: '', model: '', maxInputTokens: 0, hasApiKey: false };
+					const outputTargetsTextarea = document.getElementById('outputTargetsTextarea');
+					const outputTargetsHint = document.getElementById('outputTargetsHint');
+					const redactionPatternsTextarea = document.getElementById('redactionPatternsTextarea');
+					const deniedFilesTextarea = document.getElementById('deniedFilesTextarea');
+					const redactionHint = document.getElementById('redactionHint');
+					const fileTypesTextarea = document.getElementById('fileTypesTextarea');
+					const fileTypesHint = document.getElementById('fileTypesHint');
+					const includeFoldersTextarea = document.getElementById('includeFoldersTextarea');
+					const maxDepthInput = document.getElementById('maxDepthInput');
+					const depthFromSelect = document.getElementById('depthFromSelect');
+					const folderScopeHint = document.getElementById('folderScopeHint');
+					const saveGenerationSettingsButton = document.getElementById('saveGenerationSettings');
 					
 					// Status elements
 					const totalCountEl = document.getElementById('totalCount');
@@ -723,12 +1287,26 @@ export class PortalViewProvider implements vscode.Disposable {
 					const failedCountEl = document.getElementById('failedCount');
 					const tableBody = document.getElementById('folderTableBody');
 					const lastUpdatedEl = document.getElementById('lastUpdated');
+					const skippedFoldersEl = document.getElementById('skippedFolders');
+					const skippedFoldersSummary = document.getElementById('skippedFoldersSummary');
+					const skippedFoldersList = document.getElementById('skippedFoldersList');
 
 					let defaultIgnoreNames = [];
 					let defaultIgnorePatterns = [];
 					let defaultMainTemplate = '';
 					let defaultSubfolderTemplate = '';
+					let ignoreConfigs = { global: { names: [], patterns: [] }, roots: {}, files: {} };
+					let promptConfigs = { global: { mainTemplate: '', subfolderContextTemplate: '' }, roots: {}, files: {} };
+					let configFiles = [];
+					let outputTargets = { global: [], files: {} };
+					let redactionConfig = { global: { patterns: [], deniedFiles: [] }, files: {} };
+					let fileTypes = { global: [], files: {} };
+					let folderScope = { global: { include: [], maxDepth: 0, depthFrom: 'include' }, files: {} };
+					let workspaceRoots = [];
+					let settingsScopePath = '';
 					let dataLoaded = false;
+					let generationRunning = false;
+					let latestSnapshot = null;
 
 					// Notify extension that webview is ready
 					setTimeout(() => {
@@ -736,15 +1314,24 @@ export class PortalViewProvider implements vscode.Disposable {
 					}, 0);
 
 					generateButton.addEventListener('click', () => {
-						vscode.postMessage({ type: 'generate' });
+						vscode.postMessage({ type: 'generate', rootPath: targetSelect.value || undefined });
 					});
 
 					if (generateOutdatedButton) {
 						generateOutdatedButton.addEventListener('click', () => {
-							vscode.postMessage({ type: 'generateOutdated' });
+							vscode.postMessage({ type: 'generateOutdated', rootPath: targetSelect.value || undefined });
 						});
 					}
 
+					cancelButton.addEventListener('click', () => {
+						cancelButton.disabled = true;
+						vscode.postMessage({ type: 'cancelGeneration' });
+					});
+
+					acceptAllButton.addEventListener('click', () => {
+						vscode.postMessage({ type: 'acceptAllStaged' });
+					});
+
 					if (refreshStatusButton) {
 						refreshStatusButton.addEventListener('click', () => {
 							setRefreshButtonLoading(true);
@@ -757,6 +1344,34 @@ export class PortalViewProvider implements vscode.Disposable {
 						vscode.postMessage({ type: 'selectModel', modelId: modelId });
 					});
 
+					targetSelect.addEventListener('change', () => {
+						updateOutdatedButton(latestSnapshot);
+					});
+
+					settingsScopeSelect.addEventListener('change', () => {
+						settingsScopePath = settingsScopeSelect.value;
+						applyIgnoreConfig();
+						applyPromptConfig();
+						applyOutputTargets();
+						applyRedactionConfig();
+						applyFileTypes();
+						applyFolderScope();
+						updateSettingsScopeHint();
+					});
+
+					useGlobalSettingsButton.addEventListener('click', () => {
+						if (settingsScopePath) {
+							vscode.postMessage({ type: 'useGlobalSettings', rootPath: settingsScopePath });
+						}
+					});
+
+					configFileButton.addEventListener('click', () => {
+						const rootPath = getFileScopePath();
+						if (rootPath) {
+							vscode.postMessage({ type: 'openConfigFile', rootPath: rootPath });
+						}
+					});
+
 					settingsHeader.addEventListener('click', () => {
 						const isExpanded = settingsContent.classList.contains('expanded');
 						if (isExpanded) {
@@ -779,6 +1394,17 @@ export class PortalViewProvider implements vscode.Disposable {
 						}
 					});
 
+					generationSettingsHeader.addEventListener('click', () => {
+						const isExpanded = generationSettingsContent.classList.contains('expanded');
+						if (isExpanded) {
+							generationSettingsContent.classList.remove('expanded');
+							generationSettingsToggle.classList.remove('expanded');
+						} else {
+							generationSettingsContent.classList.add('expanded');
+							generationSettingsToggle.classList.add('expanded');
+						}
+					});
+
 					saveSettingsButton.addEventListener('click', () => {
 						const namesText = ignoreNamesTextarea.value.trim();
 						const patternsText = ignorePatternsTextarea.value.trim();
@@ -789,7 +1415,8 @@ export class PortalViewProvider implements vscode.Disposable {
 						vscode.postMessage({ 
 							type: 'updateIgnoreConfig', 
 							names: names,
-							patterns: patterns
+							patterns: patterns,
+							rootPath: settingsScopePath || undefined
 						});
 					});
 
@@ -810,7 +1437,8 @@ export class PortalViewProvider implements vscode.Disposable {
 						vscode.postMessage({ 
 							type: 'updatePromptConfig', 
 							mainTemplate: mainTemplate,
-							subfolderContextTemplate: subfolderTemplate
+							subfolderContextTemplate: subfolderTemplate,
+							rootPath: settingsScopePath || undefined
 						});
 					});
 
@@ -819,6 +1447,80 @@ export class PortalViewProvider implements vscode.Disposable {
 						subfolderTemplateTextarea.value = defaultSubfolderTemplate;
 					});
 
+					saveGenerationSettingsButton.addEventListener('click', () => {
+						vscode.postMessage({
+							type: 'updateGenerationConfig',
+							config: {
+								writePlaceholderOnFailure: writePlaceholderCheckbox.checked,
+								maxConcurrency: Number(maxConcurrencyInput.value) || 1,
+								reviewBeforeWriting: reviewBeforeWritingCheckbox.checked,
+								mergeStrategy: mergeStrategySelect.value,
+								referenceCheck: referenceCheckSelect.value,
+								minFiles: Math.max(0, Number(minFilesInput.value) || 0),
+								minCodeFiles: Math.max(0, Number(minCodeFilesInput.value) || 0),
+								collapseChains: collapseChainsCheckbox.checked,
+								maxRetries: Math.max(0, Number(maxRetriesInput.value) || 0),
+								fallbackModels: splitLines(fallbackModelsTextarea.value),
+								fallbackToPreferredModels: fallbackToPreferredModelsCheckbox.checked
+							}
+						});
+
+						// Only a changed endpoint is saved, as saving it lists the endpoint's models again
+						const endpointConfig = {
+							baseUrl: modelEndpointUrlInput.value.trim(),
+							model: modelEndpointModelInput.value.trim(),
+							maxInputTokens: Math.max(0, Number(modelEndpointTokensInput.value) || 0)
+						};
+						const apiKey = modelEndpointKeyInput.value;
+						if (apiKey
+							|| endpointConfig.baseUrl !== modelEndpoint.baseUrl
+							|| endpointConfig.model !== modelEndpoint.model
+							|| endpointConfig.maxInputTokens !== modelEndpoint.maxInputTokens) {
+							vscode.postMessage({
+								type: 'updateModelEndpoint',
+								config: { ...endpointConfig, apiKey: apiKey || undefined }
+							});
+							modelEndpointKeyInput.value = '';
+						}
+
+						if (!outputTargetsTextarea.readOnly) {
+							const targets = outputTargetsTextarea.value.split('\\n')
+								.map(line => line.trim())
+								.filter(line => line)
+								.map(line => ({ path: line }));
+							vscode.postMessage({ type: 'updateOutputTargets', targets: targets });
+						}
+
+						if (!includeFoldersTextarea.readOnly) {
+							vscode.postMessage({
+								type: 'updateFolderScope',
+								config: {
+									include: splitLines(includeFoldersTextarea.value),
+									maxDepth: Math.max(0, Math.floor(Number(maxDepthInput.value) || 0)),
+									depthFrom: depthFromSelect.value
+								}
+							});
+						}
+
+						if (!fileTypesTextarea.readOnly) {
+							const rules = splitLines(fileTypesTextarea.value).map(line => {
+								const [match, category, priority] = line.split(/\\s+/);
+								return priority === undefined ? { match, category } : { match, category, priority: Number(priority) };
+							});
+							vscode.postMessage({ type: 'updateFileTypes', rules: rules });
+						}
+
+						if (!redactionPatternsTextarea.readOnly) {
+							vscode.postMessage({
+								type: 'updateRedactionConfig',
+								config: {
+									patterns: splitLines(redactionPatternsTextarea.value),
+									deniedFiles: splitLines(deniedFilesTextarea.value)
+								}
+							});
+						}
+					});
+
 					window.addEventListener('message', event => {
 						const { type, data } = event.data ?? {};
 						if (type === 'statusUpdate') {
@@ -827,12 +1529,32 @@ export class PortalViewProvider implements vscode.Disposable {
 							if (data && data.items && data.items.length > 0) {
 								hideLoadingIfReady();
 							}
+						} else if (type === 'statusDelta') {
+							if (latestSnapshot && data) {
+								renderStatus(applyStatusDelta(latestSnapshot, data));
+							}
 						} else if (type === 'modelsUpdate') {
 							renderModels(data);
 						} else if (type === 'ignoreConfigUpdate') {
 							renderIgnoreConfig(data);
 						} else if (type === 'promptConfigUpdate') {
 							renderPromptConfig(data);
+						} else if (type === 'configFilesUpdate') {
+							renderConfigFiles(data);
+						} else if (type === 'outputTargetsUpdate') {
+							renderOutputTargets(data);
+						} else if (type === 'redactionConfigUpdate') {
+							renderRedactionConfig(data);
+						} else if (type === 'fileTypesUpdate') {
+							renderFileTypes(data);
+						} else if (type === 'folderScopeUpdate') {
+							renderFolderScope(data);
+						} else if (type === 'generationConfigUpdate') {
+							renderGenerationConfig(data);
+						} else if (type === 'modelEndpointUpdate') {
+							renderModelEndpoint(data);
+						} else if (type === 'generationStateUpdate') {
+							renderGenerationState(data);
 						}
 					});
 
@@ -858,14 +1580,23 @@ export class PortalViewProvider implements vscode.Disposable {
 						}
 					}
 
+					function renderGenerationState(data) {
+						generationRunning = Boolean(data?.running);
+						cancelButton.disabled = false;
+						cancelButton.classList.toggle('visible', generationRunning);
+						generateButton.disabled = generationRunning;
+						updateOutdatedButton(latestSnapshot);
+					}
+
 					function updateOutdatedButton(snapshot) {
 						if (!generateOutdatedButton) {
 							return;
 						}
-						const items = Array.isArray(snapshot?.items) ? snapshot.items : [];
+						const allItems = Array.isArray(snapshot?.items) ? snapshot.items : [];
+						const items = targetSelect.value ? allItems.filter((item) => item.rootPath === targetSelect.value) : allItems;
 						const hasItems = items.length > 0;
 						const outdatedCount = hasItems ? items.filter((item) => !item.isUpToDate).length : 0;
-						generateOutdatedButton.disabled = !hasItems || outdatedCount === 0;
+						generateOutdatedButton.disabled = generationRunning || !hasItems || outdatedCount === 0;
 						generateOutdatedButton.textContent = outdatedButtonBaseLabel + ' (' + outdatedCount + ')';
 						if (!hasItems) {
 							generateOutdatedButton.title = 'Waiting for status data...';
@@ -876,14 +1607,24 @@ export class PortalViewProvider implements vscode.Disposable {
 						}
 					}
 
+					function updateAcceptAllButton(snapshot) {
+						const pendingCount = snapshot?.pendingReview ?? 0;
+						acceptAllButton.classList.toggle('visible', pendingCount > 0);
+						acceptAllButton.textContent = 'Accept All (' + pendingCount + ')';
+					}
+
 					function renderStatus(snapshot) {
+						latestSnapshot = snapshot;
 						totalCountEl.textContent = String(snapshot?.total ?? 0);
 						completedCountEl.textContent = String(snapshot?.completed ?? 0);
 						inProgressCountEl.textContent = String(snapshot?.inProgress ?? 0);
 						failedCountEl.textContent = String(snapshot?.failed ?? 0);
 						lastUpdatedEl.textContent = snapshot?.lastUpdated || '--';
 						setRefreshButtonLoading(false);
+						renderRoots(Array.isArray(snapshot?.roots) ? snapshot.roots : []);
 						updateOutdatedButton(snapshot);
+						updateAcceptAllButton(snapshot);
+						renderSkippedFolders(Array.isArray(snapshot?.skipped) ? snapshot.skipped : []);
 
 						tableBody.innerHTML = '';
 
@@ -898,7 +1639,19 @@ export class PortalViewProvider implements vscode.Disposable {
 							return;
 						}
 
+						const roots = Array.isArray(snapshot.roots) ? snapshot.roots : [];
+						let currentRootPath;
+
 						snapshot.items.forEach(item => {
+							// Group rows by workspace folder when more than one is open
+							if (roots.length > 1 && item.rootPath !== currentRootPath) {
+								currentRootPath = item.rootPath;
+								const root = roots.find((candidate) => candidate.path === item.rootPath);
+								if (root) {
+									tableBody.appendChild(createRootRow(root));
+								}
+							}
+
 							const row = document.createElement('tr');
 							row.title = item.path;
 
@@ -926,7 +1679,7 @@ export class PortalViewProvider implements vscode.Disposable {
 									e.stopPropagation();
 									vscode.postMessage({ 
 										type: 'openAgentsFile', 
-										path: item.path 
+										filePath: item.outputFiles[0].path 
 									});
 								});
 							}
@@ -941,10 +1694,22 @@ export class PortalViewProvider implements vscode.Disposable {
 							}
 
 							folderCell.appendChild(folderLabel);
+							if (item.dependencies && (item.dependencies.imports.length > 0 || item.dependencies.importedBy.length > 0)) {
+								folderCell.appendChild(createDependenciesLabel(item.dependencies));
+							}
 							row.appendChild(folderCell);
 
 							const statusCell = document.createElement('td');
 							statusCell.appendChild(createStatusBadge(item.status));
+							if (item.modelId) {
+								statusCell.appendChild(createGenerationMeta(item));
+							}
+							if (item.error) {
+								statusCell.appendChild(createErrorLabel(item.error));
+							}
+							if (item.unknownReferences && item.unknownReferences.length > 0) {
+								statusCell.appendChild(createUnknownReferencesLabel(item.unknownReferences));
+							}
 							row.appendChild(statusCell);
 
 							const docsUpdatedCell = document.createElement('td');
@@ -957,9 +1722,18 @@ export class PortalViewProvider implements vscode.Disposable {
 
 							const docStateCell = document.createElement('td');
 							docStateCell.appendChild(createDocTag(item));
+							if (!item.isUpToDate && Array.isArray(item.changedFiles) && item.changedFiles.length > 0) {
+								docStateCell.appendChild(createChangedFilesList(item.changedFiles));
+							}
+							if (Array.isArray(item.outputFiles) && item.outputFiles.length > 1) {
+								docStateCell.appendChild(createOutputFilesList(item.outputFiles));
+							}
 							row.appendChild(docStateCell);
 
 							const actionsCell = document.createElement('td');
+							if (item.status === 'pending-review') {
+								appendReviewActions(actionsCell, item);
+							}
 							const generateBtn = document.createElement('button');
 							generateBtn.className = 'row-action-btn';
 							generateBtn.title = 'Generate AGENTS.md for this folder';
@@ -978,6 +1752,25 @@ export class PortalViewProvider implements vscode.Disposable {
 						});
 					}
 
+					function appendReviewActions(cell, item) {
+						const actions = [
+							{ type: 'reviewStaged', className: 'row-action-btn', title: 'Review diff', icon: '<path d="M2 2h5v12H2V2zm1 1v10h3V3H3zm6-1h5v12H9V2zm1 1v10h3V3h-3z"/>' },
+							{ type: 'acceptStaged', className: 'row-action-btn row-action-btn--accept', title: 'Accept the proposed changes', icon: '<path d="M6 10.6L3.4 8 2.3 9.1 6 12.8l7.7-7.7-1.1-1.1z"/>' },
+							{ type: 'rejectStaged', className: 'row-action-btn row-action-btn--reject', title: 'Reject the proposed changes', icon: '<path d="M8 7l3.5-3.5 1 1L9 8l3.5 3.5-1 1L8 9l-3.5 3.5-1-1L7 8 3.5 4.5l1-1z"/>' }
+						];
+						actions.forEach((action) => {
+							const button = document.createElement('button');
+							button.className = action.className;
+							button.title = action.title;
+							button.innerHTML = '<svg viewBox="0 0 16 16" xmlns="http://www.w3.org/2000/svg">' + action.icon + '</svg>';
+							button.addEventListener('click', (e) => {
+								e.stopPropagation();
+								vscode.postMessage({ type: action.type, path: item.path });
+							});
+							cell.appendChild(button);
+						});
+					}
+
 					function renderModels(data) {
 						const models = data?.models || [];
 						const selectedId = data?.selectedModelId;
@@ -995,7 +1788,8 @@ export class PortalViewProvider implements vscode.Disposable {
 						
 						modelSelect.disabled = false;
 						
-						// Add available models
+						// Add available models, grouped by the provider serving them
+						const groups = new Map();
 						models.forEach(model => {
 							const option = document.createElement('option');
 							option.value = model.id;
@@ -1003,20 +1797,238 @@ export class PortalViewProvider implements vscode.Disposable {
 							if (model.id === selectedId) {
 								option.selected = true;
 							}
-							modelSelect.appendChild(option);
+							const provider = model.provider || '';
+							if (!groups.has(provider)) {
+								const group = document.createElement('optgroup');
+								group.label = provider;
+								groups.set(provider, group);
+								modelSelect.appendChild(group);
+							}
+							groups.get(provider).appendChild(option);
 						});
 					}
 
+					function renderRoots(roots) {
+						const multiRoot = roots.length > 1;
+						workspaceRoots = roots;
+						targetSelector.style.display = multiRoot ? '' : 'none';
+						settingsScopeSelector.style.display = multiRoot ? '' : 'none';
+						fillRootOptions(targetSelect, roots, 'All workspace folders');
+						fillRootOptions(settingsScopeSelect, roots, 'Global (all workspace folders)');
+
+						settingsScopePath = settingsScopeSelect.value;
+						applyIgnoreConfig();
+						applyPromptConfig();
+						applyOutputTargets();
+						applyRedactionConfig();
+						applyFileTypes();
+						applyFolderScope();
+						updateSettingsScopeHint();
+					}
+
+					function fillRootOptions(select, roots, allLabel) {
+						const previousValue = select.value;
+						select.innerHTML = '';
+
+						const allOption = document.createElement('option');
+						allOption.value = '';
+						allOption.textContent = allLabel;
+						select.appendChild(allOption);
+
+						roots.forEach(root => {
+							const option = document.createElement('option');
+							option.value = root.path;
+							option.textContent = root.name;
+							option.title = root.path;
+							select.appendChild(option);
+						});
+
+						select.value = roots.some((root) => root.path === previousValue) ? previousValue : '';
+					}
+
+					// Workspace folder whose configuration file applies to the settings shown (the only one in a single-root workspace)
+					function getFileScopePath() {
+						if (settingsScopePath) {
+							return settingsScopePath;
+						}
+						return workspaceRoots.length === 1 ? workspaceRoots[0].path : '';
+					}
+
+					function getFileName(filePath) {
+						return filePath.split(/[\\\\/]/).pop();
+					}
+
+					function updateSettingsScopeHint() {
+						const fileScopePath = getFileScopePath();
+						const configFile = configFiles.find((file) => file.rootPath === fileScopePath);
+						const hasOverride = Boolean(settingsScopePath)
+							&& (Boolean(ignoreConfigs.roots[settingsScopePath]) || Boolean(promptConfigs.roots[settingsScopePath]));
+
+						settingsScope.style.display = settingsScopeSelector.style.display === 'none' && !fileScopePath ? 'none' : '';
+						useGlobalSettingsButton.style.display = hasOverride ? '' : 'none';
+						configFileButton.style.display = fileScopePath ? '' : 'none';
+						configFileButton.textContent = configFile ? 'Open ' + getFileName(configFile.filePath) : 'Create .agentsmd.json';
+						settingsScopeHint.classList.toggle('settings-scope__error', Boolean(configFile && configFile.errors.length > 0));
+
+						if (configFile && configFile.errors.length > 0) {
+							settingsScopeHint.textContent = getFileName(configFile.filePath) + ' is invalid and was not applied: ' + configFile.errors.join('; ');
+						} else if (configFile) {
+							settingsScopeHint.textContent = 'Settings defined in ' + getFileName(configFile.filePath) + ' take precedence and can only be changed in the file';
+						} else if (!settingsScopePath) {
+							settingsScopeHint.textContent = workspaceRoots.length > 1
+								? 'Applies to every workspace folder without its own settings'
+								: 'Saved on this machine only; create .agentsmd.json to share settings with your team';
+						} else if (hasOverride) {
+							settingsScopeHint.textContent = 'This workspace folder overrides the global settings';
+						} else {
+							settingsScopeHint.textContent = 'Using global settings; saving creates an override for this workspace folder';
+						}
+					}
+
+					function renderSettingsSource(element, fileConfig, rootConfig) {
+						const configFile = configFiles.find((file) => file.rootPath === getFileScopePath());
+						if (fileConfig && configFile) {
+							element.textContent = getFileName(configFile.filePath);
+							element.title = configFile.filePath;
+						} else if (rootConfig) {
+							element.textContent = 'Workspace folder';
+							element.title = 'Saved for this workspace folder on this machine';
+						} else {
+							element.textContent = 'Global';
+							element.title = 'Saved on this machine';
+						}
+					}
+
+					function renderConfigFiles(data) {
+						configFiles = Array.isArray(data) ? data : [];
+						applyIgnoreConfig();
+						applyPromptConfig();
+						applyOutputTargets();
+						applyRedactionConfig();
+						applyFileTypes();
+						applyFolderScope();
+						updateSettingsScopeHint();
+					}
+
+					function renderOutputTargets(data) {
+						if (!data) {
+							return;
+						}
+
+						outputTargets = { global: data.global || [], files: data.files || {} };
+						applyOutputTargets();
+					}
+
+					function applyOutputTargets() {
+						const fileTargets = outputTargets.files[getFileScopePath()];
+						const configFile = configFiles.find((file) => file.rootPath === getFileScopePath());
+						const targets = fileTargets || outputTargets.global;
+						outputTargetsTextarea.value = targets.map(target => target.path).join('\\n');
+						outputTargetsTextarea.readOnly = Boolean(fileTargets);
+						outputTargetsHint.textContent = fileTargets && configFile
+							? 'Defined in ' + getFileName(configFile.filePath) + ' for this workspace folder'
+							: 'One path per line; the first one is read back as sub-folder context. Paths starting with / are relative to the workspace folder, {{FOLDER_ID}} is replaced by the folder path. Format (Markdown, Copilot instructions, Cursor rule) is inferred from the file name.';
+					}
+
+					function renderRedactionConfig(data) {
+						if (!data || !data.global) {
+							return;
+						}
+
+						redactionConfig = { global: data.global, files: data.files || {} };
+						applyRedactionConfig();
+					}
+
+					function applyRedactionConfig() {
+						const fileConfig = redactionConfig.files[getFileScopePath()];
+						const configFile = configFiles.find((file) => file.rootPath === getFileScopePath());
+						const config = fileConfig || redactionConfig.global;
+						redactionPatternsTextarea.value = config.patterns.join('\\n');
+						deniedFilesTextarea.value = config.deniedFiles.join('\\n');
+						redactionPatternsTextarea.readOnly = Boolean(fileConfig);
+						deniedFilesTextarea.readOnly = Boolean(fileConfig);
+						redactionHint.textContent = fileConfig && configFile
+							? 'Defined in ' + getFileName(configFile.filePath) + ' for this workspace folder'
+							: 'Private keys, AWS keys, JWTs, password assignments and high-entropy strings are always redacted. Files matching the deny-list are listed without their content.';
+					}
+
+					function renderFolderScope(data) {
+						if (!data || !data.global) {
+							return;
+						}
+
+						folderScope = { global: data.global, files: data.files || {} };
+						applyFolderScope();
+					}
+
+					function applyFolderScope() {
+						const fileScope = folderScope.files[getFileScopePath()];
+						const configFile = configFiles.find((file) => file.rootPath === getFileScopePath());
+						const scope = fileScope || folderScope.global;
+						includeFoldersTextarea.value = scope.include.join('\\n');
+						maxDepthInput.value = String(scope.maxDepth ?? 0);
+						depthFromSelect.value = scope.depthFrom === 'root' ? 'root' : 'include';
+						includeFoldersTextarea.readOnly = Boolean(fileScope);
+						maxDepthInput.disabled = Boolean(fileScope);
+						depthFromSelect.disabled = Boolean(fileScope);
+						folderScopeHint.textContent = fileScope && configFile
+							? 'Defined in ' + getFileName(configFile.filePath) + ' for this workspace folder'
+							: 'One folder pattern per line, relative to the workspace folder (* within a folder name, ** across folders). Leave empty to document the whole workspace folder. Max depth 0 means no limit. Folders outside the scope are not generated or listed.';
+					}
+
+					function renderFileTypes(data) {
+						if (!data) {
+							return;
+						}
+
+						fileTypes = { global: data.global || [], files: data.files || {} };
+						applyFileTypes();
+					}
+
+					function applyFileTypes() {
+						const fileRules = fileTypes.files[getFileScopePath()];
+						const configFile = configFiles.find((file) => file.rootPath === getFileScopePath());
+						const rules = fileRules || fileTypes.global;
+						fileTypesTextarea.value = rules
+							.map(rule => [rule.match, rule.category].concat(rule.priority === undefined ? [] : [rule.priority]).join(' '))
+							.join('\\n');
+						fileTypesTextarea.readOnly = Boolean(fileRules);
+						fileTypesHint.textContent = fileRules && configFile
+							? 'Defined in ' + getFileName(configFile.filePath) + ' for this workspace folder'
+							: 'One rule per line: match, category (code, config, doc, binary or other) and an optional priority. Match an extension (.kt), a file name (Makefile) or a pattern (*.config.js). Added to the built-in rules; higher priorities win.';
+					}
+
+					function splitLines(value) {
+						return value.split('\\n')
+							.map(line => line.trim())
+							.filter(line => line);
+					}
+
 					function renderIgnoreConfig(data) {
 						if (!data) {
 							return;
 						}
 						
-						defaultIgnoreNames = data.names || [];
-						defaultIgnorePatterns = data.patterns || [];
+						ignoreConfigs = {
+							global: data.global || { names: [], patterns: [] },
+							roots: data.roots || {},
+							files: data.files || {}
+						};
+						applyIgnoreConfig();
+						updateSettingsScopeHint();
+					}
+
+					function applyIgnoreConfig() {
+						const fileConfig = ignoreConfigs.files[getFileScopePath()];
+						const rootConfig = ignoreConfigs.roots[settingsScopePath];
+						const config = fileConfig || rootConfig || ignoreConfigs.global;
+						defaultIgnoreNames = config.names || [];
+						defaultIgnorePatterns = config.patterns || [];
 						
 						ignoreNamesTextarea.value = defaultIgnoreNames.join('\\n');
 						ignorePatternsTextarea.value = defaultIgnorePatterns.join('\\n');
+						saveSettingsButton.disabled = Boolean(fileConfig);
+						renderSettingsSource(ignoreSourceLabel, fileConfig, rootConfig);
 					}
 
 					function renderPromptConfig(data) {
@@ -1024,11 +2036,89 @@ export class PortalViewProvider implements vscode.Disposable {
 							return;
 						}
 						
-						defaultMainTemplate = data.mainTemplate || '';
-						defaultSubfolderTemplate = data.subfolderContextTemplate || '';
+						promptConfigs = {
+							global: data.global || { mainTemplate: '', subfolderContextTemplate: '' },
+							roots: data.roots || {},
+							files: data.files || {}
+						};
+						applyPromptConfig();
+						updateSettingsScopeHint();
+					}
+
+					function applyPromptConfig() {
+						const fileConfig = promptConfigs.files[getFileScopePath()];
+						const rootConfig = promptConfigs.roots[settingsScopePath];
+						const config = fileConfig || rootConfig || promptConfigs.global;
+						defaultMainTemplate = config.mainTemplate || '';
+						defaultSubfolderTemplate = config.subfolderContextTemplate || '';
 						
 						mainTemplateTextarea.value = defaultMainTemplate;
 						subfolderTemplateTextarea.value = defaultSubfolderTemplate;
+						savePromptSettingsButton.disabled = Boolean(fileConfig);
+						renderSettingsSource(promptSourceLabel, fileConfig, rootConfig);
+					}
+
+					function applyStatusDelta(snapshot, delta) {
+						const removed = new Set(delta.removed || []);
+						const updated = new Map((delta.updated || []).map(item => [item.path, item]));
+						const items = (snapshot.items || [])
+							.filter(item => !removed.has(item.path) && !updated.has(item.path))
+							.concat(Array.from(updated.values()));
+						// Same order as full snapshots: workspace folder order, then path
+						const rootOrder = new Map((delta.roots || []).map((root, index) => [root.path, index]));
+						items.sort((a, b) => ((rootOrder.get(a.rootPath) ?? 0) - (rootOrder.get(b.rootPath) ?? 0)) || a.path.localeCompare(b.path));
+						return Object.assign({}, delta, { items: items, updated: undefined, removed: undefined });
+					}
+
+					function renderSkippedFolders(skipped) {
+						skippedFoldersEl.style.display = skipped.length > 0 ? '' : 'none';
+						skippedFoldersSummary.textContent = 'Skipped folders (' + skipped.length + ')';
+						skippedFoldersList.innerHTML = '';
+						const multiRoot = (latestSnapshot?.roots || []).length > 1;
+						skipped.forEach(folder => {
+							const item = document.createElement('li');
+							item.title = folder.path;
+							const name = document.createElement('span');
+							name.className = 'skipped-folder__name';
+							const root = multiRoot ? (latestSnapshot.roots.find((candidate) => candidate.path === folder.rootPath)?.name || '') : '';
+							name.textContent = (root ? root + ': ' : '') + folder.relativePath;
+							const reason = document.createElement('span');
+							reason.className = 'skipped-folder__reason';
+							reason.textContent = folder.reason;
+							item.appendChild(name);
+							item.appendChild(reason);
+							skippedFoldersList.appendChild(item);
+						});
+					}
+
+					function renderGenerationConfig(data) {
+						if (!data) {
+							return;
+						}
+	
+						writePlaceholderCheckbox.checked = Boolean(data.writePlaceholderOnFailure);
+						reviewBeforeWritingCheckbox.checked = Boolean(data.reviewBeforeWriting);
+						mergeStrategySelect.value = data.mergeStrategy === 'llm' ? 'llm' : 'sections';
+						referenceCheckSelect.value = data.referenceCheck || 'warn';
+						maxConcurrencyInput.value = String(data.maxConcurrency ?? 1);
+						minFilesInput.value = String(data.minFiles ?? 0);
+						minCodeFilesInput.value = String(data.minCodeFiles ?? 0);
+						collapseChainsCheckbox.checked = Boolean(data.collapseChains);
+						maxRetriesInput.value = String(data.maxRetries ?? 3);
+						fallbackModelsTextarea.value = (data.fallbackModels || []).join('\\n');
+						fallbackToPreferredModelsCheckbox.checked = Boolean(data.fallbackToPreferredModels);
+					}
+
+					function renderModelEndpoint(data) {
+						if (!data) {
+							return;
+						}
+						modelEndpoint = data;
+						modelEndpointUrlInput.value = data.baseUrl || '';
+						modelEndpointModelInput.value = data.model || '';
+						modelEndpointTokensInput.value = String(data.maxInputTokens || 0);
+						modelEndpointKeyInput.value = '';
+						modelEndpointKeyInput.placeholder = data.hasApiKey ? 'Saved - leave empty to keep it' : 'Optional, sent as a bearer token';
 					}
 
 					function formatTimestamp(value) {
@@ -1051,6 +2141,63 @@ export class PortalViewProvider implements vscode.Disposable {
 						return span;
 					}
 
+					function createGenerationMeta(item) {
+						const div = document.createElement('div');
+						div.className = 'status-meta';
+						let text = item.modelId;
+						if (item.fallbackFrom && item.fallbackFrom.length > 0) {
+							text += ' (fallback from ' + item.fallbackFrom.join(', ') + ')';
+						}
+						if (typeof item.inputTokens === 'number' && typeof item.outputTokens === 'number') {
+							text += ' · ' + item.inputTokens.toLocaleString() + ' in / ' + item.outputTokens.toLocaleString() + ' out';
+						}
+						div.textContent = text;
+						const details = [
+							'Generated: ' + formatTimestamp(item.generatedAt),
+							'Last attempt: ' + formatTimestamp(item.lastAttemptAt),
+							'Prompt template: ' + (item.promptTemplateHash || '--')
+						];
+						div.title = details.join('\\n');
+						return div;
+					}
+
+					function createErrorLabel(error) {
+						const div = document.createElement('div');
+						div.className = 'status-error';
+						const details = [error.code, error.modelId].filter(Boolean).join(', ');
+						div.textContent = details ? error.message + ' (' + details + ')' : error.message;
+						div.title = div.textContent;
+						return div;
+					}
+
+					function createDependenciesLabel(dependencies) {
+						const div = document.createElement('div');
+						div.className = 'folder-deps';
+						const parts = [];
+						const details = [];
+						if (dependencies.imports.length > 0) {
+							parts.push('Imports: ' + dependencies.imports.map(link => link.relativePath).join(', '));
+							details.push('Imports from:');
+							dependencies.imports.forEach(link => details.push('  ' + link.relativePath + (link.files.length > 0 ? ' (' + link.files.join(', ') + ')' : '')));
+						}
+						if (dependencies.importedBy.length > 0) {
+							parts.push('Imported by: ' + dependencies.importedBy.map(link => link.relativePath).join(', '));
+							details.push('Imported by:');
+							dependencies.importedBy.forEach(link => details.push('  ' + link.relativePath + ' (' + link.files.join(', ') + ')'));
+						}
+						div.textContent = parts.join(' · ');
+						div.title = details.join('\\n');
+						return div;
+					}
+
+					function createUnknownReferencesLabel(unknownReferences) {
+						const div = document.createElement('div');
+						div.className = 'status-warning';
+						div.textContent = unknownReferences.length + ' unknown reference' + (unknownReferences.length === 1 ? '' : 's') + ': ' + unknownReferences.join(', ');
+						div.title = 'Mentioned in the generated content but not found in the folder:\\n' + unknownReferences.join('\\n');
+						return div;
+					}
+
 					function createDocTag(item) {
 						const span = document.createElement('span');
 						let variant;
@@ -1073,6 +2220,60 @@ export class PortalViewProvider implements vscode.Disposable {
 						return span;
 					}
 
+					function createChangedFilesList(changedFiles) {
+						const maxShown = 5;
+						const list = document.createElement('div');
+						list.className = 'changed-files';
+						list.title = 'Changed since last generation:\\n' + changedFiles.join('\\n');
+						changedFiles.slice(0, maxShown).forEach(change => {
+							const entry = document.createElement('span');
+							entry.textContent = change;
+							list.appendChild(entry);
+						});
+						if (changedFiles.length > maxShown) {
+							const more = document.createElement('span');
+							more.textContent = '... and ' + (changedFiles.length - maxShown) + ' more';
+							list.appendChild(more);
+						}
+						return list;
+					}
+
+					function createRootRow(root) {
+						const row = document.createElement('tr');
+						row.className = 'root-row';
+						row.title = root.path;
+						const cell = document.createElement('td');
+						cell.colSpan = 6;
+						cell.textContent = root.name;
+						const counts = document.createElement('span');
+						counts.className = 'root-row__counts';
+						counts.textContent = root.completed + '/' + root.total + ' completed'
+							+ (root.failed > 0 ? ', ' + root.failed + ' failed' : '');
+						cell.appendChild(counts);
+						row.appendChild(cell);
+						return row;
+					}
+
+					function createOutputFilesList(outputFiles) {
+						const list = document.createElement('div');
+						list.className = 'output-files';
+						outputFiles.forEach(file => {
+							const entry = document.createElement('span');
+							const state = !file.exists ? 'missing' : (file.isUpToDate ? 'up to date' : 'needs update');
+							entry.className = 'output-files__entry output-files__entry--' + state.replace(/ /g, '-');
+							entry.textContent = file.relativePath + ': ' + state;
+							if (file.exists) {
+								entry.title = 'Open ' + file.path;
+								entry.addEventListener('click', (e) => {
+									e.stopPropagation();
+									vscode.postMessage({ type: 'openAgentsFile', filePath: file.path });
+								});
+							}
+							list.appendChild(entry);
+						});
+						return list;
+					}
+
 					function createDot() {
 						const dot = document.createElement('span');
 						dot.className = 'status-dot';
@@ -1087,6 +2288,8 @@ export class PortalViewProvider implements vscode.Disposable {
 								return 'In progress';
 							case 'failed':
 								return 'Failed';
+							case 'pending-review':
+								return 'Pending review';
 							default:
 								return 'Not started';
 						}
@@ -1126,6 +2329,14 @@ export class PortalViewProvider implements vscode.Disposable {
 							<option value="">Loading models...</option>
 						</select>
 					</div>
+					<div id="targetSelector" class="model-selector" style="display: none;">
+						<label class="model-selector-label" for="targetSelect">Target:</label>
+						<select id="targetSelect" class="model-select model-select--narrow" title="Workspace folders to generate">
+							<option value="">All workspace folders</option>
+						</select>
+					</div>
+					<button id="cancelButton" class="generate-btn generate-btn--cancel" title="Cancel the running generation">Cancel</button>
+					<button id="acceptAllButton" class="generate-btn generate-btn--accept" title="Write every staged change">Accept All</button>
 					<button id="generateOutdatedButton" class="generate-btn generate-btn--secondary" title="Generate only folders that are missing or outdated">Generate Out-of-date Folders</button>
 					<button id="generateButton" class="generate-btn">Generate AGENTS.md Files</button>
 				</div>
@@ -1150,12 +2361,25 @@ export class PortalViewProvider implements vscode.Disposable {
 				</div>
 			</section>
 
+			<section id="settingsScope" class="settings-scope" style="display: none;">
+				<div id="settingsScopeSelector" class="settings-scope__selector" style="display: none;">
+					<label class="model-selector-label" for="settingsScopeSelect">Settings for:</label>
+					<select id="settingsScopeSelect" class="model-select">
+						<option value="">Global (all workspace folders)</option>
+					</select>
+				</div>
+				<span id="settingsScopeHint" class="settings-field-hint"></span>
+				<button id="useGlobalSettings" class="btn-secondary" style="display: none;">Use Global Settings</button>
+				<button id="configFileButton" class="btn-secondary" style="display: none;">Create .agentsmd.json</button>
+			</section>
+
 			<section class="settings-section">
 				<div id="settingsHeader" class="settings-header">
 					<div class="settings-header-left">
 						<span id="settingsToggle" class="settings-toggle">▶</span>
 						<h3>Ignore Configuration</h3>
 					</div>
+					<span id="ignoreSourceLabel" class="settings-source" title="Active settings source">Global</span>
 				</div>
 				<div id="settingsContent" class="settings-content">
 					<div class="settings-body">
@@ -1176,7 +2400,7 @@ export class PortalViewProvider implements vscode.Disposable {
 								class="settings-textarea" 
 								placeholder="Enter patterns (one per line)&#10;*.log&#10;*-tmp&#10;.vs*"
 							></textarea>
-							<span class="settings-field-hint">Wildcard patterns (* for any characters, one per line)</span>
+							<span class="settings-field-hint">Wildcard patterns (* for any characters, one per line). Rules from .gitignore and .agentsignore files are applied as well.</span>
 						</div>
 						
 						<div class="settings-actions">
@@ -1193,6 +2417,7 @@ export class PortalViewProvider implements vscode.Disposable {
 						<span id="promptSettingsToggle" class="settings-toggle">▶</span>
 						<h3>Prompt Configuration</h3>
 					</div>
+					<span id="promptSourceLabel" class="settings-source" title="Active settings source">Global</span>
 				</div>
 				<div id="promptSettingsContent" class="settings-content">
 					<div class="settings-body">
@@ -1204,7 +2429,7 @@ export class PortalViewProvider implements vscode.Disposable {
 								placeholder="Enter the main prompt template"
 								style="min-height: 200px;"
 							></textarea>
-							<span class="settings-field-hint">Use {{SUBFOLDER_CONTEXT}} and {{FOLDER_STRUCTURE}} as placeholders</span>
+							<span class="settings-field-hint">Use {{SUBFOLDER_CONTEXT}}, {{FOLDER_STRUCTURE}}, {{SYMBOLS}} and {{DEPENDENCIES}} as placeholders</span>
 						</div>
 						
 						<div class="settings-field">
@@ -1226,6 +2451,167 @@ export class PortalViewProvider implements vscode.Disposable {
 				</div>
 			</section>
 
+			<section class="settings-section">
+				<div id="generationSettingsHeader" class="settings-header">
+					<div class="settings-header-left">
+						<span id="generationSettingsToggle" class="settings-toggle">▶</span>
+						<h3>Generation Settings</h3>
+					</div>
+				</div>
+				<div id="generationSettingsContent" class="settings-content">
+					<div class="settings-body">
+						<div class="settings-field">
+							<label class="settings-field-label" for="maxConcurrencyInput">Max Concurrent Folders</label>
+							<input type="number" id="maxConcurrencyInput" class="settings-input" min="1" max="16" step="1" />
+							<span class="settings-field-hint">Folders at the same level are generated in parallel; a parent always waits for its own sub-folders</span>
+						</div>
+
+						<div class="settings-field">
+							<label class="settings-field-label" for="fallbackModelsTextarea">Fallback Models</label>
+							<textarea 
+								id="fallbackModelsTextarea" 
+								class="settings-textarea" 
+								placeholder="One model ID per line, tried in order, e.g. gpt-5-codex"
+								style="min-height: 60px;"
+							></textarea>
+							<label class="settings-field-label" for="maxRetriesInput">Retries per Model</label>
+							<input type="number" id="maxRetriesInput" class="settings-input" min="0" max="10" step="1" />
+							<span class="settings-field-hint">Tried when the selected model is unavailable or keeps failing; leave empty to only use the selected model. Rate limits and network errors are retried with growing pauses before moving on to the next model.</span>
+							<label class="settings-checkbox">
+								<input type="checkbox" id="fallbackToPreferredModelsCheckbox" />
+								Then fall back to claude-sonnet-4.5, gpt-5-codex and auto
+							</label>
+							<span class="settings-field-hint">Folder contents may then be sent to a different provider than the selected model's.</span>
+						</div>
+
+						<div class="settings-field">
+							<label class="settings-field-label" for="modelEndpointUrlInput">OpenAI-compatible Endpoint</label>
+							<input type="text" id="modelEndpointUrlInput" class="settings-input" placeholder="http://localhost:11434/v1" />
+							<label class="settings-field-label" for="modelEndpointModelInput">Endpoint Model</label>
+							<input type="text" id="modelEndpointModelInput" class="settings-input" placeholder="Leave empty to list every model the server serves" />
+							<label class="settings-field-label" for="modelEndpointKeyInput">API Key</label>
+							<input type="password" id="modelEndpointKeyInput" class="settings-input" autocomplete="off" />
+							<label class="settings-field-label" for="modelEndpointTokensInput">Input Window (tokens)</label>
+							<input type="number" id="modelEndpointTokensInput" class="settings-input" min="0" step="1024" />
+							<span class="settings-field-hint">Ollama, llama.cpp, vLLM, LM Studio or any server with an OpenAI-style /chat/completions API. Its models are listed in the model dropdown next to Copilot's. The key is kept in VS Code's secret storage; clear the URL to remove the endpoint and its key. An input window of 0 uses 12,000 tokens.</span>
+						</div>
+
+						<div class="settings-field">
+							<label class="settings-field-label" for="minFilesInput">Minimum Files per Folder</label>
+							<input type="number" id="minFilesInput" class="settings-input" min="0" step="1" />
+							<label class="settings-field-label" for="minCodeFilesInput">Minimum Code Files per Folder</label>
+							<input type="number" id="minCodeFilesInput" class="settings-input" min="0" step="1" />
+							<label class="settings-checkbox">
+								<input type="checkbox" id="collapseChainsCheckbox" />
+								Document chains of single sub-folders (src/main/java/...) at the deepest folder
+							</label>
+							<span class="settings-field-hint">Counts the code, configuration and documentation files of the folder itself. Folders below the minimum are skipped unless they summarize several sub-folders; their files are still described by the parent. Skipped folders are listed below the folder status.</span>
+						</div>
+
+						<div class="settings-field">
+							<label class="settings-field-label" for="mergeStrategySelect">Merge With Existing AGENTS.md</label>
+							<select id="mergeStrategySelect" class="settings-input">
+								<option value="sections">Replace generated sections, keep custom ones</option>
+								<option value="llm">Ask the model to merge (extra request per folder)</option>
+							</select>
+							<span class="settings-field-hint">Wrap content in &lt;!-- agentsmd:keep --&gt; and &lt;!-- agentsmd:generated --&gt; to always keep it</span>
+						</div>
+
+						<div class="settings-field">
+							<label class="settings-field-label" for="referenceCheckSelect">Unknown Symbols and Paths</label>
+							<select id="referenceCheckSelect" class="settings-input">
+								<option value="warn">Show a warning in the folder status</option>
+								<option value="strip">Remove the lines that mention them</option>
+								<option value="reprompt">Ask the model to correct them (extra request when needed)</option>
+								<option value="off">Don't check</option>
+							</select>
+							<span class="settings-field-hint">Code spans, bold names and links in the generated content are checked against the folder's files and symbols</span>
+						</div>
+
+						<div class="settings-field">
+							<label class="settings-field-label" for="outputTargetsTextarea">Output Files</label>
+							<textarea 
+								id="outputTargetsTextarea" 
+								class="settings-textarea" 
+								placeholder="AGENTS.md&#10;CLAUDE.md&#10;/.github/copilot-instructions.md&#10;/.cursor/rules/{{FOLDER_ID}}.mdc"
+								style="min-height: 80px;"
+							></textarea>
+							<span id="outputTargetsHint" class="settings-field-hint"></span>
+						</div>
+
+						<div class="settings-field">
+							<label class="settings-field-label" for="redactionPatternsTextarea">Secret Patterns</label>
+							<textarea 
+								id="redactionPatternsTextarea" 
+								class="settings-textarea" 
+								placeholder="One regular expression per line, e.g. INTERNAL_TOKEN_[A-Z0-9]{32}&#10;Use a named group (?&lt;secret&gt;...) to redact only part of the match"
+								style="min-height: 60px;"
+							></textarea>
+						</div>
+
+						<div class="settings-field">
+							<label class="settings-field-label" for="deniedFilesTextarea">Never Send These Files</label>
+							<textarea 
+								id="deniedFilesTextarea" 
+								class="settings-textarea" 
+								placeholder=".env*&#10;*.pem"
+								style="min-height: 80px;"
+							></textarea>
+							<span id="redactionHint" class="settings-field-hint"></span>
+						</div>
+
+						<div class="settings-field">
+							<label class="settings-field-label" for="fileTypesTextarea">File Types</label>
+							<textarea 
+								id="fileTypesTextarea" 
+								class="settings-textarea" 
+								placeholder=".templ code&#10;*.generated.ts other&#10;schema.prisma config 1"
+								style="min-height: 60px;"
+							></textarea>
+							<span id="fileTypesHint" class="settings-field-hint"></span>
+						</div>
+
+						<div class="settings-field">
+							<label class="settings-field-label" for="includeFoldersTextarea">Only Document These Folders</label>
+							<textarea 
+								id="includeFoldersTextarea" 
+								class="settings-textarea" 
+								placeholder="packages/*&#10;services/*"
+								style="min-height: 60px;"
+							></textarea>
+							<label class="settings-field-label" for="maxDepthInput">Max Depth</label>
+							<input type="number" id="maxDepthInput" class="settings-input" min="0" step="1" />
+							<label class="settings-field-label" for="depthFromSelect">Count Depth From</label>
+							<select id="depthFromSelect" class="settings-input">
+								<option value="include">Each matching folder</option>
+								<option value="root">The workspace folder</option>
+							</select>
+							<span id="folderScopeHint" class="settings-field-hint"></span>
+						</div>
+
+						<div class="settings-field">
+							<label class="settings-checkbox">
+								<input type="checkbox" id="writePlaceholderCheckbox" />
+								Write a placeholder AGENTS.md when generation fails
+							</label>
+							<span class="settings-field-hint">Only applies to folders without an AGENTS.md. Existing files are never modified when generation fails.</span>
+						</div>
+
+						<div class="settings-field">
+							<label class="settings-checkbox">
+								<input type="checkbox" id="reviewBeforeWritingCheckbox" />
+								Review changes before writing
+							</label>
+							<span class="settings-field-hint">Generated content is staged; review the diff of each folder and accept or reject it before any file is written.</span>
+						</div>
+			
+						<div class="settings-actions">
+							<button id="saveGenerationSettings" class="generate-btn">Save Changes</button>
+						</div>
+					</div>
+				</div>
+			</section>
+
 			<section class="portal__status">
 				<div class="status-header">
 					<div class="status-header__text">
@@ -1256,6 +2642,10 @@ export class PortalViewProvider implements vscode.Disposable {
 						</tbody>
 					</table>
 				</div>
+				<details id="skippedFolders" class="skipped-folders" style="display: none;">
+					<summary id="skippedFoldersSummary">Skipped folders</summary>
+					<ul id="skippedFoldersList"></ul>
+				</details>
 				<div class="status-footer">Last updated: <span id="lastUpdated">--</span></div>
 			</section>
 		</div>
@@ -1273,3 +2663,14 @@ function getNonce() {
 	}
 	return text;
 }
+
+/**
+ * Apply a delta to snapshot items, keeping the order of full snapshots: workspace folder order, then path
+ */
+function patchStatusItems(items: StatusItem[], delta: StatusDelta): StatusItem[] {
+	const removed = new Set(delta.removed);
+	const updated = new Map(delta.updated.map(item => [item.path, item]));
+	const rootOrder = new Map(delta.roots.map((root, index) => [root.path, index]));
+	return [...items.filter(item => !removed.has(item.path) && !updated.has(item.path)), ...updated.values()]
+		.sort((a, b) => (rootOrder.get(a.rootPath) ?? 0) - (rootOrder.get(b.rootPath) ?? 0) || a.path.localeCompare(b.path));
+}
@@ -0,0 +1,107 @@
+/**
+ * A git pre-commit hook that warns when a commit touches folders whose AGENTS.md is missing or out of date.
+ *
+ * The hook runs `agentsmd check --staged` for the workspace folders it was installed for and never blocks the commit
+ * over AGENTS.md files. It runs the command line tool it was installed with, or else the one a project installs
+ * (`npx --no-install agentsmd`), and fails when there is neither, so commits aren't left unchecked without notice.
+ * Staleness is computed from the working tree, which matches the staged content unless files were edited after staging.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { FolderNode } from './folderScanner';
+
+const execFileAsync = promisify(execFile);
+
+// Identifies hooks written by installPreCommitHook, which may be replaced; any other hook is left alone
+const HOOK_MARKER = '# Installed by the AGENTS.md Generator';
+
+/**
+ * The folders containing files staged for commit, and their ancestors, among the given folders of a workspace folder
+ */
+export async function getStagedFolders(rootPath: string, folders: FolderNode[]): Promise<FolderNode[]> {
+	const { stdout } = await runGit(rootPath, ['diff', '--cached', '--name-only', '--relative', '-z']);
+	const stagedPaths = stdout.split('\0').filter(Boolean).map(relativePath => path.join(rootPath, relativePath));
+	return folders.filter(folder => folder.rootPath === rootPath
+		&& stagedPaths.some(filePath => filePath.startsWith(folder.path + path.sep)));
+}
+
+/**
+ * Write a pre-commit hook checking the given workspace folders to each git repository they belong to.
+ * A hook written earlier is replaced, so installing again updates the folders and the path of the command line tool.
+ * @param cliPath Path of dist/cli.js, run with node by the hook
+ * @returns The hook files written
+ */
+export async function installPreCommitHook(rootPaths: string[], cliPath: string): Promise<string[]> {
+	const rootsByHook = new Map<string, string[]>();
+	for (const rootPath of rootPaths) {
+		const { stdout } = await runGit(rootPath, ['rev-parse', '--git-path', 'hooks/pre-commit']);
+		const hookPath = path.resolve(rootPath, stdout.trim());
+		rootsByHook.set(hookPath, [...rootsByHook.get(hookPath) ?? [], rootPath]);
+	}
+
+	for (const [hookPath, hookRoots] of rootsByHook) {
+		let existing: string | undefined;
+		try {
+			existing = await fs.promises.readFile(hookPath, 'utf-8');
+		} catch (error) {
+			// No hook yet – that's acceptable
+		}
+		if (existing !== undefined && !existing.includes(HOOK_MARKER)) {
+			throw new Error(`${hookPath} already exists. Add this line to it to check AGENTS.md files before commits:\n${formatCheckCommand(hookRoots, cliPath)}`);
+		}
+
+		try {
+			await fs.promises.mkdir(path.dirname(hookPath), { recursive: true });
+			await fs.promises.writeFile(hookPath, formatHook(hookRoots, cliPath), { encoding: 'utf-8', mode: 0o755 });
+			await fs.promises.chmod(hookPath, 0o755);
+		} catch (error) {
+			throw new Error(`Unable to write ${hookPath}: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	}
+
+	return [...rootsByHook.keys()];
+}
+
+function formatHook(rootPaths: string[], cliPath: string): string {
+	const missingMessage = `agentsmd: the command line tool is missing (${cliPath} and npx agentsmd), so AGENTS.md files were not checked.`
+		+ ' Install the hook again, or commit with --no-verify to skip the check.';
+	return [
+		'#!/bin/sh',
+		HOOK_MARKER + ': warns when staged changes leave AGENTS.md files missing or out of date.',
+		'# Stale files never block the commit; a missing command line tool does. Install it again after moving or updating the tool.',
+		`if command -v node >/dev/null 2>&1 && [ -f ${quoteShell(cliPath)} ]; then`,
+		`\t${formatCheckCommand(rootPaths, cliPath)} || echo "agentsmd: committing anyway" >&2`,
+		'elif npx --no-install agentsmd --help >/dev/null 2>&1; then',
+		`\t${formatCheckCommand(rootPaths)} || echo "agentsmd: committing anyway" >&2`,
+		'else',
+		`\techo ${quoteShell(missingMessage)} >&2`,
+		'\texit 1',
+		'fi',
+		'exit 0',
+		''
+	].join('\n');
+}
+
+/**
+ * @param cliPath Path of dist/cli.js; without it, the agentsmd command a project installs is run through npx
+ */
+function formatCheckCommand(rootPaths: string[], cliPath?: string): string {
+	const command = cliPath ? ['node', cliPath] : ['npx', '--no-install', 'agentsmd'];
+	return [...command, 'check', '--staged', ...rootPaths].map(quoteShell).join(' ');
+}
+
+function quoteShell(text: string): string {
+	return /^[\w@%+=:,./-]+$/.test(text) ? text : `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+async function runGit(cwd: string, args: string[]): Promise<{ stdout: string }> {
+	try {
+		return await execFileAsync('git', args, { cwd, maxBuffer: 16 * 1024 * 1024 });
+	} catch (error) {
+		const stderr = (error as { stderr?: string }).stderr?.trim();
+		throw new Error(`git ${args[0]} failed in ${cwd}: ${stderr || (error instanceof Error ? error.message : String(error))}`);
+	}
+}
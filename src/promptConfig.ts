@@ -1,3 +1,4 @@
+import * as crypto from 'crypto';
 
 export const DEFAULT_PROMPT_TEMPLATE = `You are a technical documentation expert. Analyze the following folder and generate a concise AGENTS.md file.
 
@@ -35,7 +36,7 @@ This section is for providing links to sub-folder documentation. Instructions wi
 
 ## Related Folders/Files (CONDITIONAL - only if there are external dependencies)
 ONLY include this section if there are meaningful external dependencies or relationships with other parts of the project.
-List critical dependencies discovered from import/require statements:
+List critical dependencies from the Folder Dependencies below (resolved from import/require statements):
 - **Path/to/folder**: Brief description of the relationship (imports from, exports to, depends on, etc.)
 - **Path/to/file**: Why this external file/folder is important to this folder
 
@@ -44,9 +45,16 @@ If there are no significant external dependencies, SKIP this entire section (do
 Folder Information:
 {{FOLDER_STRUCTURE}}
 
+Exported Symbols (outlined from the complete files, including parts truncated above):
+{{SYMBOLS}}
+
+Folder Dependencies (other folders of the project this folder imports from or is imported by):
+{{DEPENDENCIES}}
+
 IMPORTANT: 
 - Analyze actual code content, especially function/class definitions and imports
 - Include 2-3 key functions/classes per file in Key Components, but ONLY if they exist in the code
+- Take the names and signatures of functions, classes and interfaces from the Exported Symbols list
 - Identify external dependencies from import/require statements in the code
 - Document files from sub-folders WITHOUT AGENTS.md in the Key Components section
 - ONLY reference sub-folders that are listed in the Sub-folders section above
@@ -91,28 +99,107 @@ let runtimePromptConfig: PromptConfig = {
 	subfolderContextTemplate: DEFAULT_SUBFOLDER_CONTEXT_TEMPLATE
 };
 
+// Per-root overrides for multi-root workspaces, keyed by workspace folder path
+const runtimeRootPromptConfigs = new Map<string, PromptConfig>();
+
+// Templates from workspace configuration files (.agentsmd.json), keyed by workspace folder path.
+// They take precedence over everything stored in global state.
+const filePromptConfigs = new Map<string, Partial<PromptConfig>>();
+
 /**
- * Update the runtime prompt configuration
+ * Update the runtime prompt configuration, globally or for a single workspace folder
  */
-export function updatePromptConfig(config: PromptConfig): void {
+export function updatePromptConfig(config: PromptConfig, rootPath?: string): void {
+	if (rootPath) {
+		runtimeRootPromptConfigs.set(rootPath, { ...config });
+		return;
+	}
 	runtimePromptConfig = config;
 }
 
 /**
- * Get current prompt configuration
+ * Remove a workspace folder's override so it uses the global configuration again
  */
-export function getPromptConfig(): PromptConfig {
+export function clearRootPromptConfig(rootPath: string): void {
+	runtimeRootPromptConfigs.delete(rootPath);
+}
+
+/**
+ * Set (or remove, when undefined) the templates a workspace folder's configuration file defines
+ */
+export function updateFilePromptConfig(rootPath: string, config: Partial<PromptConfig> | undefined): void {
+	if (config) {
+		filePromptConfigs.set(rootPath, config);
+	} else {
+		filePromptConfigs.delete(rootPath);
+	}
+}
+
+/**
+ * Get current prompt configuration, taking a workspace folder's configuration file and override into account
+ */
+export function getPromptConfig(rootPath?: string): PromptConfig {
+	const fileConfig = rootPath ? filePromptConfigs.get(rootPath) : undefined;
+	const config = (rootPath ? runtimeRootPromptConfigs.get(rootPath) : undefined) ?? runtimePromptConfig;
 	return {
-		mainTemplate: runtimePromptConfig.mainTemplate,
-		subfolderContextTemplate: runtimePromptConfig.subfolderContextTemplate
+		mainTemplate: fileConfig?.mainTemplate ?? config.mainTemplate,
+		subfolderContextTemplate: fileConfig?.subfolderContextTemplate ?? config.subfolderContextTemplate
 	};
 }
 
+/**
+ * Get the effective configuration of every workspace folder whose configuration file defines prompt templates
+ */
+export function getFilePromptConfigs(): Record<string, PromptConfig> {
+	const configs: Record<string, PromptConfig> = {};
+	for (const rootPath of filePromptConfigs.keys()) {
+		configs[rootPath] = getPromptConfig(rootPath);
+	}
+	return configs;
+}
+
+/**
+ * Get all per-root overrides, keyed by workspace folder path
+ */
+export function getRootPromptConfigs(): Record<string, PromptConfig> {
+	return Object.fromEntries(runtimeRootPromptConfigs);
+}
+
+/**
+ * Short hash of the prompt templates in effect, recorded with each generation
+ */
+export function getPromptTemplateHash(rootPath?: string): string {
+	const config = getPromptConfig(rootPath);
+	return crypto.createHash('sha256')
+		.update(config.mainTemplate)
+		.update('\0')
+		.update(config.subfolderContextTemplate)
+		.digest('hex')
+		.substring(0, 12);
+}
+
+/**
+ * Headings of the sections the templates ask the model to write, which a merge replaces rather than keeps
+ */
+export function getTemplateSectionTitles(rootPath?: string): string[] {
+	const config = getPromptConfig(rootPath);
+	const titles: string[] = [];
+	for (const template of [config.mainTemplate, config.subfolderContextTemplate]) {
+		for (const match of template.matchAll(/^#{1,6}\s+(.+)$/gm)) {
+			titles.push(match[1].trim());
+		}
+	}
+	return titles;
+}
+
 export function buildPrompt(
 	folderStructure: string,
-	subfolderDocs?: Map<string, string>
+	subfolderDocs?: Map<string, string>,
+	rootPath?: string,
+	symbols = '',
+	dependencies = ''
 ): string {
-	const config = getPromptConfig();
+	const config = getPromptConfig(rootPath);
 	let prompt = config.mainTemplate;
 
 	// Add subfolder context if available
@@ -151,6 +238,19 @@ INSTRUCTIONS:
 		prompt = prompt.replace('{{SUBFOLDER_CONTEXT}}', noSubfoldersMessage);
 	}
 
+	// Add symbols and dependencies; templates written before these placeholders existed get them after the folder structure
+	const sections = [
+		{ placeholder: '{{SYMBOLS}}', heading: 'Exported Symbols', text: symbols, emptyText: 'No exported symbols were found.' },
+		{ placeholder: '{{DEPENDENCIES}}', heading: 'Folder Dependencies', text: dependencies, emptyText: 'No imports from or by other folders were found.' }
+	];
+	for (const section of sections) {
+		if (prompt.includes(section.placeholder)) {
+			prompt = prompt.replace(section.placeholder, () => section.text || section.emptyText);
+		} else if (section.text) {
+			folderStructure += `\n## ${section.heading}:\n\n${section.text}`;
+		}
+	}
+
 	// Add folder structure
 	prompt = prompt.replace('{{FOLDER_STRUCTURE}}', folderStructure);
 
@@ -0,0 +1,159 @@
+/**
+ * Checks generated documentation for names that don't exist in the documented folder.
+ *
+ * Code spans, bold text and link targets are read from the Markdown. Those that look like file paths are
+ * checked on disk, those that look like identifiers against the identifiers of the folder's files.
+ * Anything else (prose in bold, shell commands in code spans, globs, URLs) is not checked.
+ */
+
+export interface ReferenceIndex {
+	/** Identifiers appearing in the folder's files and sub-folder docs, a superset of the extracted symbols */
+	identifiers: Set<string>;
+	/** Whether a path mentioned in the documentation exists */
+	pathExists(reference: string): boolean;
+}
+
+interface DocumentReference {
+	/** The name or path a code span, bold text or link refers to */
+	name: string;
+	kind: 'identifier' | 'path';
+}
+
+// Extensions that make "name.ext" a file rather than a member access like "vscode.lm"
+const FILE_EXTENSIONS = new Set([
+	'ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'mts', 'cts', 'json', 'jsonc', 'md', 'mdc', 'txt', 'py', 'go', 'rs', 'java',
+	'cs', 'cpp', 'c', 'h', 'hpp', 'rb', 'kt', 'swift', 'php', 'yml', 'yaml', 'toml', 'xml', 'html', 'css', 'scss', 'sh',
+	'lock', 'gradle', 'sql', 'proto', 'vue', 'svelte'
+]);
+
+const CODE_FENCE = /^\s{0,3}(```|~~~)/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+\.)\s/;
+const REFERENCE_PATTERNS = [
+	{ pattern: /`([^`\n]+)`/g, codeSpan: true },
+	{ pattern: /\*\*([^*\n]+)\*\*/g, codeSpan: false },
+	{ pattern: /\]\(([^)\s]+)\)/g, codeSpan: true }
+];
+const IDENTIFIER = /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/;
+
+/**
+ * Names and paths mentioned in the Markdown that don't exist, each listed once as written
+ */
+export function findInvalidReferences(markdown: string, index: ReferenceIndex): string[] {
+	const invalid = new Set<string>();
+	forEachProseLine(markdown, line => {
+		for (const reference of extractLineReferences(line)) {
+			if (!isValidReference(reference, index)) {
+				invalid.add(reference.name);
+			}
+		}
+	});
+	return [...invalid];
+}
+
+/**
+ * Remove the list items, table rows and sentences that mention an invalid reference
+ */
+export function stripInvalidReferences(markdown: string, invalidNames: string[]): string {
+	const invalid = new Set(invalidNames);
+	const lines = markdown.split('\n');
+	const output: string[] = [];
+	let inCodeBlock = false;
+	// Indentation of a removed list item; its nested lines go with it
+	let removedItemIndent: number | undefined;
+
+	for (const line of lines) {
+		if (CODE_FENCE.test(line)) {
+			inCodeBlock = !inCodeBlock;
+		}
+		const indent = line.length - line.trimStart().length;
+		if (removedItemIndent !== undefined) {
+			if (line.trim() && indent > removedItemIndent) {
+				continue;
+			}
+			removedItemIndent = undefined;
+		}
+
+		const mentionsInvalid = !inCodeBlock && !/^\s*#/.test(line) &&
+			extractLineReferences(line).some(reference => invalid.has(reference.name));
+		if (!mentionsInvalid) {
+			output.push(line);
+			continue;
+		}
+
+		const listItem = LIST_ITEM.exec(line);
+		if (listItem || line.trimStart().startsWith('|')) {
+			removedItemIndent = listItem ? listItem[1].length : undefined;
+			continue;
+		}
+
+		const sentences = line.split(/(?<=[.!?])\s+/).filter(sentence =>
+			!extractLineReferences(sentence).some(reference => invalid.has(reference.name))
+		);
+		if (sentences.length > 0) {
+			output.push(sentences.join(' '));
+		}
+	}
+
+	return output.join('\n');
+}
+
+function isValidReference(reference: DocumentReference, index: ReferenceIndex): boolean {
+	if (reference.kind === 'path') {
+		return index.pathExists(reference.name);
+	}
+	return reference.name.split('.').every(segment => index.identifiers.has(segment));
+}
+
+function extractLineReferences(line: string): DocumentReference[] {
+	const references: DocumentReference[] = [];
+	for (const { pattern, codeSpan } of REFERENCE_PATTERNS) {
+		for (const match of line.matchAll(pattern)) {
+			const reference = classifyReference(match[1], codeSpan);
+			if (reference) {
+				references.push(reference);
+			}
+		}
+	}
+	return references;
+}
+
+/**
+ * Decide what a span refers to, or undefined when it isn't checked
+ */
+function classifyReference(text: string, codeSpan: boolean): DocumentReference | undefined {
+	// "**filename.ext**:", "`file.ts:12`" and "`run(options)`" refer to filename.ext, file.ts and run
+	let name = text.trim().replace(/:(\d+(-\d+)?)?$/, '').replace(/^([\w$.]+)\s*\(.*\)$/, '$1');
+	if (!name || /^[a-z][\w+.-]*:/i.test(name) || name.startsWith('#') || /[*{}<>]/.test(name)) {
+		return undefined;
+	}
+
+	if (name.includes('/') || isFileName(name)) {
+		name = name.replace(/#.*$/, '').replace(/^\.\//, '').replace(/\/$/, '');
+		return /\s/.test(name) || !name ? undefined : { name, kind: 'path' };
+	}
+
+	if (!IDENTIFIER.test(name)) {
+		return undefined;
+	}
+	// Bold text is usually prose; only names that look like code are checked
+	const looksLikeCode = /[._]|[a-z][A-Z]/.test(name) || text.includes('(');
+	return codeSpan || looksLikeCode ? { name, kind: 'identifier' } : undefined;
+}
+
+function isFileName(name: string): boolean {
+	const match = /^[\w@-][\w.@-]*\.(\w+)$/.exec(name);
+	return match !== null && FILE_EXTENSIONS.has(match[1].toLowerCase());
+}
+
+function forEachProseLine(markdown: string, callback: (line: string) => void): void {
+	let inCodeBlock = false;
+	for (const line of markdown.split('\n')) {
+		if (CODE_FENCE.test(line)) {
+			inCodeBlock = !inCodeBlock;
+			continue;
+		}
+		if (!inCodeBlock) {
+			callback(line);
+		}
+	}
+}
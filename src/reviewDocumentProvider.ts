@@ -0,0 +1,66 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getStagedGeneration, listStagedGenerations } from './stagedGenerations';
+
+export const REVIEW_URI_SCHEME = 'agentsmd-review';
+
+// Query of the empty document shown as the "existing" side when a file doesn't exist yet
+const EMPTY_DOCUMENT_QUERY = 'empty';
+
+/**
+ * Serves staged (proposed) output file content to VS Code's diff editor
+ */
+export class ReviewDocumentProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+	private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+	public readonly onDidChange = this.changeEmitter.event;
+
+	public provideTextDocumentContent(uri: vscode.Uri): string {
+		if (uri.query === EMPTY_DOCUMENT_QUERY) {
+			return '';
+		}
+		// Compare URI paths rather than fsPath, which normalizes the drive letter on Windows
+		for (const generation of listStagedGenerations()) {
+			const output = generation.outputs.find(candidate => vscode.Uri.file(candidate.filePath).path === uri.path);
+			if (output) {
+				return output.content;
+			}
+		}
+		return '';
+	}
+
+	/**
+	 * Refresh open review documents of a file after its staged content changed
+	 */
+	public notifyChanged(filePath: string): void {
+		this.changeEmitter.fire(vscode.Uri.from({ scheme: REVIEW_URI_SCHEME, path: vscode.Uri.file(filePath).path }));
+	}
+
+	public dispose(): void {
+		this.changeEmitter.dispose();
+	}
+}
+
+/**
+ * Open the diff editor comparing a folder's primary output file with its staged content
+ */
+export async function openStagedDiff(folderPath: string): Promise<boolean> {
+	const generation = getStagedGeneration(folderPath);
+	if (!generation) {
+		return false;
+	}
+
+	const { filePath } = generation.outputs[0];
+	const fileUri = vscode.Uri.file(filePath);
+	const proposedUri = fileUri.with({ scheme: REVIEW_URI_SCHEME });
+	let existingUri = fileUri;
+	try {
+		await vscode.workspace.fs.stat(fileUri);
+	} catch (error) {
+		// Nothing written yet, compare against an empty document
+		existingUri = fileUri.with({ scheme: REVIEW_URI_SCHEME, query: EMPTY_DOCUMENT_QUERY });
+	}
+
+	const title = `${path.relative(generation.rootPath, filePath)} (existing ↔ proposed)`;
+	await vscode.commands.executeCommand('vscode.diff', existingUri, proposedUri, title);
+	return true;
+}
@@ -0,0 +1,292 @@
+/**
+ * Redaction of secrets from file contents before they are sent to the model.
+ *
+ * Built-in detectors find private keys, AWS access keys, JWTs, credentials in connection strings,
+ * password/secret/API key assignments and high-entropy string literals. User patterns are regular
+ * expressions; a named group "secret" limits the redaction to that part of the match.
+ * Files on the deny-list are never read for the prompt at all; only their names are listed.
+ */
+
+import * as path from 'path';
+
+export interface RedactionConfig {
+	/** Regular expressions of additional secrets to redact */
+	patterns: string[];
+	/** Wildcard patterns (* and ?) of files whose content is never sent, matched against names and paths */
+	deniedFiles: string[];
+}
+
+/**
+ * A file whose content was redacted or withheld during the current run
+ */
+export interface RedactionReportEntry {
+	filePath: string;
+	/** Relative to the workspace folder, using forward slashes */
+	relativePath: string;
+	/** Number of redacted secrets by detector name */
+	redactions: Record<string, number>;
+	/** The file is on the deny-list, so its content was not sent at all */
+	withheld: boolean;
+}
+
+interface SecretDetector {
+	name: string;
+	/** Must use the d flag; the "secret" group (or the whole match) is replaced */
+	pattern: RegExp;
+	/** Rejects matches that look like code rather than a secret */
+	accept?: (secret: string) => boolean;
+}
+
+export const DEFAULT_DENIED_FILES = [
+	'.env*',
+	'*.pem',
+	'*.key',
+	'*.p12',
+	'*.pfx',
+	'*.jks',
+	'*.keystore',
+	'id_rsa*',
+	'id_dsa*',
+	'id_ecdsa*',
+	'id_ed25519*',
+	'.npmrc',
+	'.netrc',
+	'credentials.json'
+];
+
+export const DEFAULT_REDACTION_CONFIG: RedactionConfig = {
+	patterns: [],
+	deniedFiles: [...DEFAULT_DENIED_FILES]
+};
+
+const SECRET_KEY_NAMES = 'password|passwd|pwd|secret|api[_-]?key|access[_-]?key|auth[_-]?token|access[_-]?token|private[_-]?key|client[_-]?secret';
+// Bits per character above which a string literal is considered random
+const HIGH_ENTROPY_THRESHOLD = 4;
+
+const BUILT_IN_DETECTORS: SecretDetector[] = [
+	{
+		name: 'private key',
+		pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/dg
+	},
+	{
+		name: 'AWS access key',
+		pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/dg
+	},
+	{
+		name: 'JWT',
+		pattern: /\beyJ[\w-]{8,}\.eyJ[\w-]{8,}\.[\w-]{8,}/dg
+	},
+	{
+		name: 'connection string password',
+		pattern: /\b[a-z][\w+.-]*:\/\/[^\s:/@"'`]+:(?<secret>[^\s@/"'`]+)@/dgi,
+		accept: secret => !isPlaceholder(secret)
+	},
+	{
+		name: 'password assignment',
+		pattern: new RegExp(`[\\w.-]*(?:${SECRET_KEY_NAMES})[\\w.-]*["']?\\s*[:=]\\s*(["'\`])(?<secret>[^"'\`\\s]{4,})\\1`, 'dgi'),
+		accept: secret => !isPlaceholder(secret)
+	},
+	{
+		// KEY=value and key: value lines of .env, YAML and properties files
+		name: 'password assignment',
+		pattern: new RegExp(`^[ \\t]*(?:export[ \\t]+)?[\\w.-]*(?:${SECRET_KEY_NAMES})[\\w.-]*[ \\t]*[:=][ \\t]*(?<secret>[^\\s"'#;,]{6,})[ \\t]*$`, 'dgim'),
+		// Type annotations and references like "password: string" or "token: vscode.CancellationToken" aren't secrets
+		accept: secret => !isPlaceholder(secret) && (/\d/.test(secret) || /[^\w.$()[\]]/.test(secret))
+	},
+	{
+		name: 'high-entropy string',
+		pattern: /(["'`])(?<secret>[A-Za-z0-9+/=_-]{24,})\1/dg,
+		accept: secret => /\d/.test(secret) && /[A-Za-z]/.test(secret) && getShannonEntropy(secret) >= HIGH_ENTROPY_THRESHOLD
+	}
+];
+
+// Runtime configuration - updated from user settings
+let runtimeRedactionConfig: RedactionConfig = { ...DEFAULT_REDACTION_CONFIG };
+
+// Settings from workspace configuration files (.agentsmd.json), keyed by workspace folder path
+const fileRedactionConfigs = new Map<string, Partial<RedactionConfig>>();
+
+// Files redacted or withheld since the current run started, keyed by file path
+const redactionReport = new Map<string, RedactionReportEntry>();
+
+/**
+ * Update the runtime redaction configuration
+ */
+export function updateRedactionConfig(config: RedactionConfig): void {
+	runtimeRedactionConfig = { patterns: [...config.patterns], deniedFiles: [...config.deniedFiles] };
+}
+
+/**
+ * Set (or remove, when undefined) the redaction settings a workspace folder's configuration file defines
+ */
+export function updateFileRedactionConfig(rootPath: string, config: Partial<RedactionConfig> | undefined): void {
+	if (config) {
+		fileRedactionConfigs.set(rootPath, config);
+	} else {
+		fileRedactionConfigs.delete(rootPath);
+	}
+}
+
+/**
+ * Get the redaction settings in effect for a workspace folder
+ */
+export function getRedactionConfig(rootPath?: string): RedactionConfig {
+	const fileConfig = rootPath ? fileRedactionConfigs.get(rootPath) : undefined;
+	return {
+		patterns: [...(fileConfig?.patterns ?? runtimeRedactionConfig.patterns)],
+		deniedFiles: [...(fileConfig?.deniedFiles ?? runtimeRedactionConfig.deniedFiles)]
+	};
+}
+
+/**
+ * Get the effective configuration of every workspace folder whose configuration file defines redaction settings
+ */
+export function getFileRedactionConfigs(): Record<string, RedactionConfig> {
+	const configs: Record<string, RedactionConfig> = {};
+	for (const rootPath of fileRedactionConfigs.keys()) {
+		configs[rootPath] = getRedactionConfig(rootPath);
+	}
+	return configs;
+}
+
+/**
+ * Check user patterns, returning the problems found
+ */
+export function validateRedactionPatterns(patterns: string[]): string[] {
+	const errors: string[] = [];
+	for (const pattern of patterns) {
+		try {
+			new RegExp(pattern);
+		} catch (error) {
+			errors.push(`"${pattern}" is not a valid regular expression`);
+		}
+	}
+	return errors;
+}
+
+/**
+ * Whether a file's content must never be sent to the model
+ * @param relativePath Path relative to the workspace folder, for patterns containing /
+ */
+export function isDeniedFile(relativePath: string, rootPath?: string): boolean {
+	const normalizedPath = relativePath.split(path.sep).join('/');
+	const fileName = path.posix.basename(normalizedPath);
+	return getRedactionConfig(rootPath).deniedFiles.some(pattern =>
+		matchesWildcard(pattern.includes('/') ? normalizedPath : fileName, pattern.replace(/^\//, ''))
+	);
+}
+
+/**
+ * Replace the secrets in a file's content with [REDACTED:<detector>] markers
+ */
+export function redactSecrets(content: string, rootPath?: string): { content: string; redactions: Record<string, number> } {
+	const detectors = [...BUILT_IN_DETECTORS, ...getUserDetectors(rootPath)];
+	const ranges: Array<{ start: number; end: number; name: string }> = [];
+
+	for (const detector of detectors) {
+		for (const match of content.matchAll(detector.pattern)) {
+			const indices = match.indices?.groups?.secret ?? match.indices?.[0];
+			const secret = match.groups?.secret ?? match[0];
+			if (!indices || !secret || (detector.accept && !detector.accept(secret))) {
+				continue;
+			}
+			ranges.push({ start: indices[0], end: indices[1], name: detector.name });
+		}
+	}
+
+	// Earlier detectors win when matches overlap, e.g. a private key is not also reported as high-entropy strings
+	const redactions: Record<string, number> = {};
+	const applied: typeof ranges = [];
+	for (const range of ranges) {
+		if (applied.some(other => range.start < other.end && other.start < range.end)) {
+			continue;
+		}
+		applied.push(range);
+		redactions[range.name] = (redactions[range.name] ?? 0) + 1;
+	}
+
+	let redacted = content;
+	for (const range of applied.sort((a, b) => b.start - a.start)) {
+		redacted = redacted.substring(0, range.start) + `[REDACTED:${range.name}]` + redacted.substring(range.end);
+	}
+	return { content: redacted, redactions };
+}
+
+/**
+ * Start a new report, at the beginning of a generation run
+ */
+export function resetRedactionReport(): void {
+	redactionReport.clear();
+}
+
+/**
+ * Record the redactions made in a file; the same file read again for another part of the prompt isn't counted twice
+ */
+export function recordRedactions(filePath: string, relativePath: string, redactions: Record<string, number>, withheld = false): void {
+	if (!withheld && Object.keys(redactions).length === 0) {
+		return;
+	}
+	redactionReport.set(filePath, { filePath, relativePath, redactions, withheld });
+}
+
+/**
+ * Files redacted or withheld since the report was reset, ordered by path
+ */
+export function getRedactionReport(): RedactionReportEntry[] {
+	return [...redactionReport.values()].sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+}
+
+/**
+ * Format a report as a Markdown document
+ */
+export function formatRedactionReport(entries: RedactionReportEntry[]): string {
+	let text = '# Redaction Report\n\nSecrets replaced by [REDACTED:...] markers, and files whose content was withheld, in the content sent to the model.\n\n';
+	text += '| File | Redacted |\n| --- | --- |\n';
+	for (const entry of entries) {
+		const details = entry.withheld
+			? 'Content withheld (deny-list)'
+			: Object.entries(entry.redactions).map(([name, count]) => `${count} × ${name}`).join(', ');
+		text += `| ${entry.relativePath} | ${details} |\n`;
+	}
+	return text;
+}
+
+function getUserDetectors(rootPath?: string): SecretDetector[] {
+	const detectors: SecretDetector[] = [];
+	for (const pattern of getRedactionConfig(rootPath).patterns) {
+		try {
+			detectors.push({ name: 'custom pattern', pattern: new RegExp(pattern, 'dgm') });
+		} catch (error) {
+			console.error(`Ignoring invalid redaction pattern ${pattern}:`, error);
+		}
+	}
+	return detectors;
+}
+
+/**
+ * Values like ${DB_PASSWORD}, %PASSWORD%, <password> or *** are references, not secrets
+ */
+function isPlaceholder(value: string): boolean {
+	return /^[$%{<*]/.test(value) || /^x+$/i.test(value);
+}
+
+function getShannonEntropy(text: string): number {
+	const counts = new Map<string, number>();
+	for (const char of text) {
+		counts.set(char, (counts.get(char) ?? 0) + 1);
+	}
+	let entropy = 0;
+	for (const count of counts.values()) {
+		const probability = count / text.length;
+		entropy -= probability * Math.log2(probability);
+	}
+	return entropy;
+}
+
+function matchesWildcard(text: string, pattern: string): boolean {
+	const regexPattern = pattern
+		.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+		.replace(/\*/g, '.*')
+		.replace(/\?/g, '.');
+	return new RegExp(`^${regexPattern}$`).test(text);
+}
@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FolderFingerprint } from './folderFingerprint';
+import { GenerationMetadata } from './statusTypes';
+
+/**
+ * Content proposed for one output file
+ */
+export interface StagedOutput {
+	filePath: string;
+	content: string;
+	/** Content of the file on disk when the generation was staged, undefined when it didn't exist */
+	originalContent?: string;
+}
+
+/**
+ * A generation held for review instead of being written to the working tree
+ */
+export interface StagedGeneration {
+	folderPath: string;
+	rootPath: string;
+	/** Primary output file first */
+	outputs: StagedOutput[];
+	metadata: GenerationMetadata;
+	/** Fingerprint of the inputs the content was generated from */
+	fingerprint: FolderFingerprint;
+}
+
+/**
+ * Thrown when accepting a staged generation would overwrite output files edited since it was staged
+ */
+export class StagedOutputsEditedError extends Error {
+	constructor(public readonly filePaths: string[]) {
+		super(`${filePaths.map(filePath => path.basename(filePath)).join(', ')} changed since the generation was staged`);
+		this.name = 'StagedOutputsEditedError';
+	}
+}
+
+const stagedGenerations = new Map<string, StagedGeneration>();
+const stagedOutputs = new Map<string, string>();
+
+/**
+ * Stage a generation for review, replacing any previous one for the same folder
+ */
+export function stageGeneration(generation: StagedGeneration): void {
+	discardStagedGeneration(generation.folderPath);
+	stagedGenerations.set(generation.folderPath, generation);
+	for (const output of generation.outputs) {
+		stagedOutputs.set(output.filePath, output.content);
+	}
+}
+
+export function getStagedGeneration(folderPath: string): StagedGeneration | undefined {
+	return stagedGenerations.get(folderPath);
+}
+
+/**
+ * All staged generations, deepest folders first so parents are applied after their children
+ */
+export function listStagedGenerations(): StagedGeneration[] {
+	const depth = (folderPath: string) => folderPath.split(path.sep).length;
+	return [...stagedGenerations.values()].sort((a, b) => depth(b.folderPath) - depth(a.folderPath));
+}
+
+/**
+ * Proposed content of an output file, if a staged generation would write it
+ */
+export function getStagedOutputContent(filePath: string): string | undefined {
+	return stagedOutputs.get(filePath);
+}
+
+export function hasStagedOutput(filePath: string): boolean {
+	return stagedOutputs.has(filePath);
+}
+
+/**
+ * Drop a staged generation without writing anything
+ */
+export function discardStagedGeneration(folderPath: string): StagedGeneration | undefined {
+	const generation = stagedGenerations.get(folderPath);
+	if (!generation) {
+		return undefined;
+	}
+	stagedGenerations.delete(folderPath);
+	for (const output of generation.outputs) {
+		stagedOutputs.delete(output.filePath);
+	}
+	return generation;
+}
+
+/**
+ * Write a staged generation's output files and remove it from the staging area.
+ * Nothing is written, and the generation stays staged, if an output file was edited since it was staged,
+ * unless overwriteEdits is set.
+ * @throws StagedOutputsEditedError
+ */
+export async function applyStagedGeneration(folderPath: string, overwriteEdits = false): Promise<StagedGeneration | undefined> {
+	const generation = stagedGenerations.get(folderPath);
+	if (!generation) {
+		return undefined;
+	}
+
+	if (!overwriteEdits) {
+		const editedFiles: string[] = [];
+		for (const output of generation.outputs) {
+			if (await readOutputFile(output.filePath) !== output.originalContent) {
+				editedFiles.push(output.filePath);
+			}
+		}
+		if (editedFiles.length > 0) {
+			throw new StagedOutputsEditedError(editedFiles);
+		}
+	}
+
+	for (const output of generation.outputs) {
+		await fs.promises.mkdir(path.dirname(output.filePath), { recursive: true });
+		await fs.promises.writeFile(output.filePath, output.content, 'utf-8');
+	}
+
+	discardStagedGeneration(folderPath);
+	return generation;
+}
+
+/**
+ * Read an output file as it is on disk, undefined when it doesn't exist
+ */
+export async function readOutputFile(filePath: string): Promise<string | undefined> {
+	try {
+		return await fs.promises.readFile(filePath, 'utf-8');
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+			return undefined;
+		}
+		throw error;
+	}
+}
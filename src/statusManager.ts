@@ -1,8 +1,21 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { FolderNode } from './folderScanner';
-import { GenerationStatus, StatusSnapshot } from './statusTypes';
-import { PortalViewProvider } from './portalViewProvider';
+import { FolderNode, getSkippedFolders } from './folderScanner';
+import {
+	FolderStatusEntry,
+	GenerationStatus,
+	OutputFileStatus,
+	RootStatusSummary,
+	StatusDelta,
+	StatusItem,
+	StatusSnapshot,
+	StatusView,
+	WorkspaceRoot
+} from './statusTypes';
+import { computeFolderFingerprint, diffFingerprints } from './folderFingerprint';
+import { AGENTSMD_DATA_FOLDER, getManifestEntry } from './generationManifest';
+import { isOutputFile, resolveOutputFiles } from './outputTargets';
+import { getFolderDependencies } from './importGraph';
 
 const TIMESTAMP_IGNORED_DIRECTORIES = new Set([
 	'node_modules',
@@ -11,62 +24,153 @@ const TIMESTAMP_IGNORED_DIRECTORIES = new Set([
 	'out',
 	'build',
 	'.vscode',
-	'coverage'
+	'coverage',
+	AGENTSMD_DATA_FOLDER
 ]);
 
+// Latest content modification time of each folder (recursive), from the last full snapshot plus the changes seen since
+const latestContentMtimes = new Map<string, number | undefined>();
+
 export interface FolderDocStatusDetails {
+	/** Whether the primary output file (AGENTS.md by default) exists */
 	hasAgentsFile: boolean;
 	agentsUpdatedAt?: string;
 	contentUpdatedAt?: string;
+	/** Every output file is up to date */
 	isUpToDate: boolean;
+	/** Inputs added (+), removed (-) or modified (~) since the last generation */
+	changedFiles?: string[];
+	/** Status of each output file, primary first */
+	outputFiles: OutputFileStatus[];
 }
 
 /**
  * Update portal with current status
  */
 export async function updatePortalStatus(
-	portalViewProvider: PortalViewProvider | undefined,
+	portalViewProvider: StatusView | undefined,
 	discoveredFolders: FolderNode[],
-	folderStatusMap: Map<string, GenerationStatus>,
-	workspaceRootPath: string
+	folderStatusMap: Map<string, FolderStatusEntry>,
+	workspaceRoots: WorkspaceRoot[]
 ): Promise<void> {
 	if (!portalViewProvider) {
 		return;
 	}
-	const snapshot = await buildStatusSnapshot(discoveredFolders, folderStatusMap, workspaceRootPath);
+	const snapshot = await buildStatusSnapshot(discoveredFolders, folderStatusMap, workspaceRoots);
 	portalViewProvider.update(snapshot);
 }
 
 /**
- * Build status snapshot for portal display
+ * Send the portal only what changed since the last snapshot: the items of the given folders, and the folders removed
+ */
+export async function updatePortalStatusDelta(
+	portalViewProvider: StatusView | undefined,
+	discoveredFolders: FolderNode[],
+	folderStatusMap: Map<string, FolderStatusEntry>,
+	workspaceRoots: WorkspaceRoot[],
+	changedPaths: string[],
+	removedPaths: string[]
+): Promise<void> {
+	if (!portalViewProvider) {
+		return;
+	}
+	const changed = new Set(changedPaths);
+	const updated = await Promise.all(discoveredFolders
+		.filter(folder => changed.has(folder.path))
+		.map(folder => buildStatusItem(folder, folderStatusMap, true)));
+	const delta: StatusDelta = { ...summarizeWorkspace(discoveredFolders, folderStatusMap, workspaceRoots), updated, removed: removedPaths };
+	portalViewProvider.applyDelta(delta);
+}
+
+/**
+ * Record that content changed in the given folders at the given time, so deltas don't have to rescan them for it
+ */
+export function recordContentChange(folderPaths: string[], mtimeMs: number): void {
+	for (const folderPath of folderPaths) {
+		const latest = latestContentMtimes.get(folderPath);
+		latestContentMtimes.set(folderPath, typeof latest === 'number' ? Math.max(latest, mtimeMs) : mtimeMs);
+	}
+}
+
+/**
+ * Build status snapshot for portal display, grouped by workspace folder
  */
-async function buildStatusSnapshot(
+export async function buildStatusSnapshot(
 	discoveredFolders: FolderNode[],
-	folderStatusMap: Map<string, GenerationStatus>,
-	workspaceRootPath: string
+	folderStatusMap: Map<string, FolderStatusEntry>,
+	workspaceRoots: WorkspaceRoot[]
 ): Promise<StatusSnapshot> {
-	const total = discoveredFolders.length;
+	const rootOrder = new Map(workspaceRoots.map((root, index) => [root.path, index]));
 	const sortedForDisplay = [...discoveredFolders].sort((a, b) =>
-		a.path.localeCompare(b.path)
+		(rootOrder.get(a.rootPath) ?? 0) - (rootOrder.get(b.rootPath) ?? 0) || a.path.localeCompare(b.path)
 	);
 
-	const items = await Promise.all(sortedForDisplay.map(async (folder) => {
-		const status = folderStatusMap.get(folder.path) ?? GenerationStatus.NotStarted;
-		const relativePath = computeRelativeFolderPath(folder.path, workspaceRootPath);
-		const details = await getFolderStatusDetails(folder.path);
-		return {
-			path: folder.path,
-			name: folder.name,
-			relativePath,
-			depth: computeFolderDepth(relativePath, workspaceRootPath),
-			status,
-			...details
-		};
+	const items: StatusItem[] = await Promise.all(sortedForDisplay.map(folder => buildStatusItem(folder, folderStatusMap, false)));
+	return { ...summarizeWorkspace(discoveredFolders, folderStatusMap, workspaceRoots), items };
+}
+
+/**
+ * @param useRecordedMtime Use the content modification time recorded earlier instead of scanning the folder again
+ */
+async function buildStatusItem(
+	folder: FolderNode,
+	folderStatusMap: Map<string, FolderStatusEntry>,
+	useRecordedMtime: boolean
+): Promise<StatusItem> {
+	const entry = folderStatusMap.get(folder.path);
+	const status = entry?.status ?? GenerationStatus.NotStarted;
+	const relativePath = computeRelativeFolderPath(folder.path, folder.rootPath);
+	const details = await getFolderStatusDetails(folder, useRecordedMtime);
+	return {
+		path: folder.path,
+		name: folder.name,
+		rootPath: folder.rootPath,
+		relativePath,
+		depth: computeFolderDepth(relativePath, folder.rootPath),
+		...entry,
+		status,
+		...details,
+		dependencies: getFolderDependencies(folder.path)
+	};
+}
+
+/**
+ * Counts of every workspace folder and in total, which only depend on the statuses
+ */
+function summarizeWorkspace(
+	discoveredFolders: FolderNode[],
+	folderStatusMap: Map<string, FolderStatusEntry>,
+	workspaceRoots: WorkspaceRoot[]
+): Omit<StatusSnapshot, 'items'> {
+	const rootOrder = new Map(workspaceRoots.map((root, index) => [root.path, index]));
+	const statuses = discoveredFolders.map(folder => ({
+		rootPath: folder.rootPath,
+		status: folderStatusMap.get(folder.path)?.status ?? GenerationStatus.NotStarted
 	}));
 
+	const roots = workspaceRoots.map(root => summarizeStatus(root, statuses.filter(item => item.rootPath === root.path)));
+	const totals = summarizeStatus({ name: '', path: '' }, statuses);
+
+	return {
+		total: totals.total,
+		completed: totals.completed,
+		inProgress: totals.inProgress,
+		failed: totals.failed,
+		pendingReview: totals.pendingReview,
+		roots,
+		skipped: getSkippedFolders().filter(folder => rootOrder.has(folder.rootPath)),
+		lastUpdated: new Date().toLocaleTimeString()
+	};
+}
+
+/**
+ * Count statuses of a group of items
+ */
+function summarizeStatus(root: WorkspaceRoot, items: Array<{ status: GenerationStatus }>): RootStatusSummary {
 	let completed = 0;
 	let inProgress = 0;
 	let failed = 0;
+	let pendingReview = 0;
 
 	for (const item of items) {
 		switch (item.status) {
@@ -79,49 +183,102 @@ async function buildStatusSnapshot(
 			case GenerationStatus.Failed:
 				failed++;
 				break;
+			case GenerationStatus.PendingReview:
+				pendingReview++;
+				break;
 		}
 	}
 
 	return {
-		total,
+		name: root.name,
+		path: root.path,
+		total: items.length,
 		completed,
 		inProgress,
 		failed,
-		items,
-		lastUpdated: new Date().toLocaleTimeString()
+		pendingReview
 	};
 }
 
 /**
- * Get status details for a folder
+ * Get status details for a folder.
+ * Freshness compares a content fingerprint of the folder's inputs with the one recorded at generation time,
+ * falling back to modification times for AGENTS.md files generated without a fingerprint.
+ * Each output file is tracked separately, so a newly configured target shows up as missing.
+ * @param useRecordedMtime For folders without a fingerprint, use the content modification time recorded earlier,
+ * when there is one, instead of scanning the folder
  */
-export async function getFolderStatusDetails(folderPath: string): Promise<FolderDocStatusDetails> {
-	const agentsPath = path.join(folderPath, 'AGENTS.md');
-	let agentsMtimeMs: number | undefined;
+export async function getFolderStatusDetails(folder: FolderNode, useRecordedMtime = false): Promise<FolderDocStatusDetails> {
+	const { path: folderPath, rootPath } = folder;
+	const manifestEntry = getManifestEntry(folderPath);
+	const storedFingerprint = manifestEntry?.fingerprint;
+	// Scanning the whole folder is only needed without a fingerprint; otherwise the time is what the watcher recorded, if anything
+	let contentMtimeMs = latestContentMtimes.get(folderPath);
+	if (!storedFingerprint && !(useRecordedMtime && latestContentMtimes.has(folderPath))) {
+		contentMtimeMs = await getLatestContentMtime(folderPath, rootPath);
+		latestContentMtimes.set(folderPath, contentMtimeMs);
+	}
+	let inputsChanged = false;
+	let changedFiles: string[] | undefined;
 
-	try {
-		const stat = await fs.promises.stat(agentsPath);
-		if (stat.isFile()) {
-			agentsMtimeMs = stat.mtimeMs;
+	if (storedFingerprint) {
+		try {
+			const currentFingerprint = await computeFolderFingerprint(folder);
+			inputsChanged = currentFingerprint.hash !== storedFingerprint.hash;
+			changedFiles = inputsChanged ? diffFingerprints(storedFingerprint, currentFingerprint) : undefined;
+		} catch (error) {
+			console.error(`Error computing fingerprint for ${folderPath}:`, error);
+			inputsChanged = true;
 		}
-	} catch (error) {
-		// File might not exist – that's acceptable
 	}
 
-	const contentMtimeMs = await getLatestContentMtime(folderPath);
-	const hasAgentsFile = typeof agentsMtimeMs === 'number';
-	const isUpToDate = hasAgentsFile
-		? (typeof contentMtimeMs === 'number' ? agentsMtimeMs! >= contentMtimeMs : true)
-		: false;
+	const outputFiles = await Promise.all(resolveOutputFiles(folderPath, rootPath).map(async (file, index): Promise<OutputFileStatus> => {
+		const mtimeMs = await getFileMtime(file.filePath);
+		if (typeof mtimeMs !== 'number') {
+			return { path: file.filePath, relativePath: file.relativePath, exists: false, isUpToDate: false };
+		}
+
+		let isUpToDate: boolean;
+		if (storedFingerprint) {
+			// Manifests written before output targets existed only covered the primary file
+			const generatedFrom = manifestEntry?.outputs
+				? manifestEntry.outputs[file.relativePath]
+				: (index === 0 ? storedFingerprint.hash : undefined);
+			isUpToDate = !inputsChanged && generatedFrom === storedFingerprint.hash;
+		} else {
+			isUpToDate = typeof contentMtimeMs === 'number' ? mtimeMs >= contentMtimeMs : true;
+		}
+
+		return {
+			path: file.filePath,
+			relativePath: file.relativePath,
+			exists: true,
+			isUpToDate,
+			updatedAt: new Date(mtimeMs).toISOString()
+		};
+	}));
 
+	const primary = outputFiles[0];
 	return {
-		hasAgentsFile,
-		agentsUpdatedAt: agentsMtimeMs ? new Date(agentsMtimeMs).toISOString() : undefined,
+		hasAgentsFile: primary.exists,
+		agentsUpdatedAt: primary.updatedAt,
 		contentUpdatedAt: contentMtimeMs ? new Date(contentMtimeMs).toISOString() : undefined,
-		isUpToDate
+		isUpToDate: outputFiles.every(file => file.isUpToDate),
+		changedFiles: primary.exists ? changedFiles : undefined,
+		outputFiles
 	};
 }
 
+async function getFileMtime(filePath: string): Promise<number | undefined> {
+	try {
+		const stat = await fs.promises.stat(filePath);
+		return stat.isFile() ? stat.mtimeMs : undefined;
+	} catch (error) {
+		// File might not exist – that's acceptable
+		return undefined;
+	}
+}
+
 /**
  * Compute relative folder path from workspace root
  */
@@ -145,9 +302,9 @@ function computeFolderDepth(relativePath: string, workspaceRootPath: string): nu
 }
 
 /**
- * Get the latest modification time of content in a folder (recursive)
+ * Get the latest modification time of content in a folder (recursive), ignoring output files
  */
-async function getLatestContentMtime(folderPath: string): Promise<number | undefined> {
+async function getLatestContentMtime(folderPath: string, rootPath: string): Promise<number | undefined> {
 	let latest: number | undefined;
 
 	let entries: fs.Dirent[];
@@ -169,14 +326,14 @@ async function getLatestContentMtime(folderPath: string): Promise<number | undef
 			if (TIMESTAMP_IGNORED_DIRECTORIES.has(entry.name)) {
 				continue;
 			}
-			const childLatest = await getLatestContentMtime(entryPath);
+			const childLatest = await getLatestContentMtime(entryPath, rootPath);
 			if (typeof childLatest === 'number') {
 				latest = typeof latest === 'number' ? Math.max(latest, childLatest) : childLatest;
 			}
 			continue;
 		}
 
-		if (entry.name === 'AGENTS.md') {
+		if (isOutputFile(entryPath, rootPath)) {
 			continue;
 		}
 
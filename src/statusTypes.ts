@@ -1,20 +1,87 @@
+import { FolderDependencies } from './importGraph';
+import { SkippedFolder } from './folderScanner';
+
 export enum GenerationStatus {
 	NotStarted = 'not-started',
 	InProgress = 'in-progress',
 	Completed = 'completed',
-	Failed = 'failed'
+	Failed = 'failed',
+	/** Generated content is staged and waits to be accepted or rejected; never persisted */
+	PendingReview = 'pending-review'
+}
+
+export interface GenerationError {
+	message: string;
+	/** LanguageModelError code, when the failure came from the model */
+	code?: string;
+	/** Classified cause of a failed model request, e.g. rateLimit or network */
+	kind?: string;
+	modelId?: string;
+}
+
+/**
+ * Details of the generation that produced a folder's current AGENTS.md
+ */
+export interface GenerationMetadata {
+	modelId?: string;
+	/** Models that were unavailable or failed before modelId produced the content */
+	fallbackFrom?: string[];
+	/** Hash of the prompt templates in effect, see getPromptTemplateHash */
+	promptTemplateHash?: string;
+	generatedAt?: string;
+	inputTokens?: number;
+	outputTokens?: number;
+	/** Symbols and paths the generated content mentions that don't exist in the folder */
+	unknownReferences?: string[];
+	/** Time of the most recent attempt, successful or not */
+	lastAttemptAt?: string;
+}
+
+export interface FolderStatusEntry extends GenerationMetadata {
+	status: GenerationStatus;
+	/** Error of the most recent attempt, cleared when a generation succeeds */
+	error?: GenerationError;
 }
 
-export interface StatusItem {
+export interface OutputFileStatus {
 	path: string;
+	/** Relative to the workspace folder */
+	relativePath: string;
+	exists: boolean;
+	isUpToDate: boolean;
+	updatedAt?: string;
+}
+
+export interface WorkspaceRoot {
 	name: string;
+	path: string;
+}
+
+export interface StatusItem extends GenerationMetadata {
+	path: string;
+	name: string;
+	/** Workspace folder containing this folder */
+	rootPath: string;
 	relativePath: string;
 	depth: number;
 	status: GenerationStatus;
+	error?: GenerationError;
 	hasAgentsFile: boolean;
 	agentsUpdatedAt?: string;
 	contentUpdatedAt?: string;
 	isUpToDate: boolean;
+	changedFiles?: string[];
+	outputFiles: OutputFileStatus[];
+	/** Set once the import graph of the workspace folder was built */
+	dependencies?: FolderDependencies;
+}
+
+export interface RootStatusSummary extends WorkspaceRoot {
+	total: number;
+	completed: number;
+	inProgress: number;
+	failed: number;
+	pendingReview: number;
 }
 
 export interface StatusSnapshot {
@@ -22,6 +89,30 @@ export interface StatusSnapshot {
 	completed: number;
 	inProgress: number;
 	failed: number;
+	pendingReview: number;
+	/** Per workspace folder counts, in workspace order */
+	roots: RootStatusSummary[];
+	/** Grouped by workspace folder, in workspace order */
 	items: StatusItem[];
+	/** Folders left out by the folder rules, with the reason */
+	skipped: SkippedFolder[];
 	lastUpdated: string;
 }
+
+/**
+ * Changes to the last snapshot sent to the portal, with the new counts
+ */
+export interface StatusDelta extends Omit<StatusSnapshot, 'items'> {
+	/** Items added or changed */
+	updated: StatusItem[];
+	/** Paths of folders no longer listed */
+	removed: string[];
+}
+
+/**
+ * Shows folder status as it changes: the portal in VS Code, nothing on the command line
+ */
+export interface StatusView {
+	update(snapshot: StatusSnapshot): void;
+	applyDelta(delta: StatusDelta): void;
+}
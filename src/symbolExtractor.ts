@@ -0,0 +1,282 @@
+import * as path from 'path';
+import type * as ts from 'typescript';
+
+/**
+ * An exported declaration of a source file
+ */
+export interface SymbolOutline {
+	kind: string;
+	name: string;
+	/** Declaration without its body, on one line */
+	signature: string;
+	/** Public members of classes, interfaces and other types */
+	members?: SymbolOutline[];
+}
+
+// Signatures longer than this are shortened, e.g. type aliases with large object types
+const MAX_SIGNATURE_LENGTH = 160;
+
+const TS_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mts', '.cts', '.mjs', '.cjs'];
+
+/**
+ * Line-based outline rules for languages without a parser at hand.
+ * A declaration whose indentation is deeper than the enclosing type's is listed as one of its members.
+ */
+interface RegexOutlineRule {
+	kind: string;
+	pattern: RegExp;
+	/** Only nested declarations (members) match this rule */
+	memberOnly?: boolean;
+	/** Declarations of this kind can have members */
+	container?: boolean;
+}
+
+const REGEX_OUTLINE_RULES: Record<string, RegexOutlineRule[]> = {
+	'.py': [
+		{ kind: 'class', pattern: /^class\s+([A-Za-z]\w*)/, container: true },
+		{ kind: 'function', pattern: /^(?:async\s+)?def\s+([A-Za-z]\w*)/ },
+		{ kind: 'method', pattern: /^\s+(?:async\s+)?def\s+((?:__init__)|[A-Za-z]\w*)/, memberOnly: true }
+	],
+	'.go': [
+		{ kind: 'type', pattern: /^type\s+([A-Z]\w*)\s/ },
+		{ kind: 'function', pattern: /^func\s+(?:\([^)]*\)\s*)?([A-Z]\w*)\s*[([]/ }
+	],
+	'.rs': [
+		{ kind: 'type', pattern: /^pub(?:\([^)]*\))?\s+(?:struct|enum|trait|type)\s+(\w+)/, container: true },
+		{ kind: 'impl', pattern: /^impl(?:<[^>]*>)?\s+(?:[\w:<>]+\s+for\s+)?(\w+)/, container: true },
+		{ kind: 'function', pattern: /^pub(?:\([^)]*\))?\s+(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?fn\s+(\w+)/ },
+		{ kind: 'method', pattern: /^\s+pub(?:\([^)]*\))?\s+(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?fn\s+(\w+)/, memberOnly: true },
+		{ kind: 'const', pattern: /^pub(?:\([^)]*\))?\s+(?:const|static)\s+(\w+)/ }
+	],
+	'.java': [
+		{ kind: 'type', pattern: /^\s*public\s+(?:(?:abstract|final|static|sealed)\s+)*(?:class|interface|enum|record|@interface)\s+(\w+)/, container: true },
+		{ kind: 'method', pattern: /^\s+public\s+(?:(?:static|final|abstract|synchronized|default)\s+)*(?:<[^>]+>\s+)?[\w<>[\],.?\s]*?\b(\w+)\s*\(/, memberOnly: true }
+	],
+	'.cs': [
+		{ kind: 'type', pattern: /^\s*public\s+(?:(?:abstract|sealed|static|partial|readonly)\s+)*(?:class|interface|enum|struct|record)\s+(\w+)/, container: true },
+		{ kind: 'method', pattern: /^\s+public\s+(?:(?:static|virtual|override|abstract|async|sealed|new)\s+)*[\w<>[\],.?\s]*?\b(\w+)\s*\(/, memberOnly: true },
+		{ kind: 'property', pattern: /^\s+public\s+(?:(?:static|virtual|override|abstract|required)\s+)*[\w<>[\],.?]+\s+(\w+)\s*\{/, memberOnly: true }
+	]
+};
+
+/**
+ * Whether symbols can be extracted from a file
+ */
+export function supportsSymbolExtraction(fileName: string): boolean {
+	const extension = path.extname(fileName).toLowerCase();
+	return TS_EXTENSIONS.includes(extension) || extension in REGEX_OUTLINE_RULES;
+}
+
+/**
+ * Extract the exported (public) declarations of a source file
+ */
+export async function extractSymbols(fileName: string, content: string): Promise<SymbolOutline[]> {
+	const extension = path.extname(fileName).toLowerCase();
+	if (TS_EXTENSIONS.includes(extension)) {
+		// esbuild bundles the compiler (about 3.5 MB of the minified extension), as the packaged extension ships
+		// without node_modules; importing it here only defers running it until a script file is outlined
+		const typescript = await import('typescript');
+		return extractTypeScriptSymbols(typescript, fileName, content);
+	}
+	const rules = REGEX_OUTLINE_RULES[extension];
+	return rules ? extractRegexSymbols(rules, content) : [];
+}
+
+/**
+ * Format the outlines of several files as a compact Markdown list
+ */
+export function formatSymbolOutlines(files: Array<{ relativePath: string; symbols: SymbolOutline[] }>): string {
+	let text = '';
+	for (const file of files) {
+		if (file.symbols.length === 0) {
+			continue;
+		}
+		text += `### ${file.relativePath}\n`;
+		for (const symbol of file.symbols) {
+			text += `- ${symbol.signature}\n`;
+			for (const member of symbol.members ?? []) {
+				text += `  - ${member.signature}\n`;
+			}
+		}
+		text += '\n';
+	}
+	return text;
+}
+
+function extractTypeScriptSymbols(typescript: typeof ts, fileName: string, content: string): SymbolOutline[] {
+	const sourceFile = typescript.createSourceFile(fileName, content, typescript.ScriptTarget.Latest, true);
+	const isModule = sourceFile.statements.some(statement =>
+		typescript.isExportDeclaration(statement) || typescript.isExportAssignment(statement) || hasExportModifier(typescript, statement)
+	);
+	const localExports = getLocalExports(typescript, sourceFile);
+	const symbols: SymbolOutline[] = [];
+	const add = (statement: ts.Statement, localName: string, symbol: Omit<SymbolOutline, 'name'>) => {
+		// CommonJS files have no export keywords, so outline their top-level declarations
+		const exportedNames = !isModule || hasExportModifier(typescript, statement) ? [localName] : localExports.get(localName) ?? [];
+		for (const name of exportedNames) {
+			symbols.push({ ...symbol, name, signature: name === localName ? symbol.signature : `${symbol.signature} (exported as ${name})` });
+		}
+	};
+
+	for (const statement of sourceFile.statements) {
+		if (typescript.isFunctionDeclaration(statement) && statement.name) {
+			add(statement, statement.name.text, { kind: 'function', signature: getHeader(sourceFile, statement, statement.body) });
+		} else if (typescript.isClassDeclaration(statement) && statement.name) {
+			add(statement, statement.name.text, {
+				kind: 'class',
+				signature: getHeader(sourceFile, statement, statement.members.pos),
+				members: getClassMembers(typescript, sourceFile, statement)
+			});
+		} else if (typescript.isInterfaceDeclaration(statement)) {
+			add(statement, statement.name.text, {
+				kind: 'interface',
+				signature: getHeader(sourceFile, statement, statement.members.pos),
+				members: statement.members.map(member => ({
+					kind: 'member',
+					name: member.name?.getText(sourceFile) ?? '',
+					signature: collapse(member.getText(sourceFile).replace(/[;,]$/, ''))
+				}))
+			});
+		} else if (typescript.isTypeAliasDeclaration(statement)) {
+			add(statement, statement.name.text, { kind: 'type', signature: collapse(stripModifiersText(statement.getText(sourceFile))) });
+		} else if (typescript.isEnumDeclaration(statement)) {
+			const members = statement.members.map(member => member.name.getText(sourceFile)).join(', ');
+			add(statement, statement.name.text, { kind: 'enum', signature: `enum ${statement.name.text} { ${members} }` });
+		} else if (typescript.isVariableStatement(statement)) {
+			for (const declaration of statement.declarationList.declarations) {
+				if (typescript.isIdentifier(declaration.name)) {
+					add(statement, declaration.name.text, { kind: 'const', signature: getVariableSignature(typescript, sourceFile, declaration) });
+				}
+			}
+		}
+	}
+
+	return symbols.map(symbol => ({ ...symbol, signature: shorten(symbol.signature) }));
+}
+
+/**
+ * Names under which local declarations are exported by export { foo, foo as bar } lists, keyed by local name.
+ * Re-exports from other modules are left out, their declarations belong to those files.
+ */
+function getLocalExports(typescript: typeof ts, sourceFile: ts.SourceFile): Map<string, string[]> {
+	const localExports = new Map<string, string[]>();
+	for (const statement of sourceFile.statements) {
+		if (!typescript.isExportDeclaration(statement) || statement.moduleSpecifier || !statement.exportClause
+			|| !typescript.isNamedExports(statement.exportClause)) {
+			continue;
+		}
+		for (const element of statement.exportClause.elements) {
+			const localName = (element.propertyName ?? element.name).getText(sourceFile);
+			localExports.set(localName, [...localExports.get(localName) ?? [], element.name.getText(sourceFile)]);
+		}
+	}
+	return localExports;
+}
+
+function getClassMembers(typescript: typeof ts, sourceFile: ts.SourceFile, declaration: ts.ClassDeclaration): SymbolOutline[] {
+	const members: SymbolOutline[] = [];
+	for (const member of declaration.members) {
+		const modifiers = typescript.canHaveModifiers(member) ? typescript.getModifiers(member) ?? [] : [];
+		const isHidden = modifiers.some(modifier =>
+			modifier.kind === typescript.SyntaxKind.PrivateKeyword || modifier.kind === typescript.SyntaxKind.ProtectedKeyword
+		);
+		if (isHidden || (member.name && typescript.isPrivateIdentifier(member.name))) {
+			continue;
+		}
+
+		if (typescript.isConstructorDeclaration(member) || typescript.isMethodDeclaration(member) ||
+			typescript.isGetAccessorDeclaration(member) || typescript.isSetAccessorDeclaration(member)) {
+			members.push({ kind: 'method', name: member.name?.getText(sourceFile) ?? 'constructor', signature: shorten(getHeader(sourceFile, member, member.body)) });
+		} else if (typescript.isPropertyDeclaration(member)) {
+			// Leave out initializers, they are often long
+			const signature = member.getText(sourceFile).split('=')[0].replace(/;$/, '');
+			members.push({ kind: 'property', name: member.name.getText(sourceFile), signature: shorten(collapse(signature)) });
+		}
+	}
+	return members;
+}
+
+function getVariableSignature(typescript: typeof ts, sourceFile: ts.SourceFile, declaration: ts.VariableDeclaration): string {
+	const name = declaration.name.getText(sourceFile);
+	const initializer = declaration.initializer;
+	if (initializer && (typescript.isArrowFunction(initializer) || typescript.isFunctionExpression(initializer))) {
+		return `const ${name} = ${getHeader(sourceFile, initializer, initializer.body)}`;
+	}
+	if (declaration.type) {
+		return `const ${name}: ${collapse(declaration.type.getText(sourceFile))}`;
+	}
+	return `const ${name}`;
+}
+
+/**
+ * Text of a declaration up to its body (or the given position), without export/default keywords
+ */
+function getHeader(sourceFile: ts.SourceFile, node: ts.Node, end: ts.Node | number | undefined): string {
+	const endPosition = typeof end === 'number' ? end : end ? end.getStart(sourceFile) : node.getEnd();
+	const text = sourceFile.text.substring(node.getStart(sourceFile), endPosition);
+	return collapse(stripModifiersText(text).replace(/[{;]\s*$/, '').replace(/\s*=>\s*$/, ' =>'));
+}
+
+function hasExportModifier(typescript: typeof ts, node: ts.Node): boolean {
+	const modifiers = typescript.canHaveModifiers(node) ? typescript.getModifiers(node) : undefined;
+	return modifiers?.some(modifier => modifier.kind === typescript.SyntaxKind.ExportKeyword) ?? false;
+}
+
+function stripModifiersText(text: string): string {
+	return text.replace(/^\s*(export\s+)?(default\s+)?(declare\s+)?/, '');
+}
+
+function extractRegexSymbols(rules: RegexOutlineRule[], content: string): SymbolOutline[] {
+	const symbols: SymbolOutline[] = [];
+	let container: { symbol: SymbolOutline; indent: number } | undefined;
+
+	for (const line of content.split(/\r?\n/)) {
+		if (!line.trim()) {
+			continue;
+		}
+		const indent = line.length - line.trimStart().length;
+		// Brackets at the type's indentation, like C#'s opening brace on its own line, don't end it
+		if (container && indent <= container.indent && !/^\s*[{})\]]/.test(line)) {
+			container = undefined;
+		}
+
+		const enclosing = container && indent > container.indent ? container : undefined;
+		for (const rule of rules) {
+			const match = rule.pattern.exec(line);
+			if (!match || (rule.memberOnly && !enclosing)) {
+				continue;
+			}
+			// Python's private members and dunder methods other than __init__ aren't part of the API
+			if (match[1].startsWith('_') && match[1] !== '__init__') {
+				break;
+			}
+
+			const symbol: SymbolOutline = { kind: rule.kind, name: match[1], signature: shorten(getRegexSignature(line)) };
+			if (enclosing) {
+				enclosing.symbol.members = [...(enclosing.symbol.members ?? []), symbol];
+			} else {
+				symbols.push(symbol);
+				container = rule.container ? { symbol, indent } : undefined;
+			}
+			break;
+		}
+	}
+
+	return symbols;
+}
+
+/**
+ * A declaration line without its body: "def run(self, x):" -> "def run(self, x)", "func Foo() error {" -> "func Foo() error"
+ */
+function getRegexSignature(line: string): string {
+	return collapse(line.replace(/\s*(\{.*|:\s*(#.*)?|=>.*|;)\s*$/, ''));
+}
+
+function collapse(text: string): string {
+	// Parameter lists spread over several lines: "( a: string, b: number )" -> "(a: string, b: number)"
+	return text.replace(/\s+/g, ' ').replace(/\(\s/g, '(').replace(/,?\s\)/g, ')').trim();
+}
+
+function shorten(text: string): string {
+	return text.length > MAX_SIGNATURE_LENGTH ? text.substring(0, MAX_SIGNATURE_LENGTH - 3) + '...' : text;
+}
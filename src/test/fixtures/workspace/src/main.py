@@ -0,0 +1,10 @@
+from math.add import add
+from strings.format import shout
+
+
+def main():
+    print(shout(str(add(1, 2))))
+
+
+if __name__ == "__main__":
+    main()
@@ -0,0 +1,3 @@
+def multiply(a, b):
+    """Return the product of two numbers."""
+    return a * b
@@ -0,0 +1,3 @@
+def shout(text):
+    """Return the text in upper case with an exclamation mark."""
+    return text.upper() + "!"
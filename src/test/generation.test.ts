@@ -0,0 +1,285 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { FakeModelConfig, FakeRequestLogEntry } from '../fakeModelProvider';
+import { FolderStatusEntry, GenerationStatus } from '../statusTypes';
+
+const EXTENSION_ID = 'local-dev.agents-md-generator';
+
+// Folders of the fixture workspace, relative to its root, with the name the prompts give them
+const FIXTURE_FOLDERS: Record<string, string> = {
+	'.': 'workspace',
+	'src': 'src',
+	'src/math': 'math',
+	'src/strings': 'strings'
+};
+
+suite('Generation Test Suite', () => {
+	let rootPath = '';
+	let logDirectory = '';
+
+	suiteSetup(async () => {
+		const folder = vscode.workspace.workspaceFolders?.[0];
+		assert.ok(folder, 'The tests must run with the fixture workspace open');
+		rootPath = folder.uri.fsPath;
+		logDirectory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'agentsmd-test-'));
+		await vscode.extensions.getExtension(EXTENSION_ID)?.activate();
+	});
+
+	setup(async () => {
+		await removeGeneratedFiles();
+		await updateGenerationConfig({});
+	});
+
+	suiteTeardown(async () => {
+		await removeGeneratedFiles();
+		await configureFakeModels([]);
+		await fs.promises.rm(logDirectory, { recursive: true, force: true });
+	});
+
+	test('Generates every folder leaf to root with the selected model', async () => {
+		const logFile = await configureFakeModels([{ id: 'primary' }]);
+		await generate('fake:primary');
+
+		for (const [relativePath, name] of Object.entries(FIXTURE_FOLDERS)) {
+			const content = await readAgentsFile(relativePath);
+			assert.ok(content?.includes(`Fake documentation of ${name},`), `AGENTS.md of ${relativePath} was not generated`);
+		}
+
+		const manifest = await readManifest();
+		for (const relativePath of Object.keys(FIXTURE_FOLDERS)) {
+			assert.strictEqual(manifest[relativePath]?.status, GenerationStatus.Completed);
+			assert.strictEqual(manifest[relativePath]?.modelId, 'fake:primary');
+		}
+
+		// Parents are generated after their sub-folders, with the sub-folders' AGENTS.md in the prompt
+		const requests = await readLog(logFile);
+		const order = requests.map(request => request.folder);
+		assert.ok(order.indexOf('math') < order.indexOf('src'));
+		assert.ok(order.indexOf('strings') < order.indexOf('src'));
+		assert.ok(order.indexOf('src') < order.indexOf('workspace'));
+		const srcPrompt = requests.find(request => request.folder === 'src')?.prompt ?? '';
+		assert.ok(srcPrompt.includes('Fake documentation of math,'));
+		assert.ok(srcPrompt.includes('main.py'));
+	});
+
+	test('Retries a rate-limited request on the same model', async () => {
+		const logFile = await configureFakeModels([{
+			id: 'primary',
+			responses: [{ error: '429 Too Many Requests', times: 1 }]
+		}]);
+		await updateGenerationConfig({ maxRetries: 2 });
+		await generate('fake:primary');
+
+		const manifest = await readManifest();
+		for (const relativePath of Object.keys(FIXTURE_FOLDERS)) {
+			assert.strictEqual(manifest[relativePath]?.status, GenerationStatus.Completed);
+			assert.strictEqual(manifest[relativePath]?.fallbackFrom, undefined);
+		}
+		// One request failed and was sent again
+		const requests = await readLog(logFile);
+		assert.strictEqual(requests.length, Object.keys(FIXTURE_FOLDERS).length + 1);
+		assert.strictEqual(requests.filter(request => request.error).length, 1);
+	});
+
+	test('Falls back to the next model when the selected one keeps failing', async () => {
+		const logFile = await configureFakeModels([
+			{ id: 'primary', responses: [{ error: 'Service overloaded (503)' }] },
+			{ id: 'backup' }
+		]);
+		await updateGenerationConfig({ maxRetries: 0, fallbackModels: ['fake:backup'], maxConcurrency: 4 });
+		await generate('fake:primary');
+
+		const manifest = await readManifest();
+		for (const [relativePath, name] of Object.entries(FIXTURE_FOLDERS)) {
+			assert.strictEqual(manifest[relativePath]?.status, GenerationStatus.Completed);
+			assert.strictEqual(manifest[relativePath]?.modelId, 'fake:backup');
+			assert.deepStrictEqual(manifest[relativePath]?.fallbackFrom, ['fake:primary']);
+			assert.ok((await readAgentsFile(relativePath))?.includes(`Fake documentation of ${name},`));
+		}
+		const requests = await readLog(logFile);
+		assert.strictEqual(requests.filter(request => request.model === 'fake:primary').length, Object.keys(FIXTURE_FOLDERS).length);
+	});
+
+	test('Marks folders failed and keeps existing files when every model fails', async () => {
+		const existing = '# math\n\nWritten by hand.\n';
+		await fs.promises.writeFile(path.join(rootPath, 'src/math/AGENTS.md'), existing, 'utf-8');
+		await configureFakeModels([{ id: 'primary', responses: [{ error: 'You exceeded your current quota' }] }]);
+		await generate('fake:primary');
+
+		const manifest = await readManifest();
+		for (const relativePath of Object.keys(FIXTURE_FOLDERS)) {
+			assert.strictEqual(manifest[relativePath]?.status, GenerationStatus.Failed);
+			assert.strictEqual(manifest[relativePath]?.error?.kind, 'quota');
+		}
+		assert.strictEqual(await readAgentsFile('src/math'), existing);
+		assert.strictEqual(await readAgentsFile('src/strings'), undefined);
+	});
+
+	test('Keeps the details of the last generation when a later attempt fails', async () => {
+		await configureFakeModels([{ id: 'primary' }]);
+		await generate('fake:primary');
+		const generated = await readManifest();
+
+		await configureFakeModels([{ id: 'primary', responses: [{ error: 'You exceeded your current quota' }] }]);
+		await generate('fake:primary');
+
+		const manifest = await readManifest();
+		for (const relativePath of Object.keys(FIXTURE_FOLDERS)) {
+			const { modelId, generatedAt, inputTokens, outputTokens, promptTemplateHash } = generated[relativePath] ?? {};
+			assert.ok(generatedAt, `${relativePath} was not generated`);
+			assert.strictEqual(manifest[relativePath]?.status, GenerationStatus.Failed);
+			assert.deepStrictEqual(
+				{ modelId, generatedAt, inputTokens, outputTokens, promptTemplateHash },
+				{
+					modelId: manifest[relativePath]?.modelId,
+					generatedAt: manifest[relativePath]?.generatedAt,
+					inputTokens: manifest[relativePath]?.inputTokens,
+					outputTokens: manifest[relativePath]?.outputTokens,
+					promptTemplateHash: manifest[relativePath]?.promptTemplateHash
+				}
+			);
+		}
+	});
+
+	test('Keeps custom sections of an existing AGENTS.md', async () => {
+		await fs.promises.writeFile(
+			path.join(rootPath, 'src/strings/AGENTS.md'),
+			'## Overview\n\nOutdated overview.\n\n## Team Notes\n\nKeep this section.\n',
+			'utf-8'
+		);
+		await configureFakeModels([{ id: 'primary' }]);
+		await generate('fake:primary');
+
+		const content = await readAgentsFile('src/strings') ?? '';
+		assert.ok(content.includes('Fake documentation of strings,'));
+		assert.ok(content.includes('Keep this section.'));
+		assert.ok(!content.includes('Outdated overview.'));
+	});
+
+	test('Keeps custom sections of a hand-written CLAUDE.md written as another output file', async () => {
+		await fs.promises.writeFile(
+			path.join(rootPath, 'src/strings/CLAUDE.md'),
+			'## Overview\n\nOutdated overview.\n\n## Claude Notes\n\nKeep this section.\n',
+			'utf-8'
+		);
+		await vscode.commands.executeCommand('AgentsMDGenerator.updateOutputTargets', [{ path: 'AGENTS.md' }, { path: 'CLAUDE.md' }]);
+		try {
+			await configureFakeModels([{ id: 'primary' }]);
+			await generate('fake:primary');
+		} finally {
+			await vscode.commands.executeCommand('AgentsMDGenerator.updateOutputTargets', [{ path: 'AGENTS.md' }]);
+		}
+
+		const content = await fs.promises.readFile(path.join(rootPath, 'src/strings/CLAUDE.md'), 'utf-8');
+		assert.ok(content.includes('Fake documentation of strings,'));
+		assert.ok(content.includes('Keep this section.'));
+		assert.ok(!content.includes('Outdated overview.'));
+		assert.ok(!(await readAgentsFile('src/strings'))?.includes('Keep this section.'));
+	});
+
+	test('Stages content for review and writes it once accepted', async () => {
+		await configureFakeModels([{ id: 'primary' }]);
+		await updateGenerationConfig({ reviewBeforeWriting: true });
+		await generate('fake:primary');
+
+		for (const relativePath of Object.keys(FIXTURE_FOLDERS)) {
+			assert.strictEqual(await readAgentsFile(relativePath), undefined, `${relativePath} was written before review`);
+		}
+
+		await vscode.commands.executeCommand('AgentsMDGenerator.acceptStagedChanges', path.join(rootPath, 'src/math'));
+		assert.ok((await readAgentsFile('src/math'))?.includes('Fake documentation of math,'));
+		assert.strictEqual((await readManifest())['src/math']?.status, GenerationStatus.Completed);
+		assert.strictEqual(await readAgentsFile('src/strings'), undefined);
+	});
+
+	test('Leaves folders untouched when generation is cancelled', async () => {
+		const logFile = await configureFakeModels([{ id: 'primary', latencyMs: 5000 }]);
+		await updateGenerationConfig({ maxConcurrency: 1 });
+
+		const run = generate('fake:primary');
+		await waitFor(async () => (await readLog(logFile)).length > 0);
+		await vscode.commands.executeCommand('AgentsMDGenerator.cancelGeneration');
+		await run;
+
+		for (const relativePath of Object.keys(FIXTURE_FOLDERS)) {
+			assert.strictEqual(await readAgentsFile(relativePath), undefined);
+		}
+		const manifest = await readManifest();
+		assert.ok(Object.values(manifest).every(entry => entry.status !== GenerationStatus.Completed));
+		assert.strictEqual((await readLog(logFile)).length, 1);
+	});
+
+	/**
+	 * Configure the fake models, logging their requests to a new file; returns the log file
+	 */
+	async function configureFakeModels(models: FakeModelConfig[]): Promise<string> {
+		const logFile = path.join(logDirectory, `requests-${Date.now()}.jsonl`);
+		await fs.promises.writeFile(logFile, '', 'utf-8');
+		await vscode.workspace.getConfiguration('agentsMdGenerator').update(
+			'fakeModels',
+			models.length > 0 ? models.map(model => ({ ...model, logFile })) : undefined,
+			vscode.ConfigurationTarget.Global
+		);
+		return logFile;
+	}
+
+	async function updateGenerationConfig(config: Record<string, unknown>): Promise<void> {
+		await vscode.commands.executeCommand('AgentsMDGenerator.updateGenerationConfig', {
+			maxConcurrency: 2,
+			maxRetries: 0,
+			fallbackModels: [],
+			reviewBeforeWriting: false,
+			mergeStrategy: 'sections',
+			referenceCheck: 'off',
+			...config
+		});
+	}
+
+	async function generate(modelId: string): Promise<void> {
+		await vscode.commands.executeCommand('AgentsMDGenerator.selectModel', modelId);
+		await vscode.commands.executeCommand('AgentsMDGenerator.generateAgentsMd');
+	}
+
+	async function readAgentsFile(relativePath: string): Promise<string | undefined> {
+		try {
+			return await fs.promises.readFile(path.join(rootPath, relativePath, 'AGENTS.md'), 'utf-8');
+		} catch (error) {
+			return undefined;
+		}
+	}
+
+	async function readManifest(): Promise<Record<string, FolderStatusEntry>> {
+		try {
+			const manifest = JSON.parse(await fs.promises.readFile(path.join(rootPath, '.agentsmd', 'manifest.json'), 'utf-8'));
+			return manifest.folders ?? {};
+		} catch (error) {
+			return {};
+		}
+	}
+
+	async function readLog(logFile: string): Promise<FakeRequestLogEntry[]> {
+		const content = await fs.promises.readFile(logFile, 'utf-8');
+		return content.split('\n').filter(line => line).map(line => JSON.parse(line));
+	}
+
+	async function removeGeneratedFiles(): Promise<void> {
+		for (const relativePath of Object.keys(FIXTURE_FOLDERS)) {
+			await fs.promises.rm(path.join(rootPath, relativePath, 'AGENTS.md'), { force: true });
+			await fs.promises.rm(path.join(rootPath, relativePath, 'CLAUDE.md'), { force: true });
+		}
+		await fs.promises.rm(path.join(rootPath, '.agentsmd'), { recursive: true, force: true });
+	}
+});
+
+async function waitFor(condition: () => Promise<boolean>, timeoutMs = 10000): Promise<void> {
+	const start = Date.now();
+	while (!await condition()) {
+		if (Date.now() - start > timeoutMs) {
+			throw new Error('Timed out waiting for the condition');
+		}
+		await new Promise(resolve => setTimeout(resolve, 50));
+	}
+}
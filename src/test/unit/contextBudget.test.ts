@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import {
+	allocateContext,
+	ContextCandidate,
+	createEstimatedBudget,
+	estimateTokens,
+	isEntryPointFile,
+	rankContextCandidates
+} from '../../contextBudget';
+
+function candidate(relativePath: string, tokens: number): ContextCandidate {
+	return { relativePath, content: 'abc\n'.repeat(tokens) };
+}
+
+suite('contextBudget', () => {
+	test('Estimates about four characters per token', () => {
+		assert.strictEqual(estimateTokens(''), 0);
+		assert.strictEqual(estimateTokens('abcd'), 1);
+		assert.strictEqual(estimateTokens('abcde'), 2);
+	});
+
+	test('Includes every file in full when they fit', async () => {
+		const allocation = await allocateContext([candidate('a.ts', 100), candidate('b.ts', 200)], createEstimatedBudget(1000));
+		assert.deepStrictEqual(allocation.omitted, []);
+		assert.deepStrictEqual(allocation.files.map(file => [file.relativePath, file.truncated, file.shownTokens]), [
+			['a.ts', false, 100],
+			['b.ts', false, 200]
+		]);
+	});
+
+	test('Cuts large files to the same cap and keeps small ones complete', async () => {
+		const candidates = [candidate('small.ts', 100), candidate('large.ts', 2000), candidate('larger.ts', 3000)];
+		const allocation = await allocateContext(candidates, createEstimatedBudget(1000));
+
+		assert.deepStrictEqual(allocation.omitted, []);
+		const [small, large, larger] = allocation.files;
+		assert.strictEqual(small.truncated, false);
+		assert.strictEqual(small.content, candidates[0].content);
+		assert.strictEqual(large.truncated, true);
+		assert.strictEqual(larger.truncated, true);
+		assert.strictEqual(large.shownTokens, larger.shownTokens);
+		assert.strictEqual(larger.totalTokens, 3000);
+		// Truncated content ends on a complete line and stays within the budget with the per-file overhead
+		assert.ok(large.content.endsWith('abc'));
+		const used = allocation.files.reduce((sum, file) => sum + estimateTokens(file.content) + 20, 0);
+		assert.ok(used <= 1000, `${used} tokens used`);
+	});
+
+	test('Leaves out the lowest priority files when the cap gets too small', async () => {
+		const candidates = ['a.ts', 'b.ts', 'c.ts', 'd.ts', 'e.ts'].map(name => candidate(name, 2000));
+		const allocation = await allocateContext(candidates, createEstimatedBudget(500));
+		assert.deepStrictEqual(allocation.files.map(file => file.relativePath), ['a.ts', 'b.ts']);
+		assert.deepStrictEqual(allocation.omitted, ['c.ts', 'd.ts', 'e.ts']);
+	});
+
+	test('Leaves out every file when not even one fits', async () => {
+		const allocation = await allocateContext([candidate('a.ts', 2000)], createEstimatedBudget(100));
+		assert.deepStrictEqual(allocation.files, []);
+		assert.deepStrictEqual(allocation.omitted, ['a.ts']);
+	});
+
+	test('Recognizes entry points by their name', () => {
+		assert.ok(isEntryPointFile('index.ts'));
+		assert.ok(isEntryPointFile('src/Main.go'));
+		assert.ok(isEntryPointFile('__init__.py'));
+		assert.ok(!isEntryPointFile('helpers.ts'));
+	});
+
+	test('Ranks entry points, then imported files, then exports, then size', () => {
+		const ranked = rankContextCandidates([
+			{ relativePath: 'large.ts', content: 'const x = 1;\n'.repeat(100) },
+			{ relativePath: 'exports.ts', content: 'export const a = 1;\nexport const b = 2;\n' },
+			{ relativePath: 'shared.ts', content: 'const shared = 1;\n' },
+			{ relativePath: 'consumer.ts', content: 'import { shared } from \'./shared\';\n' },
+			{ relativePath: 'index.ts', content: '' }
+		]);
+		assert.deepStrictEqual(ranked.map(entry => entry.relativePath), ['index.ts', 'shared.ts', 'exports.ts', 'large.ts', 'consumer.ts']);
+	});
+
+	test('Counts relative Python imports', () => {
+		const ranked = rankContextCandidates([
+			{ relativePath: 'other.py', content: 'x = 1\n' },
+			{ relativePath: 'helpers.py', content: 'y = 2\n' },
+			{ relativePath: 'service.py', content: 'from .utils.helpers import y\n' }
+		]);
+		assert.strictEqual(ranked[0].relativePath, 'helpers.py');
+	});
+});
@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { CheckReport, describeCheckFailure, formatJUnitReport, getDocState, toFolderCheckResult } from '../../docCheck';
+import { FolderDocStatusDetails } from '../../statusManager';
+
+const ROOT = path.resolve('/workspace');
+
+function details(overrides: Partial<FolderDocStatusDetails>): FolderDocStatusDetails {
+	return {
+		hasAgentsFile: true,
+		isUpToDate: true,
+		outputFiles: [{ path: path.join(ROOT, 'AGENTS.md'), relativePath: 'AGENTS.md', exists: true, isUpToDate: true }],
+		...overrides
+	};
+}
+
+suite('docCheck', () => {
+	test('Derives the state from the primary output file and freshness', () => {
+		assert.strictEqual(getDocState({ hasAgentsFile: true, isUpToDate: true }), 'up-to-date');
+		assert.strictEqual(getDocState({ hasAgentsFile: true, isUpToDate: false }), 'outdated');
+		assert.strictEqual(getDocState({ hasAgentsFile: false, isUpToDate: false }), 'missing');
+	});
+
+	test('Lists missing and outdated output files', () => {
+		const result = toFolderCheckResult({ path: path.join(ROOT, 'src'), rootPath: ROOT }, details({
+			isUpToDate: false,
+			changedFiles: ['+ new.ts', '~ main.ts'],
+			outputFiles: [
+				{ path: path.join(ROOT, 'src', 'AGENTS.md'), relativePath: 'src/AGENTS.md', exists: true, isUpToDate: false },
+				{ path: path.join(ROOT, 'src', 'CLAUDE.md'), relativePath: 'src/CLAUDE.md', exists: false, isUpToDate: false }
+			]
+		}));
+
+		assert.strictEqual(result.relativePath, 'src');
+		assert.strictEqual(result.state, 'outdated');
+		assert.deepStrictEqual(result.missingOutputs, ['src/CLAUDE.md']);
+		assert.deepStrictEqual(result.outdatedOutputs, ['src/AGENTS.md']);
+		assert.strictEqual(
+			describeCheckFailure(result),
+			'missing src/CLAUDE.md; outdated src/AGENTS.md; changed since the last generation: + new.ts ~ main.ts'
+		);
+	});
+
+	test('Calls the workspace folder itself "."', () => {
+		assert.strictEqual(toFolderCheckResult({ path: ROOT, rootPath: ROOT }, details({})).relativePath, '.');
+	});
+
+	test('Writes a JUnit test suite per workspace folder with escaped names and messages', () => {
+		const otherRoot = path.resolve('/other');
+		const report: CheckReport = {
+			checkedAt: '2026-01-01T00:00:00.000Z',
+			roots: [{ name: 'A & "B"', path: ROOT }, { name: 'other', path: otherRoot }],
+			total: 3,
+			upToDate: 1,
+			outdated: 1,
+			missing: 1,
+			passed: false,
+			folders: [
+				toFolderCheckResult({ path: ROOT, rootPath: ROOT }, details({})),
+				toFolderCheckResult({ path: path.join(ROOT, '<gen>'), rootPath: ROOT }, details({
+					isUpToDate: false,
+					changedFiles: ['~ a&b.ts'],
+					outputFiles: [{ path: '', relativePath: '<gen>/AGENTS.md', exists: true, isUpToDate: false }]
+				})),
+				toFolderCheckResult({ path: path.join(otherRoot, 'lib'), rootPath: otherRoot }, details({
+					hasAgentsFile: false,
+					isUpToDate: false,
+					outputFiles: [{ path: '', relativePath: 'lib/AGENTS.md', exists: false, isUpToDate: false }]
+				}))
+			]
+		};
+
+		const xml = formatJUnitReport(report);
+		assert.ok(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<testsuites name="AGENTS.md check" tests="3" failures="2"'));
+		assert.ok(xml.includes('<testsuite name="A &amp; &quot;B&quot;" tests="2" failures="1"'));
+		assert.ok(xml.includes('<testsuite name="other" tests="1" failures="1"'));
+		assert.ok(xml.includes(`<testcase classname="A &amp; &quot;B&quot;" name="." file="${ROOT}"/>`));
+		assert.ok(xml.includes('name="&lt;gen&gt;"'));
+		assert.ok(xml.includes(
+			'<failure type="outdated" message="AGENTS.md is out of date">outdated &lt;gen&gt;/AGENTS.md; changed since the last generation: ~ a&amp;b.ts</failure>'
+		));
+		assert.ok(xml.includes('<failure type="missing" message="AGENTS.md is missing">missing lib/AGENTS.md</failure>'));
+		assert.ok(!/&(?!amp;|lt;|gt;|quot;|apos;)/.test(xml), 'Unescaped ampersand');
+	});
+});
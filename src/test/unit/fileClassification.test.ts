@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import {
+	classifyFile,
+	isBinaryContent,
+	updateClassificationRules,
+	updateFileClassificationRules,
+	validateClassificationRules
+} from '../../fileClassification';
+
+suite('fileClassification', () => {
+	teardown(() => {
+		updateClassificationRules([]);
+		updateFileClassificationRules('/workspace', undefined);
+	});
+
+	test('Classifies files by extension, case-insensitively', () => {
+		assert.strictEqual(classifyFile('index.ts')?.category, 'code');
+		assert.strictEqual(classifyFile('README.MD')?.category, 'doc');
+		assert.strictEqual(classifyFile('logo.png')?.category, 'binary');
+		assert.strictEqual(classifyFile('unknown.xyz'), undefined);
+	});
+
+	test('Prefers exact names over patterns over extensions', () => {
+		// *.config.js wins over .js, package-lock.json over .json
+		assert.strictEqual(classifyFile('vite.config.js')?.category, 'config');
+		assert.strictEqual(classifyFile('package-lock.json')?.category, 'other');
+		assert.strictEqual(classifyFile('app.min.js')?.category, 'other');
+		assert.strictEqual(classifyFile('Dockerfile')?.category, 'config');
+		assert.strictEqual(classifyFile('Dockerfile.dev')?.category, 'config');
+	});
+
+	test('Matches a dotfile named like an extension as a file name', () => {
+		assert.deepStrictEqual(classifyFile('.editorconfig'), { category: 'config', priority: 0 });
+		assert.strictEqual(classifyFile('settings.editorconfig')?.category, 'config');
+		assert.strictEqual(classifyFile('.gitattributes')?.category, 'config');
+	});
+
+	test('Lets user rules override built-in ones of the same kind', () => {
+		updateClassificationRules([{ match: '.txt', category: 'other' }, { match: '.d.ts', category: 'doc', priority: 2 }]);
+		assert.strictEqual(classifyFile('notes.txt')?.category, 'other');
+		assert.deepStrictEqual(classifyFile('types.d.ts'), { category: 'doc', priority: 2 });
+		assert.strictEqual(classifyFile('types.ts')?.category, 'code');
+	});
+
+	test('Lets a higher priority win over a more specific match', () => {
+		updateClassificationRules([{ match: '.js', category: 'other', priority: 1 }]);
+		assert.strictEqual(classifyFile('vite.config.js')?.category, 'other');
+	});
+
+	test('Uses the rules of a workspace folder\'s configuration file', () => {
+		updateFileClassificationRules('/workspace', [{ match: '*.generated.ts', category: 'other' }]);
+		assert.strictEqual(classifyFile('api.generated.ts', '/workspace')?.category, 'other');
+		assert.strictEqual(classifyFile('api.generated.ts', '/other')?.category, 'code');
+	});
+
+	test('Detects binary content by NUL bytes and control characters', () => {
+		assert.ok(!isBinaryContent(new Uint8Array()));
+		assert.ok(!isBinaryContent(Buffer.from('line one\r\n\tline two\f\n')));
+		assert.ok(isBinaryContent(Buffer.from([0x50, 0x4b, 0x00, 0x03])));
+		assert.ok(isBinaryContent(Buffer.from([1, 2, 3, 4, 65, 66, 67, 68, 69])));
+	});
+
+	test('Reports invalid rules', () => {
+		const errors = validateClassificationRules([
+			{ match: '.kt', category: 'code' },
+			{ match: 'src/*.ts', category: 'code' },
+			{ match: '.x', category: 'script' as never },
+			{ match: '.y', category: 'doc', priority: Number.NaN }
+		]);
+		assert.strictEqual(errors.length, 3);
+		assert.ok(errors[0].startsWith('"src/*.ts"'));
+		assert.ok(errors[1].includes('unknown category "script"'));
+		assert.ok(errors[2].includes('numeric priority'));
+	});
+});
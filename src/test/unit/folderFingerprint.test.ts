@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { computeFolderFingerprint, diffFingerprints, FolderFingerprint } from '../../folderFingerprint';
+import { buildFolderTree } from '../../folderScanner';
+import { updateGenerationConfig } from '../../generationConfig';
+
+const FILES: Record<string, string> = {
+	'main.py': 'print("hello")',
+	'README.md': '# Project',
+	'.gitignore': 'build/\n',
+	'AGENTS.md': '# Generated',
+	'lib/util.py': 'def util(): pass',
+	'api/AGENTS.md': '# API',
+	'api/handlers.py': 'def handle(): pass',
+	'.agentsmd/manifest.json': '{}',
+	'node_modules/pkg/index.js': 'module.exports = 1;',
+	'build/out.py': 'x = 1'
+};
+
+suite('folderFingerprint', () => {
+	let rootPath = '';
+
+	suiteSetup(async () => {
+		rootPath = await fs.promises.realpath(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'agentsmd-fingerprint-')));
+	});
+
+	setup(async () => {
+		for (const [relativePath, content] of Object.entries(FILES)) {
+			await write(relativePath, content);
+		}
+	});
+
+	suiteTeardown(async () => {
+		await fs.promises.rm(rootPath, { recursive: true, force: true });
+	});
+
+	async function write(relativePath: string, content: string): Promise<void> {
+		const filePath = path.join(rootPath, ...relativePath.split('/'));
+		await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+		await fs.promises.writeFile(filePath, content, 'utf-8');
+	}
+
+	async function fingerprintRoot(): Promise<FolderFingerprint> {
+		return computeFolderFingerprint(await buildFolderTree(rootPath));
+	}
+
+	test('Hashes the files sent to the model and lists the other entries by name', async () => {
+		const { entries } = await fingerprintRoot();
+		assert.deepStrictEqual(Object.keys(entries).sort(), [
+			'.gitignore',
+			'README.md',
+			'api/',
+			'api/AGENTS.md',
+			'lib/',
+			'lib/util.py',
+			'main.py'
+		]);
+		assert.strictEqual(entries['.gitignore'], '');
+		assert.strictEqual(entries['lib/'], '');
+		assert.match(entries['main.py'], /^[0-9a-f]{16}$/);
+		assert.match(entries['api/AGENTS.md'], /^[0-9a-f]{16}$/);
+	});
+
+	test('Leaves out the data folder and ignored folders', async () => {
+		const { entries } = await fingerprintRoot();
+		for (const key of ['.agentsmd/', 'node_modules/', 'build/']) {
+			assert.ok(!(key in entries), `${key} is part of the fingerprint`);
+		}
+	});
+
+	test('Changes with the content of inputs and child docs, not with output files', async () => {
+		const before = await fingerprintRoot();
+
+		await write('AGENTS.md', '# Generated again');
+		assert.strictEqual((await fingerprintRoot()).hash, before.hash);
+
+		await write('main.py', 'print("changed")');
+		await write('api/AGENTS.md', '# API, regenerated');
+		const after = await fingerprintRoot();
+		assert.notStrictEqual(after.hash, before.hash);
+		assert.deepStrictEqual(diffFingerprints(before, after), ['~ api/AGENTS.md', '~ main.py']);
+	});
+
+	test('Hashes the docs of collapsed children the prompt embeds', async () => {
+		await write('deep/java/com/acme/App.java', 'public class App {}');
+		await write('deep/java/com/acme/AGENTS.md', '# Acme');
+		updateGenerationConfig({ minFiles: 1, collapseChains: true });
+		try {
+			const before = await fingerprintRoot();
+			assert.strictEqual(before.entries['deep/'], '');
+			assert.match(before.entries['deep/java/com/acme/AGENTS.md'], /^[0-9a-f]{16}$/);
+
+			await write('deep/java/com/acme/AGENTS.md', '# Acme, regenerated');
+			assert.deepStrictEqual(diffFingerprints(before, await fingerprintRoot()), ['~ deep/java/com/acme/AGENTS.md']);
+		} finally {
+			updateGenerationConfig({});
+			await fs.promises.rm(path.join(rootPath, 'deep'), { recursive: true, force: true });
+		}
+	});
+
+	test('Lists added, removed and modified entries by path', () => {
+		const previous = { hash: 'a', entries: { 'b.ts': '1', 'c.ts': '2', 'old.ts': '3' } };
+		const current = { hash: 'b', entries: { 'a.ts': '0', 'b.ts': '1', 'c.ts': '9' } };
+		assert.deepStrictEqual(diffFingerprints(previous, current), ['+ a.ts', '~ c.ts', '- old.ts']);
+		assert.deepStrictEqual(diffFingerprints(previous, previous), []);
+	});
+});
@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildFolderTree, findFolderChain, FolderNode, getSkippedFolders, rescanFolders } from '../../folderScanner';
+import { updateGenerationConfig } from '../../generationConfig';
+
+const FILES: Record<string, string> = {
+	'main.py': 'print("hello")',
+	'src/.gitignore': 'generated/\n',
+	'src/app.py': 'import api',
+	'src/api/handlers.py': 'def handle(): pass',
+	'docs/guide.md': '# Guide'
+};
+
+/**
+ * Paths of every folder of a tree below its root, relative to the root
+ */
+function folderPaths(rootNode: FolderNode): string[] {
+	const collect = (node: FolderNode): string[] =>
+		node.children.flatMap(child => [path.relative(rootNode.path, child.path).split(path.sep).join('/'), ...collect(child)]);
+	return collect(rootNode).sort();
+}
+
+suite('folderScanner', () => {
+	let rootPath = '';
+
+	setup(async () => {
+		rootPath = await fs.promises.realpath(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'agentsmd-scanner-')));
+		for (const [relativePath, content] of Object.entries(FILES)) {
+			await write(relativePath, content);
+		}
+	});
+
+	teardown(async () => {
+		updateGenerationConfig({});
+		await fs.promises.rm(rootPath, { recursive: true, force: true });
+	});
+
+	async function write(relativePath: string, content: string): Promise<void> {
+		const filePath = path.join(rootPath, ...relativePath.split('/'));
+		await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+		await fs.promises.writeFile(filePath, content, 'utf-8');
+	}
+
+	test('Adds created folders and removes deleted ones below the nearest folder of the tree', async () => {
+		const rootNode = await buildFolderTree(rootPath);
+		const src = findFolderChain(rootNode, path.join(rootPath, 'src')).pop();
+		assert.deepStrictEqual(folderPaths(rootNode), ['docs', 'src', 'src/api']);
+
+		await write('src/models/user.py', 'class User: pass');
+		await fs.promises.rm(path.join(rootPath, 'src', 'api'), { recursive: true });
+		const rescanned = await rescanFolders(rootNode, [path.join(rootPath, 'src', 'models'), path.join(rootPath, 'src', 'api')]);
+
+		assert.deepStrictEqual(rescanned, [src]);
+		assert.deepStrictEqual(folderPaths(rootNode), ['docs', 'src', 'src/models']);
+	});
+
+	test('Rescans only the outermost folder when changes are nested', async () => {
+		const rootNode = await buildFolderTree(rootPath);
+
+		await write('lib/util.py', 'def util(): pass');
+		await write('src/api/v2/routes.py', 'ROUTES = []');
+		const rescanned = await rescanFolders(rootNode, [path.join(rootPath, 'lib'), path.join(rootPath, 'src', 'api', 'v2')]);
+
+		assert.deepStrictEqual(rescanned, [rootNode]);
+		assert.deepStrictEqual(folderPaths(rootNode), ['docs', 'lib', 'src', 'src/api', 'src/api/v2']);
+	});
+
+	test('Applies the ignore rules of the rescanned folder\'s ancestors', async () => {
+		const rootNode = await buildFolderTree(rootPath);
+
+		await write('src/api/generated/client.py', 'CLIENT = None');
+		await write('src/api/node_modules/pkg/index.js', 'module.exports = 1;');
+		await rescanFolders(rootNode, [path.join(rootPath, 'src', 'api', 'generated'), path.join(rootPath, 'src', 'api', 'node_modules')]);
+
+		assert.deepStrictEqual(folderPaths(rootNode), ['docs', 'src', 'src/api']);
+	});
+
+	test('Applies the folder rules to the new folders and keeps the skipped list current', async () => {
+		updateGenerationConfig({ minFiles: 1 });
+		const rootNode = await buildFolderTree(rootPath);
+
+		await fs.promises.mkdir(path.join(rootPath, 'src', 'api', 'empty'));
+		await rescanFolders(rootNode, [path.join(rootPath, 'src', 'api', 'empty')]);
+		assert.deepStrictEqual(folderPaths(rootNode), ['docs', 'src', 'src/api']);
+		assert.deepStrictEqual(
+			getSkippedFolders().filter(folder => folder.rootPath === rootPath).map(folder => [folder.relativePath, folder.reason]),
+			[[path.join('src', 'api', 'empty'), 'No code, configuration or documentation files']]
+		);
+
+		await fs.promises.rm(path.join(rootPath, 'src', 'api', 'empty'), { recursive: true });
+		await rescanFolders(rootNode, [path.join(rootPath, 'src', 'api', 'empty')]);
+		assert.deepStrictEqual(getSkippedFolders().filter(folder => folder.rootPath === rootPath), []);
+	});
+});
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import {
+	DEFAULT_FOLDER_SCOPE,
+	getFolderScope,
+	matchesIncludePattern,
+	mayContainIncludedFolders,
+	updateFileFolderScope,
+	updateFolderScope,
+	validateFolderScope
+} from '../../folderScope';
+
+suite('folderScope', () => {
+	teardown(() => {
+		updateFolderScope(DEFAULT_FOLDER_SCOPE);
+		updateFileFolderScope('/workspace', undefined);
+	});
+
+	test('Matches folders against include patterns', () => {
+		assert.ok(matchesIncludePattern('packages/app', ['packages/*']));
+		assert.ok(!matchesIncludePattern('packages/app/src', ['packages/*']));
+		assert.ok(matchesIncludePattern('services/api/handlers', ['services/**']));
+		assert.ok(matchesIncludePattern('lib', ['./lib/']));
+		assert.ok(matchesIncludePattern('tools/scripts', ['tools\\scripts']));
+		assert.ok(!matchesIncludePattern('docs', ['packages/*', 'services/**']));
+	});
+
+	test('Scans only folders that may contain included folders', () => {
+		const patterns = ['packages/*/src'];
+		assert.ok(mayContainIncludedFolders('', patterns));
+		assert.ok(mayContainIncludedFolders('packages', patterns));
+		assert.ok(mayContainIncludedFolders('packages/app', patterns));
+		assert.ok(!mayContainIncludedFolders('packages/app/src', patterns));
+		assert.ok(!mayContainIncludedFolders('docs', patterns));
+	});
+
+	test('Scans every folder below a ** segment', () => {
+		assert.ok(mayContainIncludedFolders('apps/web/deep/er', ['apps/**/components']));
+		assert.ok(!mayContainIncludedFolders('libs/web', ['apps/**/components']));
+	});
+
+	test('Prefers a workspace folder\'s configuration file setting by setting', () => {
+		updateFolderScope({ include: ['src'], maxDepth: 3, depthFrom: 'root' });
+		updateFileFolderScope('/workspace', { maxDepth: 1 });
+		assert.deepStrictEqual(getFolderScope('/workspace'), { include: ['src'], maxDepth: 1, depthFrom: 'root' });
+		assert.deepStrictEqual(getFolderScope('/other'), { include: ['src'], maxDepth: 3, depthFrom: 'root' });
+	});
+
+	test('Reports patterns outside the workspace folder and invalid depths', () => {
+		assert.deepStrictEqual(validateFolderScope({ include: ['src', 'packages/*'], maxDepth: 2, depthFrom: 'include' }), []);
+		assert.strictEqual(validateFolderScope({ include: ['/abs', '../up', ' '] }).length, 3);
+		assert.strictEqual(validateFolderScope({ maxDepth: -1 }).length, 1);
+		assert.strictEqual(validateFolderScope({ maxDepth: 1.5 }).length, 1);
+		assert.strictEqual(validateFolderScope({ depthFrom: 'parent' as never }).length, 1);
+	});
+});
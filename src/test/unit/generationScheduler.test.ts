@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import { FolderNode } from '../../folderScanner';
+import { runFoldersLeafToRoot } from '../../generationScheduler';
+
+function folder(folderPath: string, children: FolderNode[] = []): FolderNode {
+	return { path: folderPath, name: folderPath.split('/').pop() ?? '', rootPath: '/workspace', children };
+}
+
+// /workspace with src (math, strings) and docs, deepest first like flattenFoldersByDepth
+const math = folder('/workspace/src/math');
+const strings = folder('/workspace/src/strings');
+const src = folder('/workspace/src', [math, strings]);
+const docs = folder('/workspace/docs');
+const root = folder('/workspace', [src, docs]);
+const FOLDERS = [math, strings, src, docs, root];
+
+function tick(): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, 5));
+}
+
+suite('generationScheduler', () => {
+	test('Starts a folder only after its children finished', async () => {
+		const finished: string[] = [];
+		await runFoldersLeafToRoot(FOLDERS, 4, async node => {
+			for (const child of node.children) {
+				assert.ok(finished.includes(child.path), `${node.path} started before ${child.path} finished`);
+			}
+			await tick();
+			finished.push(node.path);
+		});
+		assert.strictEqual(finished.length, FOLDERS.length);
+		assert.strictEqual(finished[finished.length - 1], root.path);
+	});
+
+	test('Runs independent folders at the same time, up to the concurrency limit', async () => {
+		let running = 0;
+		let mostRunning = 0;
+		const started: string[] = [];
+		await runFoldersLeafToRoot(FOLDERS, 2, async node => {
+			started.push(node.path);
+			mostRunning = Math.max(mostRunning, ++running);
+			await tick();
+			running--;
+		});
+		assert.strictEqual(mostRunning, 2);
+		// Ready folders start in the order given
+		assert.deepStrictEqual(started.slice(0, 2), [math.path, strings.path]);
+	});
+
+	test('Only waits for children that are part of the run', async () => {
+		const started: string[] = [];
+		await runFoldersLeafToRoot([src, root], 1, async node => {
+			started.push(node.path);
+		});
+		assert.deepStrictEqual(started, [src.path, root.path]);
+	});
+
+	test('Keeps going when a task fails', async () => {
+		const finished: string[] = [];
+		// The scheduler logs the failure
+		const consoleError = console.error;
+		console.error = () => {};
+		try {
+			await runFoldersLeafToRoot(FOLDERS, 1, async node => {
+				if (node === math) {
+					throw new Error('failed');
+				}
+				finished.push(node.path);
+			});
+		} finally {
+			console.error = consoleError;
+		}
+		assert.deepStrictEqual(finished, [strings.path, docs.path, src.path, root.path]);
+	});
+
+	test('Starts no new folders once stopped, but waits for those running', async () => {
+		let stopped = false;
+		const finished: string[] = [];
+		await runFoldersLeafToRoot(FOLDERS, 2, async node => {
+			stopped = true;
+			await tick();
+			finished.push(node.path);
+		}, () => stopped);
+		assert.deepStrictEqual(finished, [math.path]);
+	});
+
+	test('Treats a concurrency below one as one', async () => {
+		let running = 0;
+		let mostRunning = 0;
+		await runFoldersLeafToRoot(FOLDERS, 0, async () => {
+			mostRunning = Math.max(mostRunning, ++running);
+			await tick();
+			running--;
+		});
+		assert.strictEqual(mostRunning, 1);
+	});
+});
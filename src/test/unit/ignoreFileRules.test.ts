@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import { globToRegExp, matchIgnoreFileRules, parseIgnoreFile } from '../../ignoreFileRules';
+
+suite('ignoreFileRules', () => {
+	test('Matches an unanchored name at any depth', () => {
+		const rules = parseIgnoreFile('node_modules\n', '');
+		assert.strictEqual(matchIgnoreFileRules('node_modules', true, rules), true);
+		assert.strictEqual(matchIgnoreFileRules('packages/app/node_modules', true, rules), true);
+		assert.strictEqual(matchIgnoreFileRules('node_modules_backup', true, rules), undefined);
+	});
+
+	test('Anchors patterns with a leading or inner slash to the ignore file\'s folder', () => {
+		const rules = parseIgnoreFile('/build\ndocs/api\n', '');
+		assert.strictEqual(matchIgnoreFileRules('build', true, rules), true);
+		assert.strictEqual(matchIgnoreFileRules('src/build', true, rules), undefined);
+		assert.strictEqual(matchIgnoreFileRules('docs/api', true, rules), true);
+		assert.strictEqual(matchIgnoreFileRules('site/docs/api', true, rules), undefined);
+	});
+
+	test('Re-includes paths matching a later negated rule', () => {
+		const rules = parseIgnoreFile('*.log\n!keep.log\n', '');
+		assert.strictEqual(matchIgnoreFileRules('logs/debug.log', false, rules), true);
+		assert.strictEqual(matchIgnoreFileRules('logs/keep.log', false, rules), false);
+		assert.strictEqual(matchIgnoreFileRules('notes.txt', false, rules), undefined);
+	});
+
+	test('Lets a negated rule be overridden by a later rule', () => {
+		const rules = parseIgnoreFile('!important.tmp\n*.tmp\n', '');
+		assert.strictEqual(matchIgnoreFileRules('important.tmp', false, rules), true);
+	});
+
+	test('Applies directory-only rules to directories only', () => {
+		const rules = parseIgnoreFile('out/\n', '');
+		assert.strictEqual(matchIgnoreFileRules('out', true, rules), true);
+		assert.strictEqual(matchIgnoreFileRules('out', false, rules), undefined);
+	});
+
+	test('Scopes the rules of a nested ignore file to its folder', () => {
+		const rules = parseIgnoreFile('/generated\n', 'src/');
+		assert.strictEqual(rules[0].baseDir, 'src');
+		assert.strictEqual(matchIgnoreFileRules('src/generated', true, rules), true);
+		assert.strictEqual(matchIgnoreFileRules('generated', true, rules), undefined);
+		assert.strictEqual(matchIgnoreFileRules('lib/src/generated', true, rules), undefined);
+	});
+
+	test('Lets deeper ignore files override their parents', () => {
+		const rules = [...parseIgnoreFile('*.tmp\n', ''), ...parseIgnoreFile('!*.tmp\n', 'fixtures')];
+		assert.strictEqual(matchIgnoreFileRules('cache.tmp', false, rules), true);
+		assert.strictEqual(matchIgnoreFileRules('fixtures/cache.tmp', false, rules), false);
+	});
+
+	test('Skips comments and blank lines and honors escapes and trailing spaces', () => {
+		const rules = parseIgnoreFile('# comment\r\n\r\n\\#hash\r\n\\!bang\r\ntrailing   \r\nescaped\\ \r\n', '');
+		assert.deepStrictEqual(rules.map(rule => rule.pattern), ['\\#hash', '\\!bang', 'trailing', 'escaped\\']);
+		assert.strictEqual(matchIgnoreFileRules('#hash', false, rules), true);
+		assert.strictEqual(matchIgnoreFileRules('!bang', false, rules), true);
+		assert.strictEqual(matchIgnoreFileRules('trailing', false, rules), true);
+		assert.strictEqual(matchIgnoreFileRules('escaped ', false, rules), true);
+		assert.strictEqual(rules.some(rule => rule.negated), false);
+	});
+
+	test('Converts globs without crossing path separators except for **', () => {
+		assert.ok(globToRegExp('*.ts').test('index.ts'));
+		assert.ok(!globToRegExp('*.ts').test('src/index.ts'));
+		assert.ok(globToRegExp('**/test').test('test'));
+		assert.ok(globToRegExp('**/test').test('a/b/test'));
+		assert.ok(globToRegExp('a/**').test('a/b/c'));
+		assert.ok(!globToRegExp('a/**').test('a'));
+		assert.ok(globToRegExp('a/**/b').test('a/b'));
+		assert.ok(globToRegExp('a/**/b').test('a/x/y/b'));
+		assert.ok(globToRegExp('file?.txt').test('file1.txt'));
+		assert.ok(!globToRegExp('file?.txt').test('file/.txt'));
+		assert.ok(globToRegExp('[!a]b').test('cb'));
+		assert.ok(!globToRegExp('[!a]b').test('ab'));
+		assert.ok(globToRegExp('[abc').test('[abc'));
+		assert.ok(globToRegExp('a.b').test('a.b'));
+		assert.ok(!globToRegExp('a.b').test('axb'));
+	});
+});
@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildImportGraph, formatFolderDependencies, getFolderDependencies } from '../../importGraph';
+
+const FILES: Record<string, string> = {
+	'tsconfig.json': JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@lib/*': ['src/lib/*'] } } }),
+	'src/app/index.ts': [
+		'import * as fs from \'fs\';',
+		'import { format } from \'../utils/format\';',
+		'import { helper } from \'@lib/helper\';',
+		'import { local } from \'./local\';',
+		'export { ignored } from \'../ignored/skip\';'
+	].join('\n'),
+	'src/app/local.ts': 'export const local = 1;',
+	'src/app/lazy.js': 'const format = require(\'../utils/format\');\nimport(\'../utils/parse\');',
+	'src/utils/format.ts': 'export function format() {}',
+	'src/utils/parse.ts': 'export function parse() {}',
+	'src/lib/helper.ts': 'export const helper = 1;',
+	'src/ignored/skip.ts': 'export const ignored = 1;',
+	'py/pkg/__init__.py': '',
+	'py/pkg/models.py': 'class Model: pass',
+	'py/pkg/api/views.py': 'from ..models import Model\nfrom .. import models\nimport os',
+	'go/go.mod': 'module example.com/shop\n\ngo 1.22\n',
+	'go/cmd/main.go': 'package main\n\nimport (\n\t"fmt"\n\t"example.com/shop/internal/store"\n)\n',
+	'go/internal/store/store.go': 'package store'
+};
+
+suite('importGraph', () => {
+	let rootPath = '';
+	const folder = (relativePath: string) => path.join(rootPath, ...relativePath.split('/'));
+
+	suiteSetup(async () => {
+		rootPath = await fs.promises.realpath(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'agentsmd-imports-')));
+		for (const [relativePath, content] of Object.entries(FILES)) {
+			await fs.promises.mkdir(path.dirname(folder(relativePath)), { recursive: true });
+			await fs.promises.writeFile(folder(relativePath), content, 'utf-8');
+		}
+		// src/ignored is left out, like a folder excluded from the scan
+		const folderPaths = ['.', 'src', 'src/app', 'src/utils', 'src/lib', 'py', 'py/pkg', 'py/pkg/api', 'go', 'go/cmd', 'go/internal', 'go/internal/store'];
+		await buildImportGraph(rootPath, folderPaths.map(folder));
+	});
+
+	suiteTeardown(async () => {
+		await fs.promises.rm(rootPath, { recursive: true, force: true });
+	});
+
+	test('Resolves relative imports, require, import() and path aliases', () => {
+		const dependencies = getFolderDependencies(folder('src/app'));
+		assert.deepStrictEqual(dependencies?.imports.map(link => [link.relativePath, link.files]), [
+			['src/lib', ['helper.ts']],
+			['src/utils', ['format.ts', 'parse.ts']]
+		]);
+	});
+
+	test('Records the importing files on the other side', () => {
+		assert.deepStrictEqual(getFolderDependencies(folder('src/utils'))?.importedBy.map(link => [link.relativePath, link.files]), [
+			['src/app', ['index.ts', 'lazy.js']]
+		]);
+	});
+
+	test('Resolves relative Python imports of modules and packages', () => {
+		assert.deepStrictEqual(getFolderDependencies(folder('py/pkg/api'))?.imports.map(link => [link.relativePath, link.files]), [
+			['py/pkg', ['models.py']]
+		]);
+	});
+
+	test('Resolves Go packages of the workspace\'s modules to their folders', () => {
+		assert.deepStrictEqual(getFolderDependencies(folder('go/cmd'))?.imports.map(link => [link.relativePath, link.files]), [
+			['go/internal/store', []]
+		]);
+	});
+
+	test('Describes a folder\'s dependencies for the prompt', () => {
+		assert.strictEqual(formatFolderDependencies(folder('src/utils')), 'Imported by (folder, importing files):\n- src/app (index.ts, lazy.js)\n');
+		assert.strictEqual(formatFolderDependencies(folder('src')), '');
+		assert.strictEqual(formatFolderDependencies(path.join(os.tmpdir(), 'not-scanned')), '');
+	});
+});
@@ -0,0 +1,145 @@
+import * as assert from 'assert';
+import { GENERATED_FENCE, KEEP_FENCE, mergeMarkdownSections, normalizeHeading } from '../../markdownMerge';
+
+const GENERATED = [
+	'# math',
+	'',
+	'## Overview',
+	'',
+	'New overview.',
+	'',
+	'## Key Components',
+	'',
+	'- `add`',
+	''
+].join('\n');
+
+suite('markdownMerge', () => {
+	test('Returns the new content when the existing document has nothing custom', () => {
+		const existing = '# math\n\n## Overview\n\nOld overview.\n';
+		assert.strictEqual(mergeMarkdownSections(existing, GENERATED), GENERATED);
+	});
+
+	test('Keeps custom sections after the section they followed', () => {
+		const existing = [
+			'## Overview',
+			'',
+			'Old overview.',
+			'',
+			'## Team Notes',
+			'',
+			'Ask before changing the API.',
+			'',
+			'## Key Components',
+			'',
+			'- `subtract`'
+		].join('\n');
+
+		const merged = mergeMarkdownSections(existing, GENERATED);
+		assert.strictEqual(merged, [
+			'# math',
+			'',
+			'## Overview',
+			'',
+			'New overview.',
+			'',
+			'## Team Notes',
+			'',
+			'Ask before changing the API.',
+			'',
+			'## Key Components',
+			'',
+			'- `add`',
+			''
+		].join('\n'));
+	});
+
+	test('Is idempotent', () => {
+		const existing = [
+			'## Overview',
+			'',
+			'Old overview.',
+			'',
+			'## Team Notes',
+			'',
+			'Ask before changing the API.',
+			'',
+			KEEP_FENCE,
+			'Pinned paragraph.',
+			GENERATED_FENCE,
+			'',
+			'## Deprecated Section',
+			'',
+			'Removed from the template.'
+		].join('\n');
+
+		const once = mergeMarkdownSections(existing, GENERATED);
+		assert.strictEqual(mergeMarkdownSections(once, GENERATED), once);
+	});
+
+	test('Replaces sections of the template even when the new content leaves them out', () => {
+		const existing = '## Overview\n\nOld overview.\n\n## 📁 Sub-folders\n\n- old\n';
+		const merged = mergeMarkdownSections(existing, GENERATED, ['Sub-folders (CONDITIONAL: only when there are sub-folders)']);
+		assert.ok(!merged.includes('- old'));
+	});
+
+	test('Keeps fenced regions verbatim, whatever their headings', () => {
+		const existing = [
+			'## Overview',
+			'',
+			KEEP_FENCE,
+			'## Overview',
+			'',
+			'Hand-written overview.',
+			GENERATED_FENCE
+		].join('\n');
+
+		const merged = mergeMarkdownSections(existing, GENERATED);
+		assert.ok(merged.includes(`${KEEP_FENCE}\n## Overview\n\nHand-written overview.\n${GENERATED_FENCE}`));
+		assert.ok(merged.includes('New overview.'));
+	});
+
+	test('Closes a keep region left open at the end of the file', () => {
+		const existing = `## Overview\n\nOld overview.\n\n${KEEP_FENCE}\nPinned until the end.\n`;
+		const merged = mergeMarkdownSections(existing, GENERATED);
+		assert.ok(merged.includes(`${KEEP_FENCE}\nPinned until the end.\n\n${GENERATED_FENCE}`));
+		assert.strictEqual(mergeMarkdownSections(merged, GENERATED), merged);
+	});
+
+	test('Ignores headings inside code blocks', () => {
+		const existing = [
+			'## Usage',
+			'',
+			'```sh',
+			'# Overview',
+			'npm start',
+			'```'
+		].join('\n');
+
+		const merged = mergeMarkdownSections(existing, GENERATED);
+		assert.ok(merged.includes('```sh\n# Overview\nnpm start\n```'));
+		assert.ok(merged.includes('New overview.'));
+	});
+
+	test('Places kept content before a section\'s trailing horizontal rule', () => {
+		const generated = '## Overview\n\nNew overview.\n\n---\n\n## Key Components\n\n- `add`\n';
+		const existing = '## Overview\n\nOld overview.\n\n## Team Notes\n\nNotes.\n\n---\n';
+		assert.strictEqual(
+			mergeMarkdownSections(existing, generated),
+			'## Overview\n\nNew overview.\n\n## Team Notes\n\nNotes.\n\n---\n\n## Key Components\n\n- `add`\n'
+		);
+	});
+
+	test('Reads documents with CRLF line endings', () => {
+		const existing = '## Overview\r\n\r\nOld overview.\r\n\r\n## Team Notes\r\n\r\nNotes.\r\n';
+		const merged = mergeMarkdownSections(existing, GENERATED);
+		assert.ok(merged.includes('## Team Notes\n\nNotes.'));
+		assert.ok(!merged.includes('Old overview.'));
+	});
+
+	test('Normalizes headings for comparison', () => {
+		assert.strictEqual(normalizeHeading('Sub-folders (CONDITIONAL: only when needed)'), 'sub folders');
+		assert.strictEqual(normalizeHeading('📝 Sub-folders'), 'sub folders');
+		assert.strictEqual(normalizeHeading('Key  Components'), 'key components');
+	});
+});
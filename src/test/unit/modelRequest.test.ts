@@ -0,0 +1,129 @@
+import * as assert from 'assert';
+import { CancellationTokenSource, Disposable } from '../../cancellation';
+import { updateGenerationConfig } from '../../generationConfig';
+import { ChatModel, ModelError, ModelProvider } from '../../modelProvider';
+import { classifyModelError, getRetryDelay, ModelRequestError, resolveModelChain, sendModelRequest } from '../../modelRequest';
+import { registerModelProvider } from '../../modelSelector';
+
+/**
+ * A model answering with its ID, or failing with the given error
+ */
+function testModel(id: string, error?: Error): ChatModel {
+	return {
+		id,
+		name: id,
+		maxInputTokens: 0,
+		sendRequest: async () => {
+			if (error) {
+				throw error;
+			}
+			return (async function* () {
+				yield `Answer of ${id}`;
+			})();
+		},
+		countTokens: async text => text.length
+	};
+}
+
+suite('modelRequest', () => {
+	let models: ChatModel[] = [];
+	let registration: Disposable;
+
+	suiteSetup(() => {
+		const provider: ModelProvider = {
+			name: 'Test',
+			listModels: async () => [],
+			getModel: async modelId => models.find(model => model.id === modelId)
+		};
+		registration = registerModelProvider(provider);
+	});
+
+	teardown(() => {
+		updateGenerationConfig({});
+	});
+
+	suiteTeardown(() => {
+		registration.dispose();
+	});
+
+	test('Classifies failures by code and message', () => {
+		assert.deepStrictEqual(classifyModelError(new ModelError('Not found', 'NotFound')), {
+			kind: 'unavailable', retryable: false, message: 'Not found', code: 'NotFound'
+		});
+		assert.strictEqual(classifyModelError(new ModelError('Denied', 'NoPermissions')).kind, 'permission');
+		assert.strictEqual(classifyModelError(new ModelError('Refused', 'Blocked')).kind, 'blocked');
+
+		const rateLimited = classifyModelError(new Error('HTTP 429 Too Many Requests (retry after 12 seconds)'));
+		assert.deepStrictEqual([rateLimited.kind, rateLimited.retryable, rateLimited.retryAfterMs], ['rateLimit', true, 12000]);
+		assert.deepStrictEqual(
+			[classifyModelError(new Error('You exceeded your current quota')).kind, classifyModelError(new Error('billing')).retryable],
+			['quota', false]
+		);
+		assert.strictEqual(classifyModelError(new Error('request failed', { cause: new Error('socket hang up') })).kind, 'network');
+		assert.strictEqual(classifyModelError(new Error('HTTP 503 Service Unavailable')).retryable, true);
+		assert.deepStrictEqual(classifyModelError('Something odd'), { kind: 'unknown', retryable: false, message: 'Something odd', code: undefined });
+	});
+
+	test('Backs off exponentially with jitter, at least as long as asked and at most 30 seconds', () => {
+		for (let i = 0; i < 20; i++) {
+			const first = getRetryDelay(0);
+			assert.ok(first >= 500 && first <= 1000, `${first}`);
+			const third = getRetryDelay(2);
+			assert.ok(third >= 2000 && third <= 4000, `${third}`);
+			assert.ok(getRetryDelay(10) <= 30000);
+		}
+		assert.strictEqual(getRetryDelay(0, 12000), 12000);
+		assert.strictEqual(getRetryDelay(0, 60000), 30000);
+	});
+
+	test('Chains the selected model with the fallback models, skipping unavailable ones', async () => {
+		models = [testModel('primary'), testModel('backup'), testModel('auto')];
+		updateGenerationConfig({ fallbackModels: ['missing', 'backup', 'primary'] });
+
+		const chain = await resolveModelChain('primary');
+		assert.deepStrictEqual(chain.models.map(model => model.id), ['primary', 'backup']);
+		assert.deepStrictEqual(chain.unavailable, ['missing']);
+
+		// Logs the fallback from the selected model
+		const consoleLog = console.log;
+		console.log = () => {};
+		const fallback = await resolveModelChain('gone').finally(() => console.log = consoleLog);
+		assert.deepStrictEqual(fallback.models.map(model => model.id), ['backup', 'primary']);
+		assert.deepStrictEqual(fallback.unavailable, ['gone', 'missing']);
+	});
+
+	test('Only tries the preferred models when opted in', async () => {
+		models = [testModel('primary'), testModel('auto')];
+		assert.deepStrictEqual((await resolveModelChain('primary')).models.map(model => model.id), ['primary']);
+
+		updateGenerationConfig({ fallbackToPreferredModels: true });
+		assert.deepStrictEqual((await resolveModelChain('primary')).models.map(model => model.id), ['primary', 'auto']);
+	});
+
+	test('Fails without a model or when no model of the chain is available', async () => {
+		models = [];
+		await assert.rejects(resolveModelChain(undefined), /No model selected/);
+		await assert.rejects(resolveModelChain('primary'), /'primary' and its fallback models are not available/);
+	});
+
+	test('Moves on to the next model of the chain when one fails', async () => {
+		models = [testModel('primary', new Error('You exceeded your current quota')), testModel('backup')];
+		updateGenerationConfig({ fallbackModels: ['backup'], maxRetries: 3 });
+		const chain = await resolveModelChain('primary');
+
+		const consoleError = console.error;
+		console.error = () => {};
+		try {
+			const response = await sendModelRequest(chain, [{ role: 'user', content: 'Hi' }], new CancellationTokenSource().token);
+			assert.deepStrictEqual([response.text, response.model.id], ['Answer of backup', 'backup']);
+			assert.deepStrictEqual([chain.failed, chain.retries], [['primary'], 0]);
+
+			models = [testModel('primary', new ModelError('Refused', 'Blocked'))];
+			const error = await sendModelRequest(await resolveModelChain('primary'), [], new CancellationTokenSource().token).catch(caught => caught);
+			assert.ok(error instanceof ModelRequestError);
+			assert.deepStrictEqual([error.classified.kind, error.modelId], ['blocked', 'primary']);
+		} finally {
+			console.error = consoleError;
+		}
+	});
+});
@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { CancellationTokenSource } from '../../cancellation';
+import {
+	DEFAULT_MODEL_ENDPOINT_CONFIG,
+	MODEL_ENDPOINT_ID_PREFIX,
+	OpenAICompatibleModelProvider,
+	updateModelEndpointConfig
+} from '../../openAICompatibleProvider';
+
+suite('openAICompatibleProvider', () => {
+	let server: http.Server;
+	// Chunks the next streamed response is written in
+	let chunks: string[] = [];
+
+	suiteSetup(async () => {
+		server = http.createServer((request, response) => {
+			request.resume();
+			request.on('end', async () => {
+				response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+				for (const chunk of chunks) {
+					response.write(chunk);
+					await new Promise(resolve => setTimeout(resolve, 5));
+				}
+				response.end();
+			});
+		});
+		await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+		const { port } = server.address() as AddressInfo;
+		updateModelEndpointConfig({ baseUrl: `http://127.0.0.1:${port}/v1`, model: 'test' });
+	});
+
+	suiteTeardown(async () => {
+		updateModelEndpointConfig(DEFAULT_MODEL_ENDPOINT_CONFIG);
+		// fetch keeps connections alive, which would hold the server open
+		server.closeAllConnections();
+		await new Promise(resolve => server.close(resolve));
+	});
+
+	async function complete(): Promise<string> {
+		const model = await new OpenAICompatibleModelProvider().getModel(MODEL_ENDPOINT_ID_PREFIX + 'test');
+		assert.ok(model);
+		const source = new CancellationTokenSource();
+		let text = '';
+		for await (const fragment of await model.sendRequest([{ role: 'user', content: 'Hi' }], source.token)) {
+			text += fragment;
+		}
+		return text;
+	}
+
+	function event(content: string): string {
+		return `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}`;
+	}
+
+	test('Reads events separated by LF', async () => {
+		chunks = [`${event('Hello')}\n\n${event(', world')}\n\n`, 'data: [DONE]\n\n'];
+		assert.strictEqual(await complete(), 'Hello, world');
+	});
+
+	test('Reads events separated by CRLF', async () => {
+		chunks = [`: ping\r\n\r\n${event('Hello')}\r\n\r\n`, `${event(', world')}\r\n\r\ndata: [DONE]\r\n\r\n`];
+		assert.strictEqual(await complete(), 'Hello, world');
+	});
+
+	test('Reads events split between chunks, even inside a CRLF', async () => {
+		const stream = `${event('Hello')}\r\n\r\n${event(', world')}\r\n\r\ndata: [DONE]\r\n\r\n`;
+		const cut = stream.indexOf('\n');
+		chunks = [stream.substring(0, cut), stream.substring(cut, cut + 30), stream.substring(cut + 30)];
+		assert.strictEqual(await complete(), 'Hello, world');
+	});
+
+	test('Reads the last event of a stream that ends without a line break', async () => {
+		chunks = [`${event('Hello')}\n\n`, event(', world')];
+		assert.strictEqual(await complete(), 'Hello, world');
+	});
+
+	test('Throws the error event of a stream', async () => {
+		chunks = [`data: ${JSON.stringify({ error: { message: 'model overloaded' } })}\r\n\r\n`];
+		await assert.rejects(complete(), /Model endpoint error: model overloaded/);
+	});
+});
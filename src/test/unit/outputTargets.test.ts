@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import {
+	DEFAULT_OUTPUT_TARGETS,
+	formatOutputContent,
+	getOutputFormat,
+	isOutputDirectory,
+	isOutputFile,
+	resolveOutputFiles,
+	stripFrontMatter,
+	updateFileOutputTargets,
+	updateOutputTargets,
+	validateOutputTargets
+} from '../../outputTargets';
+
+const ROOT = path.resolve('/workspace');
+
+suite('outputTargets', () => {
+	setup(() => {
+		updateOutputTargets([
+			{ path: 'AGENTS.md' },
+			{ path: '/.github/copilot-instructions.md' },
+			{ path: '/.cursor/rules/{{FOLDER_ID}}.mdc' }
+		]);
+	});
+
+	teardown(() => {
+		updateOutputTargets(DEFAULT_OUTPUT_TARGETS);
+		updateFileOutputTargets(ROOT, undefined);
+	});
+
+	test('Resolves folder-relative, root-only and per-folder targets', () => {
+		assert.deepStrictEqual(resolveOutputFiles(ROOT, ROOT).map(file => [file.relativePath, file.format]), [
+			['AGENTS.md', 'markdown'],
+			['.github/copilot-instructions.md', 'copilot-instructions'],
+			['.cursor/rules/_root.mdc', 'cursor-rule']
+		]);
+		assert.deepStrictEqual(resolveOutputFiles(path.join(ROOT, 'src', 'math'), ROOT).map(file => file.relativePath), [
+			'src/math/AGENTS.md',
+			'.cursor/rules/src-math.mdc'
+		]);
+	});
+
+	test('Gives every folder its own {{FOLDER_ID}}', () => {
+		const ruleFile = (relativePath: string) => resolveOutputFiles(path.join(ROOT, relativePath), ROOT)[1].relativePath;
+		assert.strictEqual(ruleFile('a-b'), '.cursor/rules/a%2Db.mdc');
+		assert.strictEqual(ruleFile('a/b'), '.cursor/rules/a-b.mdc');
+		assert.strictEqual(ruleFile('a%2Db'), '.cursor/rules/a%252Db.mdc');
+		assert.strictEqual(ruleFile('_root'), '.cursor/rules/%5Froot.mdc');
+	});
+
+	test('Recognizes generated files and directories', () => {
+		assert.ok(isOutputFile(path.join(ROOT, 'src', 'AGENTS.md'), ROOT));
+		assert.ok(isOutputFile(path.join(ROOT, '.cursor', 'rules', 'src-a%2Db.mdc'), ROOT));
+		assert.ok(!isOutputFile(path.join(ROOT, 'src', 'README.md'), ROOT));
+		assert.ok(isOutputDirectory(path.join(ROOT, '.cursor', 'rules'), ROOT));
+		assert.ok(!isOutputDirectory(path.join(ROOT, '.github'), ROOT));
+	});
+
+	test('Uses the targets of a workspace folder\'s configuration file', () => {
+		updateFileOutputTargets(ROOT, [{ path: 'CLAUDE.md' }]);
+		assert.deepStrictEqual(resolveOutputFiles(ROOT, ROOT).map(file => file.relativePath), ['CLAUDE.md']);
+		assert.ok(!isOutputFile(path.join(ROOT, 'AGENTS.md'), ROOT));
+	});
+
+	test('Infers the format from the file name unless given', () => {
+		assert.strictEqual(getOutputFormat({ path: 'rules.mdc' }), 'cursor-rule');
+		assert.strictEqual(getOutputFormat({ path: '/.github/instructions/x.instructions.md' }), 'copilot-instructions');
+		assert.strictEqual(getOutputFormat({ path: 'CLAUDE.md' }), 'markdown');
+		assert.strictEqual(getOutputFormat({ path: 'rules.mdc', format: 'markdown' }), 'markdown');
+	});
+
+	test('Wraps content in front matter that strips off again', () => {
+		const [, copilot, cursor] = resolveOutputFiles(ROOT, ROOT);
+		const folderPath = path.join(ROOT, 'src');
+		const [, cursorRule] = resolveOutputFiles(folderPath, ROOT);
+		const content = '# src\n\nDocs.\n';
+
+		assert.strictEqual(formatOutputContent(content, copilot, ROOT, ROOT), content);
+		assert.ok(formatOutputContent(content, cursor, ROOT, ROOT).includes('alwaysApply: true'));
+		const formatted = formatOutputContent(content, cursorRule, folderPath, ROOT);
+		assert.ok(formatted.startsWith('---\ndescription: Documentation for src\nglobs: src/**\nalwaysApply: false\n---\n'));
+		assert.strictEqual(stripFrontMatter(formatted), content);
+		assert.strictEqual(stripFrontMatter(content), content);
+	});
+
+	test('Reports invalid targets', () => {
+		assert.deepStrictEqual(validateOutputTargets(DEFAULT_OUTPUT_TARGETS), []);
+		assert.deepStrictEqual(validateOutputTargets([]), ['At least one output file is required']);
+		const errors = validateOutputTargets([
+			{ path: '/ROOT.md' },
+			{ path: 'docs/' },
+			{ path: '../outside.md' },
+			{ path: 'x.md', format: 'html' as never }
+		]);
+		assert.strictEqual(errors.length, 4);
+		assert.ok(errors[0].includes('must be relative to the folder'));
+	});
+});
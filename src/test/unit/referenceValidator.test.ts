@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import { findInvalidReferences, ReferenceIndex, stripInvalidReferences } from '../../referenceValidator';
+
+const INDEX: ReferenceIndex = {
+	identifiers: new Set(['add', 'subtract', 'Calculator', 'run', 'options']),
+	pathExists: reference => ['math.ts', 'utils/format.ts', 'utils'].includes(reference)
+};
+
+suite('referenceValidator', () => {
+	test('Checks code spans, code-like bold text and link targets', () => {
+		const markdown = [
+			'- `add` and `multiply` are exported by `math.ts`.',
+			'- **Calculator.divide** wraps **run(options)**.',
+			'- See [the formatter](utils/format.ts) and [the parser](utils/parse.ts).',
+			'- `missing.ts:12` is referenced with a line number.'
+		].join('\n');
+		assert.deepStrictEqual(findInvalidReferences(markdown, INDEX), ['multiply', 'Calculator.divide', 'utils/parse.ts', 'missing.ts']);
+	});
+
+	test('Does not check prose, commands, globs, URLs or code blocks', () => {
+		const markdown = [
+			'**Important** behavior is described in **Getting Started**.',
+			'Run `npm run build` on `src/**/*.ts`, see [docs](https://example.com/docs) or [the heading](#usage).',
+			'```ts',
+			'unknownFunction(`literal`);',
+			'```',
+			'`./utils/` holds helpers and `vscode.lm` is not a file.'
+		].join('\n');
+		assert.deepStrictEqual(findInvalidReferences(markdown, { ...INDEX, identifiers: new Set(['vscode', 'lm']) }), []);
+	});
+
+	test('Reports each invalid reference once', () => {
+		assert.deepStrictEqual(findInvalidReferences('`nope` and `nope` again', INDEX), ['nope']);
+	});
+
+	test('Removes list items with their nested lines, table rows and sentences', () => {
+		const markdown = [
+			'## Key Components',
+			'',
+			'- `add`: adds numbers',
+			'- `multiply`: multiplies numbers',
+			'  - Nested detail about it',
+			'- `subtract`: subtracts numbers',
+			'',
+			'| Name | Purpose |',
+			'| `multiply` | Gone |',
+			'| `add` | Kept |',
+			'',
+			'Use `add` for sums. Use `multiply` for products. Nothing else.',
+			'',
+			'```ts',
+			'multiply(2, 3);',
+			'```',
+			'## `multiply`'
+		].join('\n');
+
+		assert.strictEqual(stripInvalidReferences(markdown, ['multiply']), [
+			'## Key Components',
+			'',
+			'- `add`: adds numbers',
+			'- `subtract`: subtracts numbers',
+			'',
+			'| Name | Purpose |',
+			'| `add` | Kept |',
+			'',
+			'Use `add` for sums. Nothing else.',
+			'',
+			'```ts',
+			'multiply(2, 3);',
+			'```',
+			'## `multiply`'
+		].join('\n'));
+	});
+
+	test('Drops a paragraph whose every sentence mentions an invalid reference', () => {
+		assert.strictEqual(stripInvalidReferences('Intro.\n`multiply` is gone.\nOutro.', ['multiply']), 'Intro.\nOutro.');
+	});
+});
@@ -0,0 +1,235 @@
+import * as assert from 'assert';
+import { extractSymbols, formatSymbolOutlines, SymbolOutline, supportsSymbolExtraction } from '../../symbolExtractor';
+
+function signatures(symbols: SymbolOutline[]): string[] {
+	return symbols.flatMap(symbol => [symbol.signature, ...(symbol.members ?? []).map(member => `  ${member.signature}`)]);
+}
+
+suite('symbolExtractor', () => {
+	test('Outlines the exported declarations of a TypeScript module', async () => {
+		const content = [
+			'import * as fs from \'fs\';',
+			'export async function load(path: string, options?: { strict: boolean }): Promise<string> {',
+			'\treturn fs.promises.readFile(path, \'utf-8\');',
+			'}',
+			'export class Cache<T> extends Base {',
+			'\tprivate entries = new Map<string, T>();',
+			'\t#secret = 1;',
+			'\tpublic readonly size: number = 0;',
+			'\tconstructor(private limit: number) { super(); }',
+			'\tget(key: string): T | undefined { return this.entries.get(key); }',
+			'\tprotected evict(): void {}',
+			'}',
+			'export interface Options {',
+			'\tname: string;',
+			'\tretries?: number;',
+			'}',
+			'export type Mode = \'fast\' | \'slow\';',
+			'export enum Color { Red, Green = 2 }',
+			'export const parse = (text: string): number => Number(text);',
+			'export const LIMIT: number = 10, NAME = \'x\';',
+			'function internal() {}'
+		].join('\n');
+
+		assert.deepStrictEqual(signatures(await extractSymbols('cache.ts', content)), [
+			'async function load(path: string, options?: { strict: boolean }): Promise<string>',
+			'class Cache<T> extends Base',
+			'  public readonly size: number',
+			'  constructor(private limit: number)',
+			'  get(key: string): T | undefined',
+			'interface Options',
+			'  name: string',
+			'  retries?: number',
+			'type Mode = \'fast\' | \'slow\';',
+			'enum Color { Red, Green }',
+			'const parse = (text: string): number =>',
+			'const LIMIT: number',
+			'const NAME'
+		]);
+	});
+
+	test('Outlines declarations exported through export lists', async () => {
+		const content = [
+			'function helper(value: string): string { return value; }',
+			'class Store {}',
+			'const VERSION = 1;',
+			'function hidden() {}',
+			'export { helper, Store as DataStore, VERSION };',
+			'export { other } from \'./other\';'
+		].join('\n');
+
+		const symbols = await extractSymbols('index.ts', content);
+		assert.deepStrictEqual(symbols.map(symbol => symbol.name), ['helper', 'DataStore', 'VERSION']);
+		assert.deepStrictEqual(signatures(symbols), [
+			'function helper(value: string): string',
+			'class Store (exported as DataStore)',
+			'const VERSION'
+		]);
+	});
+
+	test('Outlines every top-level declaration of a CommonJS file', async () => {
+		const content = 'function run(argv) {\n\treturn argv;\n}\nconst DEFAULTS = {};\nmodule.exports = { run, DEFAULTS };';
+		assert.deepStrictEqual((await extractSymbols('cli.js', content)).map(symbol => symbol.name), ['run', 'DEFAULTS']);
+	});
+
+	test('Outlines Python classes with their public methods', async () => {
+		const content = [
+			'import os',
+			'',
+			'class Repository(Base):',
+			'    def __init__(self, path):',
+			'        self.path = path',
+			'',
+			'    async def fetch(self, key: str) -> bytes:',
+			'        pass',
+			'',
+			'    def _cache(self):',
+			'        pass',
+			'',
+			'    def __repr__(self):',
+			'        pass',
+			'',
+			'def connect(url):  # opens a connection',
+			'    pass',
+			'',
+			'def _private():',
+			'    pass'
+		].join('\n');
+
+		assert.deepStrictEqual(signatures(await extractSymbols('repo.py', content)), [
+			'class Repository(Base)',
+			'  def __init__(self, path)',
+			'  async def fetch(self, key: str) -> bytes',
+			'def connect(url)'
+		]);
+	});
+
+	test('Outlines exported Go types and functions', async () => {
+		const content = [
+			'package store',
+			'',
+			'type Store struct {',
+			'\titems map[string]int',
+			'}',
+			'type key string',
+			'func New() *Store {',
+			'\treturn &Store{}',
+			'}',
+			'func (s *Store) Get(name string) (int, bool) {',
+			'\treturn 0, false',
+			'}',
+			'func Map[T any](values []T) []T { return values }',
+			'func helper() {}'
+		].join('\n');
+
+		assert.deepStrictEqual(signatures(await extractSymbols('store.go', content)), [
+			'type Store struct',
+			'func New() *Store',
+			'func (s *Store) Get(name string) (int, bool)',
+			'func Map[T any](values []T) []T'
+		]);
+	});
+
+	test('Outlines public Rust items and the public methods of impl blocks', async () => {
+		const content = [
+			'pub struct Parser {',
+			'    input: String,',
+			'}',
+			'',
+			'impl Parser {',
+			'    pub fn new(input: String) -> Self {',
+			'        Parser { input }',
+			'    }',
+			'    fn advance(&mut self) {}',
+			'    pub async fn parse(&self) -> Result<Ast, Error> {',
+			'        todo!()',
+			'    }',
+			'}',
+			'',
+			'pub(crate) const MAX_DEPTH: usize = 64;',
+			'pub unsafe fn raw() {}',
+			'fn private() {}'
+		].join('\n');
+
+		assert.deepStrictEqual(signatures(await extractSymbols('parser.rs', content)), [
+			'pub struct Parser',
+			'impl Parser',
+			'  pub fn new(input: String) -> Self',
+			'  pub async fn parse(&self) -> Result<Ast, Error>',
+			'pub(crate) const MAX_DEPTH: usize = 64',
+			'pub unsafe fn raw()'
+		]);
+	});
+
+	test('Outlines public Java types and methods', async () => {
+		const content = [
+			'package com.acme;',
+			'',
+			'public final class OrderService {',
+			'    private final Repository repository;',
+			'',
+			'    public OrderService(Repository repository) {',
+			'        this.repository = repository;',
+			'    }',
+			'',
+			'    public static <T> List<T> findAll(Class<T> type) {',
+			'        return List.of();',
+			'    }',
+			'',
+			'    void internal() {}',
+			'}'
+		].join('\n');
+
+		assert.deepStrictEqual(signatures(await extractSymbols('OrderService.java', content)), [
+			'public final class OrderService',
+			'  public OrderService(Repository repository)',
+			'  public static <T> List<T> findAll(Class<T> type)'
+		]);
+	});
+
+	test('Outlines public C# types, methods and properties', async () => {
+		const content = [
+			'namespace Acme.Orders',
+			'{',
+			'    public sealed class OrderService',
+			'    {',
+			'        public string Name { get; set; }',
+			'        public async Task<Order> GetAsync(int id)',
+			'        {',
+			'            return null;',
+			'        }',
+			'        private void Log() {}',
+			'    }',
+			'}'
+		].join('\n');
+
+		assert.deepStrictEqual(signatures(await extractSymbols('OrderService.cs', content)), [
+			'public sealed class OrderService',
+			'  public string Name',
+			'  public async Task<Order> GetAsync(int id)'
+		]);
+	});
+
+	test('Supports scripts and the languages with outline rules only', async () => {
+		assert.ok(['a.ts', 'b.tsx', 'c.mjs', 'd.py', 'e.go', 'f.rs', 'G.java', 'H.cs'].every(supportsSymbolExtraction));
+		assert.ok(!supportsSymbolExtraction('main.rb'));
+		assert.deepStrictEqual(await extractSymbols('main.rb', 'def run; end'), []);
+	});
+
+	test('Formats outlines as a Markdown list, leaving out files without symbols', () => {
+		const text = formatSymbolOutlines([
+			{ relativePath: 'empty.ts', symbols: [] },
+			{
+				relativePath: 'cache.ts',
+				symbols: [{ kind: 'class', name: 'Cache', signature: 'class Cache', members: [{ kind: 'method', name: 'get', signature: 'get(key: string)' }] }]
+			}
+		]);
+		assert.strictEqual(text, '### cache.ts\n- class Cache\n  - get(key: string)\n\n');
+	});
+
+	test('Shortens long signatures', async () => {
+		const [symbol] = await extractSymbols('long.ts', `export type Long = ${Array.from({ length: 40 }, (_, i) => `'value${i}'`).join(' | ')};`);
+		assert.strictEqual(symbol.signature.length, 160);
+		assert.ok(symbol.signature.endsWith('...'));
+	});
+});
@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FolderNode } from '../../folderScanner';
+import { FolderStatusEntry, GenerationStatus, StatusDelta, StatusView, WorkspaceRoot } from '../../statusTypes';
+import { applyFileChanges, FileChange, refreshWorkspaceFolders } from '../../workspaceManager';
+
+const FILES: Record<string, string> = {
+	'main.py': 'print("hello")',
+	'src/app.py': 'import api',
+	'src/api/handlers.py': 'def handle(): pass',
+	'docs/guide.md': '# Guide'
+};
+
+/**
+ * A portal recording the deltas it receives
+ */
+class RecordingView implements StatusView {
+	deltas: StatusDelta[] = [];
+
+	update(): void {}
+
+	applyDelta(delta: StatusDelta): void {
+		this.deltas.push(delta);
+	}
+}
+
+suite('workspaceManager', () => {
+	let rootPath = '';
+	let view: RecordingView;
+	let roots: WorkspaceRoot[];
+	let state: { discoveredFolders: FolderNode[]; folderStatusMap: Map<string, FolderStatusEntry> };
+
+	setup(async () => {
+		rootPath = await fs.promises.realpath(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'agentsmd-workspace-')));
+		for (const [relativePath, content] of Object.entries(FILES)) {
+			await write(relativePath, content);
+		}
+		view = new RecordingView();
+		roots = [{ name: 'workspace', path: rootPath }];
+		state = await refreshWorkspaceFolders(view, [], new Map(), roots);
+	});
+
+	teardown(async () => {
+		await fs.promises.rm(rootPath, { recursive: true, force: true });
+	});
+
+	async function write(relativePath: string, content: string): Promise<void> {
+		const filePath = path.join(rootPath, ...relativePath.split('/'));
+		await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+		await fs.promises.writeFile(filePath, content, 'utf-8');
+	}
+
+	async function apply(...changes: Array<[string, FileChange['kind']]>): Promise<void> {
+		state = await applyFileChanges(view, state.discoveredFolders, state.folderStatusMap, roots,
+			changes.map(([relativePath, kind]) => ({ path: path.join(rootPath, ...relativePath.split('/')), kind })));
+	}
+
+	function relativePaths(folderPaths: string[]): string[] {
+		return folderPaths.map(folderPath => path.relative(rootPath, folderPath).split(path.sep).join('/')).sort();
+	}
+
+	test('Sends the folder of a changed file and its ancestors to the portal', async () => {
+		state.folderStatusMap.set(path.join(rootPath, 'src'), { status: GenerationStatus.Completed });
+		await write('src/api/handlers.py', 'def handle(request): pass');
+		await apply(['src/api/handlers.py', 'changed']);
+
+		assert.strictEqual(view.deltas.length, 1);
+		assert.deepStrictEqual(relativePaths(view.deltas[0].updated.map(item => item.path)), ['', 'src', 'src/api']);
+		assert.deepStrictEqual(view.deltas[0].removed, []);
+		// Statuses are kept, only the content changed
+		assert.strictEqual(state.folderStatusMap.get(path.join(rootPath, 'src'))?.status, GenerationStatus.Completed);
+	});
+
+	test('Adds created folders and removes deleted ones without a full refresh', async () => {
+		await write('src/models/user.py', 'class User: pass');
+		await apply(['src/models', 'created']);
+		assert.strictEqual(state.folderStatusMap.get(path.join(rootPath, 'src', 'models'))?.status, GenerationStatus.NotStarted);
+		assert.deepStrictEqual(relativePaths(view.deltas[0].updated.map(item => item.path)), ['', 'src', 'src/models']);
+
+		await fs.promises.rm(path.join(rootPath, 'docs'), { recursive: true });
+		await apply(['docs', 'deleted']);
+		assert.deepStrictEqual(relativePaths(state.discoveredFolders.map(folder => folder.path)), ['', 'src', 'src/api', 'src/models']);
+		assert.deepStrictEqual(relativePaths(view.deltas[1].updated.map(item => item.path)), ['']);
+		assert.deepStrictEqual(relativePaths(view.deltas[1].removed), ['docs']);
+	});
+
+	test('Only sends the folder of a changed output file', async () => {
+		await write('src/AGENTS.md', '# Src');
+		await apply(['src/AGENTS.md', 'created']);
+
+		assert.deepStrictEqual(relativePaths(view.deltas[0].updated.map(item => item.path)), ['src']);
+	});
+
+	test('Ignores changes below ignored folders and the data folder', async () => {
+		await write('node_modules/pkg/index.js', 'module.exports = 1;');
+		await write('.agentsmd/manifest.json', '{}');
+		await apply(['node_modules/pkg/index.js', 'created'], ['.agentsmd/manifest.json', 'changed']);
+
+		assert.deepStrictEqual(view.deltas, []);
+		assert.strictEqual(state.discoveredFolders.length, 4);
+	});
+});
@@ -0,0 +1,65 @@
+import * as vscode from 'vscode';
+import { ChatMessage, ChatModel, ModelError, ModelInfo, ModelProvider } from './modelProvider';
+
+/**
+ * The language models VS Code offers to extensions, e.g. GitHub Copilot's
+ */
+export class VSCodeModelProvider implements ModelProvider {
+	public readonly name = 'VS Code';
+
+	public async listModels(): Promise<ModelInfo[]> {
+		const models = await vscode.lm.selectChatModels();
+		return models.map(model => ({
+			id: model.id,
+			name: model.name,
+			family: model.family,
+			vendor: model.vendor,
+			provider: this.name
+		}));
+	}
+
+	public async getModel(modelId: string): Promise<ChatModel | undefined> {
+		const [model] = await vscode.lm.selectChatModels({ id: modelId });
+		return model ? toChatModel(model) : undefined;
+	}
+}
+
+function toChatModel(model: vscode.LanguageModelChat): ChatModel {
+	return {
+		id: model.id,
+		name: model.name,
+		maxInputTokens: model.maxInputTokens,
+		sendRequest: async (messages, token) => {
+			try {
+				const response = await model.sendRequest(messages.map(toLanguageModelMessage), {}, token);
+				return toModelErrors(response.text);
+			} catch (error) {
+				throw toModelError(error);
+			}
+		},
+		countTokens: async (text, token) => model.countTokens(text, token)
+	};
+}
+
+/**
+ * Pass the streamed text through, turning a LanguageModelError while streaming into a ModelError
+ */
+async function* toModelErrors(fragments: AsyncIterable<string>): AsyncIterable<string> {
+	try {
+		yield* fragments;
+	} catch (error) {
+		throw toModelError(error);
+	}
+}
+
+function toModelError(error: unknown): unknown {
+	return error instanceof vscode.LanguageModelError
+		? new ModelError(error.message, error.code, { cause: error.cause })
+		: error;
+}
+
+function toLanguageModelMessage(message: ChatMessage): vscode.LanguageModelChatMessage {
+	return message.role === 'user'
+		? vscode.LanguageModelChatMessage.User(message.content)
+		: vscode.LanguageModelChatMessage.Assistant(message.content);
+}
@@ -0,0 +1,215 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { IgnoreConfig, updateFileIgnoreConfig } from './ignoreConfig';
+import { PromptConfig, updateFilePromptConfig } from './promptConfig';
+import { OutputTarget, updateFileOutputTargets, validateOutputTargets } from './outputTargets';
+import { RedactionConfig, updateFileRedactionConfig, validateRedactionPatterns } from './secretRedaction';
+import { ClassificationRule, updateFileClassificationRules, validateClassificationRules } from './fileClassification';
+import { FolderScopeConfig, updateFileFolderScope, validateFolderScope } from './folderScope';
+
+/**
+ * Workspace configuration file names, in lookup order (the first one found at a workspace folder's root wins).
+ * The file is meant to be committed so every teammate generates with the same settings.
+ * Its schema is in schemas/agentsmd.schema.json.
+ */
+export const WORKSPACE_CONFIG_FILE_NAMES = ['.agentsmd.json', 'agentsmd.config.json'];
+
+export interface WorkspaceConfigFile {
+	ignore?: Partial<IgnoreConfig>;
+	prompt?: Partial<PromptConfig>;
+	/** Plain paths have their format inferred */
+	outputs?: Array<string | OutputTarget>;
+	redaction?: Partial<RedactionConfig>;
+	/** Added to the built-in file classification rules */
+	fileTypes?: ClassificationRule[];
+	scope?: Partial<FolderScopeConfig>;
+}
+
+/**
+ * Configuration file found in a workspace folder
+ */
+export interface WorkspaceConfigFileState {
+	rootPath: string;
+	filePath: string;
+	/** Parse and validation errors; an invalid file is not applied */
+	errors: string[];
+	/** The sections the file defines, set when it is valid */
+	config?: WorkspaceConfigFile;
+}
+
+/**
+ * Load the configuration files of the given workspace folders and apply them to the ignore and prompt settings
+ */
+export async function loadWorkspaceConfigFiles(rootPaths: string[]): Promise<WorkspaceConfigFileState[]> {
+	const states: WorkspaceConfigFileState[] = [];
+
+	for (const rootPath of rootPaths) {
+		const state = await readWorkspaceConfigFile(rootPath);
+		updateFileIgnoreConfig(rootPath, state?.config?.ignore);
+		updateFilePromptConfig(rootPath, state?.config?.prompt);
+		updateFileOutputTargets(rootPath, state?.config?.outputs ? normalizeOutputTargets(state.config.outputs) : undefined);
+		updateFileRedactionConfig(rootPath, state?.config?.redaction);
+		updateFileClassificationRules(rootPath, state?.config?.fileTypes);
+		updateFileFolderScope(rootPath, state?.config?.scope);
+		if (state) {
+			states.push(state);
+		}
+	}
+
+	return states;
+}
+
+/**
+ * Write a configuration file to a workspace folder's root
+ */
+export async function writeWorkspaceConfigFile(rootPath: string, config: WorkspaceConfigFile): Promise<string> {
+	const filePath = path.join(rootPath, WORKSPACE_CONFIG_FILE_NAMES[0]);
+	const content = JSON.stringify(config, null, '\t') + '\n';
+	await fs.promises.writeFile(filePath, content, { encoding: 'utf-8', flag: 'wx' });
+	return filePath;
+}
+
+async function readWorkspaceConfigFile(rootPath: string): Promise<WorkspaceConfigFileState | undefined> {
+	for (const fileName of WORKSPACE_CONFIG_FILE_NAMES) {
+		const filePath = path.join(rootPath, fileName);
+		let content: string;
+		try {
+			content = await fs.promises.readFile(filePath, 'utf-8');
+		} catch (error) {
+			// File might not exist – that's acceptable
+			continue;
+		}
+
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(content);
+		} catch (error) {
+			return { rootPath, filePath, errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+		}
+
+		const errors = validateWorkspaceConfig(parsed);
+		return errors.length > 0
+			? { rootPath, filePath, errors }
+			: { rootPath, filePath, errors, config: parsed as WorkspaceConfigFile };
+	}
+
+	return undefined;
+}
+
+/**
+ * Check a parsed configuration file against the schema in schemas/agentsmd.schema.json
+ */
+export function validateWorkspaceConfig(value: unknown): string[] {
+	const errors: string[] = [];
+
+	if (!isPlainObject(value)) {
+		return ['The configuration must be a JSON object'];
+	}
+
+	checkKeys(value, ['$schema', 'ignore', 'prompt', 'outputs', 'redaction', 'fileTypes', 'scope'], '', errors);
+
+	if (value.ignore !== undefined) {
+		if (!isPlainObject(value.ignore)) {
+			errors.push('"ignore" must be an object');
+		} else {
+			checkKeys(value.ignore, ['names', 'patterns'], 'ignore.', errors);
+			checkStringArray(value.ignore.names, 'ignore.names', errors);
+			checkStringArray(value.ignore.patterns, 'ignore.patterns', errors);
+		}
+	}
+
+	if (value.prompt !== undefined) {
+		if (!isPlainObject(value.prompt)) {
+			errors.push('"prompt" must be an object');
+		} else {
+			checkKeys(value.prompt, ['mainTemplate', 'subfolderContextTemplate'], 'prompt.', errors);
+			const { mainTemplate, subfolderContextTemplate } = value.prompt;
+			if (mainTemplate !== undefined && (typeof mainTemplate !== 'string' || !mainTemplate.trim())) {
+				errors.push('"prompt.mainTemplate" must be a non-empty string');
+			}
+			if (subfolderContextTemplate !== undefined && typeof subfolderContextTemplate !== 'string') {
+				errors.push('"prompt.subfolderContextTemplate" must be a string');
+			}
+		}
+	}
+
+	if (value.outputs !== undefined) {
+		const outputs = value.outputs;
+		const isTarget = (item: unknown) => typeof item === 'string' || (isPlainObject(item) && typeof item.path === 'string');
+		if (!Array.isArray(outputs) || !outputs.every(isTarget)) {
+			errors.push('"outputs" must be an array of paths or { "path", "format" } objects');
+		} else {
+			for (const item of outputs) {
+				if (isPlainObject(item)) {
+					checkKeys(item, ['path', 'format'], 'outputs[].', errors);
+				}
+			}
+			errors.push(...validateOutputTargets(normalizeOutputTargets(outputs)).map(error => `"outputs": ${error}`));
+		}
+	}
+
+	if (value.redaction !== undefined) {
+		if (!isPlainObject(value.redaction)) {
+			errors.push('"redaction" must be an object');
+		} else {
+			checkKeys(value.redaction, ['patterns', 'deniedFiles'], 'redaction.', errors);
+			const { patterns, deniedFiles } = value.redaction;
+			checkStringArray(patterns, 'redaction.patterns', errors);
+			checkStringArray(deniedFiles, 'redaction.deniedFiles', errors);
+			if (Array.isArray(patterns) && patterns.every(item => typeof item === 'string')) {
+				errors.push(...validateRedactionPatterns(patterns).map(error => `"redaction.patterns": ${error}`));
+			}
+		}
+	}
+
+	if (value.fileTypes !== undefined) {
+		const fileTypes = value.fileTypes;
+		if (!Array.isArray(fileTypes) || !fileTypes.every(isPlainObject)) {
+			errors.push('"fileTypes" must be an array of { "match", "category", "priority" } objects');
+		} else {
+			for (const item of fileTypes) {
+				checkKeys(item, ['match', 'category', 'priority'], 'fileTypes[].', errors);
+			}
+			errors.push(...validateClassificationRules(fileTypes as unknown as ClassificationRule[]).map(error => `"fileTypes": ${error}`));
+		}
+	}
+
+	if (value.scope !== undefined) {
+		if (!isPlainObject(value.scope)) {
+			errors.push('"scope" must be an object');
+		} else {
+			checkKeys(value.scope, ['include', 'maxDepth', 'depthFrom'], 'scope.', errors);
+			checkStringArray(value.scope.include, 'scope.include', errors);
+			const include = Array.isArray(value.scope.include) ? value.scope.include.filter((item): item is string => typeof item === 'string') : [];
+			errors.push(...validateFolderScope({
+				include,
+				maxDepth: value.scope.maxDepth as number | undefined,
+				depthFrom: value.scope.depthFrom as FolderScopeConfig['depthFrom'] | undefined
+			}).map(error => `"scope": ${error}`));
+		}
+	}
+
+	return errors;
+}
+
+function normalizeOutputTargets(outputs: Array<string | OutputTarget>): OutputTarget[] {
+	return outputs.map(item => typeof item === 'string' ? { path: item } : item);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkKeys(value: Record<string, unknown>, allowed: string[], prefix: string, errors: string[]): void {
+	for (const key of Object.keys(value)) {
+		if (!allowed.includes(key)) {
+			errors.push(`Unknown property "${prefix}${key}"`);
+		}
+	}
+}
+
+function checkStringArray(value: unknown, name: string, errors: string[]): void {
+	if (value !== undefined && (!Array.isArray(value) || value.some(item => typeof item !== 'string'))) {
+		errors.push(`"${name}" must be an array of strings`);
+	}
+}
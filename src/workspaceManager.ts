@@ -1,69 +1,201 @@
-import * as vscode from 'vscode';
-import { buildFolderTree, flattenFoldersByDepth, FolderNode } from './folderScanner';
-import { GenerationStatus } from './statusTypes';
-import { updatePortalStatus } from './statusManager';
-import { PortalViewProvider } from './portalViewProvider';
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildFolderTree, findFolderChain, flattenFoldersByDepth, FolderNode, getSkippedFolders, rescanFolders } from './folderScanner';
+import { FolderStatusEntry, GenerationStatus, StatusView, WorkspaceRoot } from './statusTypes';
+import { recordContentChange, updatePortalStatus, updatePortalStatusDelta } from './statusManager';
+import { AGENTSMD_DATA_FOLDER, getPersistedStatusEntry, loadManifest } from './generationManifest';
+import { shouldIgnoreFolder } from './ignoreConfig';
+import { isOutputFile } from './outputTargets';
+
+/**
+ * A file or folder created, changed or deleted in a workspace folder
+ */
+export interface FileChange {
+	path: string;
+	kind: 'created' | 'changed' | 'deleted';
+}
+
+interface WorkspaceState {
+	discoveredFolders: FolderNode[];
+	folderStatusMap: Map<string, FolderStatusEntry>;
+	workspaceRoots: WorkspaceRoot[];
+}
+
+// Folder tree of every workspace folder from the last full refresh, patched by file changes since
+const folderTrees = new Map<string, FolderNode>();
 
 export interface RefreshOptions {
 	resetStatuses?: boolean;
+	/** Only reset statuses of folders in this workspace folder */
+	resetRootPath?: string;
 }
 
 /**
- * Refresh workspace folders and update status
+ * Refresh workspace folders and update status.
+ * Every workspace folder is scanned into its own tree; a root that fails to scan contributes no folders.
+ * @param workspaceRoots The workspace folders open now
  */
 export async function refreshWorkspaceFolders(
-	portalViewProvider: PortalViewProvider | undefined,
+	portalViewProvider: StatusView | undefined,
 	discoveredFolders: FolderNode[],
-	folderStatusMap: Map<string, GenerationStatus>,
-	workspaceRootPath: string,
+	folderStatusMap: Map<string, FolderStatusEntry>,
+	workspaceRoots: WorkspaceRoot[],
 	options: RefreshOptions = {}
-): Promise<{ 
-	discoveredFolders: FolderNode[]; 
-	folderStatusMap: Map<string, GenerationStatus>; 
-	workspaceRootPath: string 
-}> {
-	const { resetStatuses = false } = options;
-
-	if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
-		const emptyState = {
-			workspaceRootPath: '',
-			discoveredFolders: [],
-			folderStatusMap: new Map<string, GenerationStatus>()
-		};
-		await updatePortalStatus(portalViewProvider, emptyState.discoveredFolders, emptyState.folderStatusMap, emptyState.workspaceRootPath);
-		return emptyState;
+): Promise<WorkspaceState> {
+	const { resetStatuses = false, resetRootPath } = options;
+
+	const flattened: FolderNode[] = [];
+	folderTrees.clear();
+	for (const root of workspaceRoots) {
+		try {
+			await loadManifest(root.path);
+			const rootNode = await buildFolderTree(root.path);
+			folderTrees.set(root.path, rootNode);
+			flattened.push(...flattenFoldersByDepth(rootNode));
+		} catch (error) {
+			console.error(`Error building folder tree for workspace folder ${root.path}:`, error);
+		}
 	}
 
-	const newWorkspaceRootPath = vscode.workspace.workspaceFolders[0].uri.fsPath;
+	const previousStatuses = folderStatusMap;
+	const nextStatusMap = new Map<string, FolderStatusEntry>();
 
-	try {
-		const rootNode = await buildFolderTree(newWorkspaceRootPath);
-		const flattened = flattenFoldersByDepth(rootNode);
-		const previousStatuses = folderStatusMap;
-		const nextStatusMap = new Map<string, GenerationStatus>();
-
-		for (const folder of flattened) {
-			const existing = previousStatuses.get(folder.path);
-			const status = resetStatuses ? GenerationStatus.NotStarted : (existing ?? GenerationStatus.NotStarted);
-			nextStatusMap.set(folder.path, status);
+	for (const folder of flattened) {
+		// Fall back to the manifest so statuses survive VS Code reloads
+		const existing = previousStatuses.get(folder.path) ?? getPersistedStatusEntry(folder.path);
+		const reset = resetStatuses && (!resetRootPath || folder.rootPath === resetRootPath);
+		const entry: FolderStatusEntry = reset
+			? { ...existing, status: GenerationStatus.NotStarted, error: undefined }
+			: (existing ?? { status: GenerationStatus.NotStarted });
+		nextStatusMap.set(folder.path, entry);
+	}
+
+	const newState = {
+		discoveredFolders: flattened,
+		folderStatusMap: nextStatusMap,
+		workspaceRoots
+	};
+
+	await updatePortalStatus(portalViewProvider, newState.discoveredFolders, newState.folderStatusMap, newState.workspaceRoots);
+	return newState;
+}
+
+/**
+ * Apply file changes to the folder trees without scanning the workspace again.
+ * Folders created, deleted or renamed (a delete and a create) are scanned again from the nearest folder of the tree above them;
+ * other changes only mark the folder containing the file and its ancestors stale.
+ * The portal receives the items of the affected folders only.
+ */
+export async function applyFileChanges(
+	portalViewProvider: StatusView | undefined,
+	discoveredFolders: FolderNode[],
+	folderStatusMap: Map<string, FolderStatusEntry>,
+	workspaceRoots: WorkspaceRoot[],
+	changes: FileChange[]
+): Promise<WorkspaceState> {
+	const changedFolders = new Set<string>();
+	const structuralChanges = new Map<FolderNode, string[]>();
+
+	for (const change of changes) {
+		const rootNode = [...folderTrees.values()].find(node => findFolderChain(node, change.path).length > 0);
+		if (!rootNode || change.path === rootNode.path || isIgnoredPath(change.path, rootNode.rootPath)) {
+			continue;
+		}
+
+		if (await isStructuralChange(change, rootNode)) {
+			structuralChanges.set(rootNode, [...structuralChanges.get(rootNode) ?? [], change.path]);
+			continue;
+		}
+
+		const chain = findFolderChain(rootNode, path.dirname(change.path));
+		if (isOutputFile(change.path, rootNode.rootPath)) {
+			// Output files don't count as content, but their folder's status still changes
+			chain.slice(-1).forEach(node => changedFolders.add(node.path));
+			continue;
 		}
+		const changedAt = change.kind === 'deleted' ? Date.now() : await getModificationTime(change.path);
+		recordContentChange(chain.map(node => node.path), changedAt);
+		chain.forEach(node => changedFolders.add(node.path));
+	}
+
+	for (const [rootNode, directoryPaths] of structuralChanges) {
+		for (const rescanned of await rescanFolders(rootNode, directoryPaths)) {
+			// The rescanned folder's content changed too, as do its ancestors'
+			const chain = findFolderChain(rootNode, rescanned.path);
+			recordContentChange(chain.map(node => node.path), Date.now());
+			chain.forEach(node => changedFolders.add(node.path));
+		}
+	}
+
+	const flattened = workspaceRoots.flatMap(root => {
+		const rootNode = folderTrees.get(root.path);
+		return rootNode ? flattenFoldersByDepth(rootNode) : [];
+	});
+
+	const nextStatusMap = new Map<string, FolderStatusEntry>();
+	for (const folder of flattened) {
+		const existing = folderStatusMap.get(folder.path);
+		if (!existing) {
+			changedFolders.add(folder.path);
+		}
+		nextStatusMap.set(folder.path, existing ?? getPersistedStatusEntry(folder.path) ?? { status: GenerationStatus.NotStarted });
+	}
+	const removedPaths = discoveredFolders.map(folder => folder.path).filter(folderPath => !nextStatusMap.has(folderPath));
+
+	const newState = {
+		discoveredFolders: flattened,
+		folderStatusMap: nextStatusMap,
+		workspaceRoots
+	};
 
-		const newState = {
-			discoveredFolders: flattened,
-			folderStatusMap: nextStatusMap,
-			workspaceRootPath: newWorkspaceRootPath
-		};
+	if (changedFolders.size > 0 || removedPaths.length > 0) {
+		await updatePortalStatusDelta(
+			portalViewProvider,
+			newState.discoveredFolders,
+			newState.folderStatusMap,
+			newState.workspaceRoots,
+			[...changedFolders],
+			removedPaths
+		);
+	}
+	return newState;
+}
 
-		await updatePortalStatus(portalViewProvider, newState.discoveredFolders, newState.folderStatusMap, newState.workspaceRootPath);
-		return newState;
+/**
+ * Whether a change adds or removes folders of the tree: a folder was created, or a folder of the tree
+ * (or a skipped folder that might have become relevant) was deleted
+ */
+async function isStructuralChange(change: FileChange, rootNode: FolderNode): Promise<boolean> {
+	if (change.kind === 'created') {
+		try {
+			return (await fs.promises.stat(change.path)).isDirectory();
+		} catch (error) {
+			// Already gone again - a later delete event handles it
+			return false;
+		}
+	}
+	if (change.kind === 'deleted') {
+		const within = (folderPath: string) => folderPath === change.path || folderPath.startsWith(change.path + path.sep);
+		return findFolderChain(rootNode, change.path).some(node => node.path === change.path)
+			|| getSkippedFolders().some(folder => within(folder.path));
+	}
+	return false;
+}
+
+/**
+ * Whether a path lies below a folder that is never scanned, like node_modules or the generator's data folder
+ */
+function isIgnoredPath(changedPath: string, rootPath: string): boolean {
+	const segments = path.relative(rootPath, changedPath).split(path.sep);
+	// The last segment may be a file; only its parent folders are checked
+	return segments.slice(0, -1).some((segment, index) =>
+		segment === AGENTSMD_DATA_FOLDER || shouldIgnoreFolder(segment, segments.slice(0, index + 1).join(path.sep), [], rootPath));
+}
+
+async function getModificationTime(changedPath: string): Promise<number> {
+	try {
+		return (await fs.promises.stat(changedPath)).mtimeMs;
 	} catch (error) {
-		console.error('Error building folder tree for workspace snapshot:', error);
-		const errorState = {
-			discoveredFolders: [],
-			folderStatusMap: new Map<string, GenerationStatus>(),
-			workspaceRootPath: newWorkspaceRootPath
-		};
-		await updatePortalStatus(portalViewProvider, errorState.discoveredFolders, errorState.folderStatusMap, errorState.workspaceRootPath);
-		return errorState;
+		return Date.now();
 	}
 }
@@ -0,0 +1,58 @@
+import * as vscode from 'vscode';
+import { FileChange } from './workspaceManager';
+
+// Quiet time after the last file event before the collected changes are applied
+const DEBOUNCE_DELAY_MS = 300;
+
+/**
+ * Watches every file of the workspace and reports the changes in debounced batches.
+ * Batches are handled one at a time; changes arriving meanwhile go into the next batch.
+ */
+export class WorkspaceWatcher implements vscode.Disposable {
+	private readonly watcher = vscode.workspace.createFileSystemWatcher('**/*');
+	// Latest kind of change of each path since the last batch
+	private pending = new Map<string, FileChange['kind']>();
+	private timer: ReturnType<typeof setTimeout> | undefined;
+	private processing: Promise<void> = Promise.resolve();
+
+	constructor(private readonly onChanges: (changes: FileChange[]) => Promise<void>) {
+		this.watcher.onDidCreate(uri => this.record(uri, 'created'));
+		this.watcher.onDidChange(uri => this.record(uri, 'changed'));
+		this.watcher.onDidDelete(uri => this.record(uri, 'deleted'));
+	}
+
+	public dispose(): void {
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = undefined;
+		}
+		this.pending.clear();
+		this.watcher.dispose();
+	}
+
+	private record(uri: vscode.Uri, kind: FileChange['kind']): void {
+		if (uri.scheme !== 'file') {
+			return;
+		}
+		const previous = this.pending.get(uri.fsPath);
+		// A file created and changed within one batch is still new
+		this.pending.set(uri.fsPath, previous === 'created' && kind === 'changed' ? previous : kind);
+
+		if (this.timer) {
+			clearTimeout(this.timer);
+		}
+		this.timer = setTimeout(() => this.flush(), DEBOUNCE_DELAY_MS);
+	}
+
+	private flush(): void {
+		this.timer = undefined;
+		const changes = [...this.pending].map(([path, kind]) => ({ path, kind }));
+		this.pending = new Map();
+
+		this.processing = this.processing
+			.then(() => this.onChanges(changes))
+			.catch((error) => {
+				console.error('Failed to apply file changes:', error);
+			});
+	}
+}